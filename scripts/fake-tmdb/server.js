@@ -0,0 +1,928 @@
+/**
+ * Minimal stand-in for the TMDb v3 API used for offline development and end-to-end tests.
+ * It serves the fixtures in ./fixtures with TMDb-shaped payloads and renders placeholder
+ * artwork for every image path, so the app can run with no network at all.
+ *
+ *   npm run fake-tmdb            # http://localhost:4010/3 (API) and /t/p (images)
+ *   FAKE_TMDB_PORT=5000 npm run fake-tmdb
+ *   FAKE_TMDB_KEY=secret npm run fake-tmdb   # reject requests that do not send this key
+ *   FAKE_TMDB_CHAOS=0.3 npm run fake-tmdb    # fail ~30% of API calls with a 429 or 503
+ */
+import { createServer } from 'node:http'
+import { readFileSync } from 'node:fs'
+
+const PORT = Number(process.env.FAKE_TMDB_PORT ?? 4010)
+const REQUIRED_KEY = process.env.FAKE_TMDB_KEY ?? ''
+const CHAOS_RATE = Number(process.env.FAKE_TMDB_CHAOS ?? 0)
+const PAGE_SIZE = 20
+
+const loadFixture = (name) =>
+  JSON.parse(readFileSync(new URL(`./fixtures/${name}.json`, import.meta.url), 'utf8'))
+
+/** Person ids per movie, for Discover's `with_cast` and `with_crew`. */
+const groupCredits = (list, kind) => {
+  const byMovieId = new Map()
+  for (const person of list) {
+    for (const credit of person[kind]) {
+      byMovieId.set(credit.movie_id, [...(byMovieId.get(credit.movie_id) ?? []), person.id])
+    }
+  }
+  return byMovieId
+}
+
+/** Keyword ids per title; the fixture lists the titles under each keyword instead. */
+const groupKeywords = (list, field) => {
+  const byId = new Map()
+  for (const keyword of list) {
+    for (const id of keyword[field]) {
+      byId.set(id, [...(byId.get(id) ?? []), keyword.id])
+    }
+  }
+  return byId
+}
+
+const movies = loadFixture('movies')
+const genres = loadFixture('genres').genres
+const lists = loadFixture('lists')
+const tv = loadFixture('tv')
+const people = loadFixture('people')
+const collections = loadFixture('collections')
+const reviewTemplates = loadFixture('reviews')
+const keywords = loadFixture('keywords').keywords
+
+const genreById = new Map(genres.map((genre) => [genre.id, genre]))
+// Collection-only movies have detail pages but stay out of the lists, like TMDb's long tail.
+const movieById = new Map([...movies, ...collections.movies].map((movie) => [movie.id, movie]))
+const collectionById = new Map(collections.collections.map((collection) => [collection.id, collection]))
+const collectionByMovieId = new Map(
+  collections.collections.flatMap((collection) => collection.parts.map((id) => [id, collection])),
+)
+const tvGenreById = new Map(tv.genres.map((genre) => [genre.id, genre]))
+const showById = new Map(tv.shows.map((show) => [show.id, show]))
+const personById = new Map(people.map((person) => [person.id, person]))
+const castByMovieId = groupCredits(people, 'cast')
+const crewByMovieId = groupCredits(people, 'crew')
+const keywordIdsByMovieId = groupKeywords(keywords, 'movie_ids')
+const keywordIdsByShowId = groupKeywords(keywords, 'tv_ids')
+
+/** The fixtures name genres in Korean; every other language gets TMDb's English names. */
+const ENGLISH_GENRE_NAMES = {
+  28: 'Action',
+  12: 'Adventure',
+  16: 'Animation',
+  35: 'Comedy',
+  80: 'Crime',
+  99: 'Documentary',
+  18: 'Drama',
+  10751: 'Family',
+  14: 'Fantasy',
+  36: 'History',
+  27: 'Horror',
+  10402: 'Music',
+  9648: 'Mystery',
+  10749: 'Romance',
+  878: 'Science Fiction',
+  53: 'Thriller',
+  10752: 'War',
+  37: 'Western',
+  10759: 'Action & Adventure',
+  10765: 'Sci-Fi & Fantasy',
+}
+
+const toGenreList = (list, searchParams) => {
+  const language = (searchParams.get('language') ?? 'en-US').slice(0, 2)
+  return {
+    genres:
+      language === 'ko'
+        ? list
+        : list.map((genre) => ({ ...genre, name: ENGLISH_GENRE_NAMES[genre.id] ?? genre.name })),
+  }
+}
+
+const toListItem = ({ runtime: _runtime, tagline: _tagline, status: _status, ...movie }) => movie
+
+const toCollectionSummary = ({ overview: _overview, parts: _parts, ...collection }) => collection
+
+const toDetail = ({ genre_ids: genreIds, ...movie }) => {
+  const collection = collectionByMovieId.get(movie.id)
+  return {
+    ...movie,
+    genres: genreIds.map((id) => genreById.get(id)).filter(Boolean),
+    belongs_to_collection: collection ? toCollectionSummary(collection) : null,
+  }
+}
+
+/** Parts are listed in fixture order, which (like TMDb's) is not chronological. */
+const toCollection = ({ parts, ...collection }) => ({
+  ...collection,
+  parts: parts.map((id) => toListItem(movieById.get(id))),
+})
+
+const toShowListItem = ({
+  episode_run_time: _runtime,
+  tagline: _tagline,
+  status: _status,
+  seasons: _seasons,
+  ...show
+}) => show
+
+const toSeason = (show, { season_number: number, episode_count: count, air_date: airDate }) => ({
+  id: show.id * 100 + number,
+  season_number: number,
+  name: number === 0 ? '스페셜' : `시즌 ${number}`,
+  overview: '',
+  air_date: airDate,
+  episode_count: count,
+  poster_path: show.poster_path,
+})
+
+const toShowDetail = ({ genre_ids: genreIds, seasons, ...show }) => ({
+  ...show,
+  genres: genreIds.map((id) => tvGenreById.get(id)).filter(Boolean),
+  seasons: seasons.map((season) => toSeason(show, season)),
+  number_of_seasons: seasons.filter((season) => season.season_number > 0).length,
+  number_of_episodes: seasons
+    .filter((season) => season.season_number > 0)
+    .reduce((total, season) => total + season.episode_count, 0),
+})
+
+/** Episodes are synthesized: one a week from the season premiere, titled by their number. */
+const toSeasonDetail = (show, season) => ({
+  ...toSeason(show, season),
+  episodes: Array.from({ length: season.episode_count }, (_, index) => ({
+    id: show.id * 10_000 + season.season_number * 100 + index + 1,
+    episode_number: index + 1,
+    season_number: season.season_number,
+    name: `에피소드 ${index + 1}`,
+    overview: `${show.name} 시즌 ${season.season_number}의 ${index + 1}번째 에피소드.`,
+    air_date: shiftDate(season.air_date, index * 7).slice(0, 10),
+    runtime: show.episode_run_time[0] ?? null,
+    still_path: `/still-${show.id}-${season.season_number}-${index + 1}.jpg`,
+    vote_average: Math.round((show.vote_average - 0.5 + ((index * 7) % 10) / 10) * 10) / 10,
+  })),
+})
+
+const toPersonDetail = ({ cast: _cast, crew: _crew, ...person }) => ({
+  ...person,
+  also_known_as: [person.original_name],
+})
+
+const creditId = (...parts) => parts.join('-')
+
+/** Search results list a person with their three most popular credits, as TMDb does. */
+const toPersonSummary = (person) => ({
+  id: person.id,
+  name: person.name,
+  original_name: person.original_name,
+  known_for_department: person.known_for_department,
+  popularity: person.popularity,
+  profile_path: person.profile_path,
+  known_for: [...new Set([...person.cast, ...person.crew].map((credit) => credit.movie_id))]
+    .map((movieId) => movieById.get(movieId))
+    .filter(Boolean)
+    .sort(SORTERS['popularity.desc'])
+    .slice(0, 3)
+    .map((movie) => ({ ...toListItem(movie), media_type: 'movie' })),
+})
+
+/** Credits are stored per person in the fixture and inverted here for `/movie/{id}/credits`. */
+const toMovieCredits = (movieId) => ({
+  id: movieId,
+  cast: people
+    .flatMap((person) =>
+      person.cast
+        .filter((credit) => credit.movie_id === movieId)
+        .map((credit) => ({
+          id: person.id,
+          name: person.name,
+          original_name: person.original_name,
+          character: credit.character,
+          order: credit.order,
+          credit_id: creditId('cast', movieId, person.id),
+          known_for_department: person.known_for_department,
+          profile_path: person.profile_path,
+        })),
+    )
+    .sort((a, b) => a.order - b.order),
+  crew: people.flatMap((person) =>
+    person.crew
+      .filter((credit) => credit.movie_id === movieId)
+      .map((credit) => ({
+        id: person.id,
+        name: person.name,
+        original_name: person.original_name,
+        job: credit.job,
+        department: credit.department,
+        credit_id: creditId('crew', movieId, person.id, credit.job),
+        known_for_department: person.known_for_department,
+        profile_path: person.profile_path,
+      })),
+  ),
+})
+
+const toPersonMovieCredits = (person) => ({
+  id: person.id,
+  cast: person.cast
+    .filter((credit) => movieById.has(credit.movie_id))
+    .map((credit) => ({
+      ...toListItem(movieById.get(credit.movie_id)),
+      character: credit.character,
+      credit_id: creditId('cast', credit.movie_id, person.id),
+    })),
+  crew: person.crew
+    .filter((credit) => movieById.has(credit.movie_id))
+    .map((credit) => ({
+      ...toListItem(movieById.get(credit.movie_id)),
+      job: credit.job,
+      department: credit.department,
+      credit_id: creditId('crew', credit.movie_id, person.id, credit.job),
+    })),
+})
+
+const sharedGenres = (a, b) => a.genre_ids.filter((id) => b.genre_ids.includes(id)).length
+
+/** "Recommendations" favour movies sharing the most genres; ties go to the more popular one. */
+const recommendationsFor = (movie, searchParams) =>
+  paginate(
+    movies
+      .filter((other) => other.id !== movie.id && sharedGenres(movie, other) > 0)
+      .sort((a, b) => sharedGenres(movie, b) - sharedGenres(movie, a) || b.popularity - a.popularity),
+    searchParams,
+  )
+
+/** "Similar" means the same lead genre, or failing that the same original language, by rating. */
+const similarTo = (movie, searchParams) =>
+  paginate(
+    movies
+      .filter(
+        (other) =>
+          other.id !== movie.id &&
+          (other.genre_ids[0] === movie.genre_ids[0] || other.original_language === movie.original_language),
+      )
+      .sort(SORTERS['vote_average.desc']),
+    searchParams,
+  )
+
+/** Mirrors TMDb's `append_to_response` for the sub-resources the app asks for. */
+const APPENDABLE = {
+  recommendations: (movie) => recommendationsFor(movie, new URLSearchParams()),
+  similar: (movie) => similarTo(movie, new URLSearchParams()),
+}
+
+const withAppended = (movie, searchParams) => {
+  const body = toDetail(movie)
+  for (const name of (searchParams.get('append_to_response') ?? '').split(',')) {
+    if (APPENDABLE[name]) body[name] = APPENDABLE[name](movie)
+  }
+  return body
+}
+
+/** YouTube keys of the official trailers for the fixture movies that have one. */
+const TRAILER_KEYS = {
+  27205: 'YoHD9XEInc0',
+  157336: 'zSWdZVtXT7E',
+  155: 'EXeTwQWrcwY',
+  496243: '5xH0HfJHsaY',
+  872585: 'uYPbbksJxIg',
+  438631: 'n9xhJrPXop4',
+  475557: 'zAGVQLHvwOY',
+  313369: '0pdqf4P9MB8',
+  361743: 'giXco2jaZ_4',
+  603: 'vKQi3bBA1y8',
+}
+
+/**
+ * English requests get a trailer and a clip; other languages only get a localized teaser for
+ * every other movie, so the client's English fallback is exercised too.
+ */
+const toVideos = (movie, language) => {
+  const key = TRAILER_KEYS[movie.id]
+  if (!key) return { id: movie.id, results: [] }
+  const published = `${movie.release_date}T09:00:00.000Z`
+  const video = (suffix, fields) => ({
+    id: `${movie.id}-${suffix}`,
+    key,
+    site: 'YouTube',
+    size: 1080,
+    official: true,
+    published_at: published,
+    ...fields,
+  })
+
+  if (language.startsWith('en')) {
+    return {
+      id: movie.id,
+      results: [
+        video('clip', { name: `${movie.original_title} - Official Clip`, type: 'Clip', iso_639_1: 'en' }),
+        video('trailer', { name: `${movie.original_title} - Official Trailer`, type: 'Trailer', iso_639_1: 'en' }),
+      ],
+    }
+  }
+  return {
+    id: movie.id,
+    results:
+      movie.id % 2 === 0
+        ? [video(`teaser-${language}`, { name: `${movie.title} 공식 티저`, type: 'Teaser', iso_639_1: language.slice(0, 2) })]
+        : [],
+  }
+}
+
+/** Ratings per country, picked deterministically from the movie id so every run is identical. */
+const CERTIFICATIONS = {
+  KR: ['All', '12', '15', '18'],
+  US: ['G', 'PG', 'PG-13', 'R'],
+  JP: ['G', 'PG12', 'R15+', 'R18+'],
+  GB: ['U', 'PG', '12A', '15'],
+}
+
+const toCertificationList = () => ({
+  certifications: Object.fromEntries(
+    Object.entries(CERTIFICATIONS).map(([region, ratings]) => [
+      region,
+      ratings.map((certification, order) => ({ certification, meaning: '', order: order + 1 })),
+    ]),
+  ),
+})
+
+const REGION_DELAY_DAYS = { US: 0, GB: 3, KR: 7, JP: 14 }
+
+const shiftDate = (date, days) => new Date(Date.parse(date) + days * 86_400_000).toISOString()
+
+/**
+ * Most movies get a few to a few dozen English reviews (two pages for some), every third one
+ * also has Korean reviews, and every seventh has none, so both the English fallback and the
+ * empty state show up. Other languages never have reviews.
+ */
+const reviewCount = (movie, language) => {
+  if (movie.id % 7 === 0) return 0
+  if (language === 'en') return 3 + (movie.id % 30)
+  if (language === 'ko') return movie.id % 3 === 0 ? 1 + (movie.id % 2) : 0
+  return 0
+}
+
+const toReviews = (movie, searchParams) => {
+  const language = (searchParams.get('language') ?? 'en-US').slice(0, 2)
+  const templates = reviewTemplates[language] ?? []
+  const { authors } = reviewTemplates
+  const title = language === 'ko' ? movie.title : movie.original_title
+  const since = Date.parse(movie.release_date || '2024-01-01')
+  const reviews = Array.from({ length: templates.length ? reviewCount(movie, language) : 0 }, (_, index) => {
+    const author = authors[(movie.id + index) % authors.length]
+    return {
+      id: `${movie.id}-${language}-${index}`,
+      author: author.name || author.username,
+      author_details: {
+        ...author,
+        // Mix TMDb avatars, legacy Gravatar URLs and no avatar at all.
+        avatar_path: [null, `/avatar-${index}.jpg`, '/https://secure.gravatar.com/avatar/0.jpg'][index % 3],
+        rating: index % 4 === 3 ? null : 5 + ((movie.id + index) % 6),
+      },
+      content: templates[(movie.id + index) % templates.length].replaceAll('{title}', title),
+      created_at: new Date(since + (index + 1) * 9 * 86_400_000).toISOString(),
+      url: `https://www.themoviedb.org/review/${movie.id}-${language}-${index}`,
+    }
+  })
+  return { id: movie.id, ...paginate(reviews, searchParams, (review) => review) }
+}
+
+const toReleaseDates = (movie) => ({
+  id: movie.id,
+  results: Object.entries(CERTIFICATIONS).map(([region, ratings]) => ({
+    iso_3166_1: region,
+    release_dates: [
+      {
+        certification: ratings[movie.id % ratings.length],
+        iso_639_1: '',
+        note: '',
+        release_date: shiftDate(movie.release_date, REGION_DELAY_DAYS[region]),
+        type: 3,
+      },
+      {
+        certification: '',
+        iso_639_1: '',
+        note: '',
+        release_date: shiftDate(movie.release_date, REGION_DELAY_DAYS[region] + 90),
+        type: 4,
+      },
+    ],
+  })),
+})
+
+/** Subscription services and the countries they operate in, in each country's display order. */
+const STREAMING_SERVICES = [
+  { provider_id: 8, provider_name: 'Netflix', regions: ['KR', 'US', 'GB', 'JP'] },
+  { provider_id: 337, provider_name: 'Disney Plus', regions: ['KR', 'US', 'GB', 'JP'] },
+  { provider_id: 97, provider_name: 'Watcha', regions: ['KR'] },
+  { provider_id: 356, provider_name: 'wavve', regions: ['KR'] },
+  { provider_id: 1796, provider_name: 'Netflix basic with Ads', regions: ['KR', 'US', 'GB', 'JP'] },
+  { provider_id: 15, provider_name: 'Hulu', regions: ['US', 'JP'] },
+  { provider_id: 119, provider_name: 'Amazon Prime Video', regions: ['US', 'GB', 'JP', 'KR'] },
+  { provider_id: 350, provider_name: 'Apple TV Plus', regions: ['KR', 'US', 'GB', 'JP'] },
+  { provider_id: 39, provider_name: 'Now TV', regions: ['GB'] },
+  { provider_id: 84, provider_name: 'U-NEXT', regions: ['JP'] },
+]
+/** Stores rent and sell every title everywhere. */
+const STORES = [
+  { provider_id: 2, provider_name: 'Apple TV' },
+  { provider_id: 3, provider_name: 'Google Play Movies' },
+]
+const WATCH_REGIONS = ['KR', 'US', 'GB', 'JP']
+const providerById = new Map(
+  [...STREAMING_SERVICES, ...STORES].map((provider) => [provider.provider_id, provider]),
+)
+
+const toProvider = ({ provider_id: id, provider_name: name }, displayPriority) => ({
+  provider_id: id,
+  provider_name: name,
+  logo_path: `/logo-${id}.png`,
+  display_priority: displayPriority,
+})
+
+const toProviderCatalog = (searchParams) => {
+  const region = searchParams.get('watch_region')
+  const all = [...STREAMING_SERVICES, ...STORES.map((store) => ({ ...store, regions: WATCH_REGIONS }))]
+  return {
+    results: all
+      .filter((provider) => !region || provider.regions.includes(region))
+      .map((provider, index) => ({
+        ...toProvider(provider, index),
+        display_priorities: Object.fromEntries(
+          provider.regions.map((code) => [
+            code,
+            all.filter((entry) => entry.regions.includes(code)).indexOf(provider),
+          ]),
+        ),
+      })),
+  }
+}
+
+/**
+ * Deterministic offers per title: each service streams roughly a third of the catalog, and
+ * every fifth title has no offers at all in Japan so the empty state shows up too.
+ */
+const offersFor = (id, region) => {
+  if (region === 'JP' && id % 5 === 0) return null
+  const services = STREAMING_SERVICES.filter((service) => service.regions.includes(region))
+  const flatrate = services
+    .filter((service) => (id + service.provider_id) % 3 === 0)
+    .map((service) => toProvider(service, services.indexOf(service)))
+  const stores = STORES.map((store, index) => toProvider(store, index))
+  return { flatrate, rent: stores, buy: stores }
+}
+
+const toWatchProviders = (kind, id) => ({
+  id,
+  results: Object.fromEntries(
+    WATCH_REGIONS.flatMap((region) => {
+      const offers = offersFor(id, region)
+      if (!offers) return []
+      const { flatrate, ...rest } = offers
+      return [
+        [
+          region,
+          {
+            link: `https://www.themoviedb.org/${kind}/${id}/watch?locale=${region}`,
+            ...(flatrate.length ? { flatrate } : {}),
+            ...rest,
+          },
+        ],
+      ]
+    }),
+  ),
+})
+
+/** Discover's `with_watch_providers`: `|` matches any of the ids, `,` requires all of them. */
+const matchesWatchProviders = (id, searchParams) => {
+  const wanted = searchParams.get('with_watch_providers')
+  if (!wanted) return true
+  const offers = offersFor(id, searchParams.get('watch_region') ?? 'US')
+  if (!offers) return false
+  const types = (searchParams.get('with_watch_monetization_types') ?? 'flatrate|rent|buy').split('|')
+  const available = new Set(
+    types.flatMap((type) => offers[type] ?? []).map((provider) => provider.provider_id),
+  )
+  const ids = wanted.split(/[|,]/).map(Number)
+  return wanted.includes(',') ? ids.every((pid) => available.has(pid)) : ids.some((pid) => available.has(pid))
+}
+
+const paginate = (items, searchParams, toItem = toListItem) => {
+  const totalPages = Math.max(1, Math.ceil(items.length / PAGE_SIZE))
+  const page = Math.min(Math.max(Number(searchParams.get('page')) || 1, 1), 500)
+  const start = (page - 1) * PAGE_SIZE
+  return {
+    page,
+    results: items.slice(start, start + PAGE_SIZE).map(toItem),
+    total_pages: items.length === 0 ? 0 : totalPages,
+    total_results: items.length,
+  }
+}
+
+const byNumber = (field, direction = -1) => (a, b) => direction * ((a[field] ?? 0) - (b[field] ?? 0))
+const byDate = (direction = -1, field = 'release_date') => (a, b) =>
+  direction * (Date.parse(a[field] ?? 0) - Date.parse(b[field] ?? 0))
+
+const SORTERS = {
+  'popularity.desc': byNumber('popularity'),
+  'popularity.asc': byNumber('popularity', 1),
+  'vote_average.desc': byNumber('vote_average'),
+  'vote_average.asc': byNumber('vote_average', 1),
+  'release_date.desc': byDate(),
+  'release_date.asc': byDate(1),
+  'primary_release_date.desc': byDate(),
+  'primary_release_date.asc': byDate(1),
+}
+
+const TV_SORTERS = {
+  'popularity.desc': byNumber('popularity'),
+  'popularity.asc': byNumber('popularity', 1),
+  'vote_average.desc': byNumber('vote_average'),
+  'vote_average.asc': byNumber('vote_average', 1),
+  'first_air_date.desc': byDate(-1, 'first_air_date'),
+  'first_air_date.asc': byDate(1, 'first_air_date'),
+}
+
+const pickIds = (ids) => ids.map((id) => movieById.get(id)).filter(Boolean)
+
+/** `with_genres` takes `,` (all of) or `|` (any of) like TMDb; `without_genres` drops any listed. */
+const matchesGenres = (genreIds, searchParams) => {
+  const withGenres = searchParams.get('with_genres')
+  const withoutGenres = searchParams.get('without_genres')
+  if (withGenres) {
+    const ids = withGenres.split(/[,|]/).map(Number)
+    const matches = withGenres.includes('|')
+      ? ids.some((id) => genreIds.includes(id))
+      : ids.every((id) => genreIds.includes(id))
+    if (!matches) return false
+  }
+  return !withoutGenres || !withoutGenres.split(/[,|]/).some((id) => genreIds.includes(Number(id)))
+}
+
+/** Id lists such as `with_cast` take `,` (all of) or `|` (any of); an absent parameter matches. */
+const matchesIdList = (ids, value) => {
+  if (!value) return true
+  const wanted = value.split(/[,|]/).map(Number)
+  return value.includes('|')
+    ? wanted.some((id) => ids.includes(id))
+    : wanted.every((id) => ids.includes(id))
+}
+
+/** The filters movie and TV Discover share; `dateField` is the one the `.gte`/`.lte` bounds use. */
+const matchesDiscoverFilters = (item, date, runtime, dateField, searchParams) => {
+  const from = searchParams.get(`${dateField}.gte`)
+  const to = searchParams.get(`${dateField}.lte`)
+  const minRuntime = Number(searchParams.get('with_runtime.gte') ?? 0)
+  const maxRuntime = Number(searchParams.get('with_runtime.lte') ?? 0)
+  const language = searchParams.get('with_original_language')
+
+  if (!matchesGenres(item.genre_ids, searchParams)) return false
+  if ((from || to) && (!date || (from && date < from) || (to && date.slice(0, 10) > to))) return false
+  if ((minRuntime || maxRuntime) && !runtime) return false
+  if (minRuntime && runtime < minRuntime) return false
+  if (maxRuntime && runtime > maxRuntime) return false
+  if (language && item.original_language !== language) return false
+  if (Number(searchParams.get('vote_average.gte') ?? 0) > item.vote_average) return false
+  if (Number(searchParams.get('vote_count.gte') ?? 0) > item.vote_count) return false
+  return matchesWatchProviders(item.id, searchParams)
+}
+
+/** TMDb only applies `certification` together with `certification_country`. */
+const matchesCertification = (movie, searchParams) => {
+  const certification = searchParams.get('certification')
+  const ratings = CERTIFICATIONS[searchParams.get('certification_country')]
+  if (!certification || !ratings) return true
+  return ratings[movie.id % ratings.length] === certification
+}
+
+const discover = (searchParams) => {
+  const year = searchParams.get('primary_release_year')
+  const result = movies.filter(
+    (movie) =>
+      (!year || movie.release_date?.startsWith(year)) &&
+      matchesDiscoverFilters(movie, movie.release_date, movie.runtime, 'primary_release_date', searchParams) &&
+      matchesCertification(movie, searchParams) &&
+      matchesIdList(castByMovieId.get(movie.id) ?? [], searchParams.get('with_cast')) &&
+      matchesIdList(crewByMovieId.get(movie.id) ?? [], searchParams.get('with_crew')) &&
+      matchesIdList(keywordIdsByMovieId.get(movie.id) ?? [], searchParams.get('with_keywords')),
+  )
+
+  const sorter = SORTERS[searchParams.get('sort_by') ?? 'popularity.desc'] ?? SORTERS['popularity.desc']
+  return paginate(result.sort(sorter), searchParams)
+}
+
+const search = (searchParams) => {
+  const query = (searchParams.get('query') ?? '').trim().toLowerCase()
+  const year = searchParams.get('primary_release_year')
+  const result = movies.filter((movie) => {
+    if (!query) return false
+    const matches = [movie.title, movie.original_title].some((title) =>
+      title.toLowerCase().includes(query),
+    )
+    return matches && (!year || movie.release_date?.startsWith(year))
+  })
+  return paginate(result.sort(SORTERS['popularity.desc']), searchParams)
+}
+
+const discoverTv = (searchParams) => {
+  const year = searchParams.get('first_air_date_year')
+  const result = tv.shows.filter(
+    (show) =>
+      (!year || show.first_air_date?.startsWith(year)) &&
+      matchesDiscoverFilters(show, show.first_air_date, show.episode_run_time[0], 'first_air_date', searchParams) &&
+      matchesIdList(keywordIdsByShowId.get(show.id) ?? [], searchParams.get('with_keywords')),
+  )
+
+  const sorter =
+    TV_SORTERS[searchParams.get('sort_by') ?? 'popularity.desc'] ?? TV_SORTERS['popularity.desc']
+  return paginate(result.sort(sorter), searchParams, toShowListItem)
+}
+
+const searchTv = (searchParams) => {
+  const query = (searchParams.get('query') ?? '').trim().toLowerCase()
+  const year = searchParams.get('first_air_date_year')
+  const result = tv.shows.filter((show) => {
+    if (!query) return false
+    const matches = [show.name, show.original_name].some((name) =>
+      name.toLowerCase().includes(query),
+    )
+    return matches && (!year || show.first_air_date?.startsWith(year))
+  })
+  return paginate(result.sort(TV_SORTERS['popularity.desc']), searchParams, toShowListItem)
+}
+
+const searchPeople = (searchParams) => {
+  const query = (searchParams.get('query') ?? '').trim().toLowerCase()
+  const result = people.filter(
+    (person) =>
+      query &&
+      [person.name, person.original_name].some((name) => name.toLowerCase().includes(query)),
+  )
+  return paginate(result.sort(byNumber('popularity')), searchParams, toPersonSummary)
+}
+
+/** Titles of both media types and people in one list, tagged with `media_type` like TMDb's. */
+const searchMulti = (searchParams) => {
+  const query = (searchParams.get('query') ?? '').trim().toLowerCase()
+  const matches = (...names) => !!query && names.some((name) => name.toLowerCase().includes(query))
+  const result = [
+    ...movies
+      .filter((movie) => matches(movie.title, movie.original_title))
+      .map((movie) => ({ ...toListItem(movie), media_type: 'movie' })),
+    ...tv.shows
+      .filter((show) => matches(show.name, show.original_name))
+      .map((show) => ({ ...toShowListItem(show), media_type: 'tv' })),
+    ...people
+      .filter((person) => matches(person.name, person.original_name))
+      .map((person) => ({ ...toPersonSummary(person), media_type: 'person' })),
+  ]
+  return paginate(result.sort(byNumber('popularity')), searchParams, (item) => item)
+}
+
+const searchKeywords = (searchParams) => {
+  const query = (searchParams.get('query') ?? '').trim().toLowerCase()
+  const result = keywords.filter((keyword) => query && keyword.name.includes(query))
+  return paginate(result, searchParams, ({ id, name }) => ({ id, name }))
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Trending weighs popularity by a factor that drifts each day (or each week), so the chart
+ * reshuffles between visits and the app's rank movement arrows have something to show.
+ */
+const trending = (timeWindow, searchParams) => {
+  const period = Math.floor(Date.now() / (timeWindow === 'week' ? 7 * DAY : DAY))
+  const score = (movie) => movie.popularity * (1 + 0.6 * Math.sin(movie.id * 0.7 + period))
+  return paginate(movies.slice().sort((a, b) => score(b) - score(a)), searchParams)
+}
+
+/** Each route receives the regex match and the query string and returns a JSON body or null. */
+const routes = [
+  [/^\/movie\/popular$/, (_match, query) => paginate(movies.slice().sort(SORTERS['popularity.desc']), query)],
+  [/^\/movie\/top_rated$/, (_match, query) => paginate(movies.slice().sort(SORTERS['vote_average.desc']), query)],
+  [/^\/movie\/now_playing$/, (_match, query) => paginate(pickIds(lists.now_playing), query)],
+  [/^\/movie\/upcoming$/, (_match, query) => paginate(pickIds(lists.upcoming), query)],
+  [/^\/trending\/movie\/(day|week)$/, ([, timeWindow], query) => trending(timeWindow, query)],
+  [/^\/discover\/movie$/, (_match, query) => discover(query)],
+  [/^\/search\/movie$/, (_match, query) => search(query)],
+  [/^\/search\/person$/, (_match, query) => searchPeople(query)],
+  [/^\/search\/keyword$/, (_match, query) => searchKeywords(query)],
+  [/^\/search\/multi$/, (_match, query) => searchMulti(query)],
+  [/^\/genre\/movie\/list$/, (_match, query) => toGenreList(genres, query)],
+  [/^\/tv\/popular$/, (_match, query) => paginate(tv.shows.slice().sort(TV_SORTERS['popularity.desc']), query, toShowListItem)],
+  [/^\/tv\/top_rated$/, (_match, query) => paginate(tv.shows.slice().sort(TV_SORTERS['vote_average.desc']), query, toShowListItem)],
+  [/^\/discover\/tv$/, (_match, query) => discoverTv(query)],
+  [/^\/search\/tv$/, (_match, query) => searchTv(query)],
+  [/^\/genre\/tv\/list$/, (_match, query) => toGenreList(tv.genres, query)],
+  [/^\/certification\/movie\/list$/, () => toCertificationList()],
+  [
+    /^\/tv\/(\d+)\/season\/(\d+)$/,
+    ([, id, number]) => {
+      const show = showById.get(Number(id))
+      const season = show?.seasons.find((entry) => entry.season_number === Number(number))
+      return season ? toSeasonDetail(show, season) : null
+    },
+  ],
+  [
+    /^\/tv\/(\d+)$/,
+    ([, id]) => {
+      const show = showById.get(Number(id))
+      return show ? toShowDetail(show) : null
+    },
+  ],
+  [
+    /^\/configuration$/,
+    () => ({
+      images: {
+        base_url: `http://localhost:${PORT}/t/p/`,
+        secure_base_url: `http://localhost:${PORT}/t/p/`,
+        backdrop_sizes: ['w300', 'w780', 'w1280', 'original'],
+        logo_sizes: ['w45', 'w92', 'w154', 'w185', 'w300', 'w500', 'original'],
+        poster_sizes: ['w92', 'w154', 'w185', 'w342', 'w500', 'w780', 'original'],
+        profile_sizes: ['w45', 'w185', 'h632', 'original'],
+        still_sizes: ['w92', 'w185', 'w300', 'original'],
+      },
+      change_keys: [],
+    }),
+  ],
+  [
+    /^\/movie\/(\d+)\/videos$/,
+    ([, id], query) => {
+      const movie = movieById.get(Number(id))
+      return movie ? toVideos(movie, query.get('language') ?? 'en-US') : null
+    },
+  ],
+  [
+    /^\/collection\/(\d+)$/,
+    ([, id]) => {
+      const collection = collectionById.get(Number(id))
+      return collection ? toCollection(collection) : null
+    },
+  ],
+  [/^\/watch\/providers\/(?:movie|tv)$/, (_match, query) => toProviderCatalog(query)],
+  [
+    /^\/movie\/(\d+)\/watch\/providers$/,
+    ([, id]) => (movieById.has(Number(id)) ? toWatchProviders('movie', Number(id)) : null),
+  ],
+  [
+    /^\/tv\/(\d+)\/watch\/providers$/,
+    ([, id]) => (showById.has(Number(id)) ? toWatchProviders('tv', Number(id)) : null),
+  ],
+  [/^\/tv\/(\d+)\/videos$/, ([, id]) => (showById.has(Number(id)) ? { id: Number(id), results: [] } : null)],
+  [
+    /^\/movie\/(\d+)\/credits$/,
+    ([, id]) => (movieById.has(Number(id)) ? toMovieCredits(Number(id)) : null),
+  ],
+  [
+    /^\/person\/(\d+)\/movie_credits$/,
+    ([, id]) => {
+      const person = personById.get(Number(id))
+      return person ? toPersonMovieCredits(person) : null
+    },
+  ],
+  [
+    /^\/person\/(\d+)$/,
+    ([, id]) => {
+      const person = personById.get(Number(id))
+      return person ? toPersonDetail(person) : null
+    },
+  ],
+  [
+    /^\/movie\/(\d+)\/release_dates$/,
+    ([, id]) => {
+      const movie = movieById.get(Number(id))
+      return movie?.release_date ? toReleaseDates(movie) : null
+    },
+  ],
+  [
+    /^\/movie\/(\d+)\/reviews$/,
+    ([, id], query) => {
+      const movie = movieById.get(Number(id))
+      return movie ? toReviews(movie, query) : null
+    },
+  ],
+  [
+    /^\/movie\/(\d+)\/recommendations$/,
+    ([, id], query) => {
+      const movie = movieById.get(Number(id))
+      return movie ? recommendationsFor(movie, query) : null
+    },
+  ],
+  [
+    /^\/movie\/(\d+)\/similar$/,
+    ([, id], query) => {
+      const movie = movieById.get(Number(id))
+      return movie ? similarTo(movie, query) : null
+    },
+  ],
+  [
+    /^\/movie\/(\d+)$/,
+    ([, id], query) => {
+      const movie = movieById.get(Number(id))
+      return movie ? withAppended(movie, query) : null
+    },
+  ],
+]
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Accept, Authorization, Content-Type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Expose-Headers': 'Retry-After',
+}
+
+const sendJson = (response, status, body) => {
+  response.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json; charset=utf-8' })
+  response.end(JSON.stringify(body))
+}
+
+const sendError = (response, status, message) =>
+  sendJson(response, status, { success: false, status_code: status, status_message: message })
+
+const placeholderImage = (file) => {
+  const label = file.replace(/^\//, '').replace(/\.\w+$/, '')
+  const [kind, id] = label.split('-')
+  const isShow = kind.startsWith('tv') || kind === 'still'
+  const sources = {
+    profile: personById,
+    logo: providerById,
+    collection: collectionById,
+    collectionbackdrop: collectionById,
+  }
+  const source = isShow ? showById : (sources[kind] ?? movieById)
+  const match = source.get(Number(id))
+  const title = match?.original_title ?? match?.original_name ?? match?.provider_name ?? match?.name ?? label
+  const isBackdrop = ['backdrop', 'tvbackdrop', 'collectionbackdrop', 'still'].includes(kind)
+  const [width, height] = isBackdrop ? [1280, 720] : kind === 'logo' ? [300, 300] : [500, 750]
+  const hue = (Number(id) || label.length * 37) % 360
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+    <stop offset="0" stop-color="hsl(${hue},70%,35%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},70%,15%)"/>
+  </linearGradient></defs>
+  <rect width="100%" height="100%" fill="url(#g)"/>
+  <text x="50%" y="50%" fill="#fff" font-family="sans-serif" font-size="${isBackdrop ? 56 : 36}" text-anchor="middle">${title.replace(/[<&>]/g, '')}</text>
+</svg>`
+}
+
+const isAuthorized = (request, url) => {
+  if (!REQUIRED_KEY) return true
+  const bearer = request.headers.authorization?.replace(/^Bearer\s+/i, '')
+  return url.searchParams.get('api_key') === REQUIRED_KEY || bearer === REQUIRED_KEY
+}
+
+const server = createServer((request, response) => {
+  const url = new URL(request.url ?? '/', `http://${request.headers.host ?? 'localhost'}`)
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, CORS_HEADERS)
+    response.end()
+    return
+  }
+
+  const imageMatch = url.pathname.match(/^\/t\/p\/[^/]+(\/.+)$/)
+  if (imageMatch) {
+    response.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'image/svg+xml' })
+    response.end(placeholderImage(imageMatch[1]))
+    return
+  }
+
+  if (!url.pathname.startsWith('/3/')) {
+    sendError(response, 404, 'The resource you requested could not be found.')
+    return
+  }
+
+  if (!isAuthorized(request, url)) {
+    sendError(response, 401, 'Invalid API key: You must be granted a valid key.')
+    return
+  }
+
+  if (CHAOS_RATE > 0 && Math.random() < CHAOS_RATE) {
+    if (Math.random() < 0.5) {
+      response.setHeader('Retry-After', '1')
+      sendError(response, 429, 'Your request count is over the allowed limit.')
+    } else {
+      sendError(response, 503, 'Service unavailable.')
+    }
+    return
+  }
+
+  const path = url.pathname.slice(2)
+  for (const [pattern, handler] of routes) {
+    const match = path.match(pattern)
+    if (!match) continue
+    const body = handler(match, url.searchParams)
+    if (body) {
+      sendJson(response, 200, body)
+    } else {
+      sendError(response, 404, 'The resource you requested could not be found.')
+    }
+    return
+  }
+
+  sendError(response, 404, 'The resource you requested could not be found.')
+})
+
+server.listen(PORT, () => {
+  console.log(`Fake TMDb listening on http://localhost:${PORT}`)
+  console.log(`  VITE_TMDB_API_BASE_URL=http://localhost:${PORT}/3`)
+  console.log(`  VITE_TMDB_IMAGE_BASE_URL=http://localhost:${PORT}/t/p`)
+})
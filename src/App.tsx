@@ -1,12 +1,17 @@
 import { Navigate, Route, Routes } from 'react-router-dom'
 import AppLayout from './components/AppLayout'
 import ProtectedRoute from './components/ProtectedRoute'
+import CollectionPage from './pages/CollectionPage'
+import GenrePage from './pages/GenrePage'
 import HomePage from './pages/HomePage'
 import MovieDetailPage from './pages/MovieDetailPage'
+import PersonPage from './pages/PersonPage'
 import PopularPage from './pages/PopularPage'
 import ProfilePage from './pages/ProfilePage'
 import SearchPage from './pages/SearchPage'
 import SignInPage from './pages/SignInPage'
+import TrendingPage from './pages/TrendingPage'
+import TvDetailPage from './pages/TvDetailPage'
 import WishlistPage from './pages/WishlistPage'
 import './App.css'
 
@@ -17,11 +22,16 @@ function App() {
       <Route element={<ProtectedRoute />}>
         <Route element={<AppLayout />}>
           <Route index element={<HomePage />} />
+          <Route path="trending" element={<TrendingPage />} />
           <Route path="popular" element={<PopularPage />} />
           <Route path="search" element={<SearchPage />} />
           <Route path="wishlist" element={<WishlistPage />} />
           <Route path="profile" element={<ProfilePage />} />
           <Route path="movie/:id" element={<MovieDetailPage />} />
+          <Route path="tv/:id" element={<TvDetailPage />} />
+          <Route path="person/:id" element={<PersonPage />} />
+          <Route path="collection/:id" element={<CollectionPage />} />
+          <Route path="genre/:id" element={<GenrePage />} />
         </Route>
       </Route>
       <Route path="*" element={<Navigate to="/" replace />} />
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const createStorage = () => {
+  const items = new Map<string, string>()
+  return {
+    items,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value)
+    },
+    removeItem: (key: string) => {
+      items.delete(key)
+    },
+  }
+}
+
+let storage: ReturnType<typeof createStorage>
+let listeners: Map<string, (event: unknown) => void>
+
+// The in-memory copy is module state, so each test loads the cache again over its own storage.
+const loadCache = async () => {
+  vi.resetModules()
+  return import('./cache')
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.setSystemTime(new Date('2024-05-01T12:00:00Z'))
+  storage = createStorage()
+  listeners = new Map()
+  vi.stubGlobal('window', {
+    localStorage: storage,
+    addEventListener: (type: string, listener: (event: unknown) => void) => {
+      listeners.set(type, listener)
+    },
+  })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+})
+
+describe('TMDb response cache', () => {
+  it('returns fresh entries, then the same value marked stale once the TTL passes', async () => {
+    const { readCacheEntry, writeCacheEntry, MINUTE } = await loadCache()
+    writeCacheEntry('movie/1', { id: 1 }, MINUTE)
+
+    expect(readCacheEntry('movie/1')).toEqual({ value: { id: 1 }, stale: false })
+    vi.advanceTimersByTime(MINUTE + 1)
+    expect(readCacheEntry('movie/1')).toEqual({ value: { id: 1 }, stale: true })
+  })
+
+  it('drops entries a week past their write', async () => {
+    const { readCacheEntry, writeCacheEntry, MINUTE } = await loadCache()
+    writeCacheEntry('movie/1', { id: 1 }, MINUTE)
+
+    vi.advanceTimersByTime(1000 * 60 * 60 * 24 * 8)
+    expect(readCacheEntry('movie/1')).toBeNull()
+  })
+
+  it('evicts the least recently used entry once it holds 150', async () => {
+    const { readCacheEntry, writeCacheEntry, getCacheStats, MINUTE } = await loadCache()
+    for (let index = 0; index < 150; index += 1) {
+      writeCacheEntry(`page/${index}`, index, MINUTE)
+      vi.advanceTimersByTime(1)
+    }
+    // Reading the oldest entry makes the second oldest the one to go.
+    readCacheEntry('page/0')
+    vi.advanceTimersByTime(1)
+    writeCacheEntry('page/150', 150, MINUTE)
+
+    expect(getCacheStats().entries).toBe(150)
+    expect(readCacheEntry('page/0')).not.toBeNull()
+    expect(readCacheEntry('page/1')).toBeNull()
+    expect(readCacheEntry('page/150')).not.toBeNull()
+  })
+
+  it('keeps entries in localStorage for the next load', async () => {
+    const first = await loadCache()
+    first.writeCacheEntry('movie/1', { id: 1 }, first.MINUTE)
+    await vi.runAllTimersAsync()
+
+    const second = await loadCache()
+    expect(second.readCacheEntry('movie/1')?.value).toEqual({ id: 1 })
+  })
+
+  it('saves a burst of writes to localStorage once', async () => {
+    const { writeCacheEntry, flushCache, MINUTE } = await loadCache()
+    const setItem = vi.spyOn(storage, 'setItem')
+    writeCacheEntry('page/1', 1, MINUTE)
+    writeCacheEntry('page/2', 2, MINUTE)
+    writeCacheEntry('page/3', 3, MINUTE)
+    expect(setItem).not.toHaveBeenCalled()
+
+    await vi.runAllTimersAsync()
+    expect(setItem).toHaveBeenCalledTimes(1)
+
+    writeCacheEntry('page/4', 4, MINUTE)
+    flushCache()
+    expect(setItem).toHaveBeenCalledTimes(2)
+    expect(Object.keys(JSON.parse(storage.getItem('tmdbCache') ?? '').entries)).toHaveLength(4)
+  })
+
+  it('keeps unsaved writes when another tab saves the cache first', async () => {
+    const { readCacheEntry, writeCacheEntry, flushCache, MINUTE } = await loadCache()
+    writeCacheEntry('movie/1', { id: 1 }, MINUTE)
+
+    const entry = { value: { id: 2 }, storedAt: Date.now(), accessedAt: Date.now(), ttl: MINUTE }
+    const theirs = JSON.stringify({ version: 1, entries: { 'movie/2': { ...entry, size: 8 } } })
+    storage.setItem('tmdbCache', theirs)
+    listeners.get('storage')?.({ key: 'tmdbCache', newValue: theirs })
+
+    expect(readCacheEntry('movie/1')?.value).toEqual({ id: 1 })
+    expect(readCacheEntry('movie/2')?.value).toEqual({ id: 2 })
+    flushCache()
+    const saved = JSON.parse(storage.getItem('tmdbCache') ?? '').entries
+    expect(Object.keys(saved).sort()).toEqual(['movie/1', 'movie/2'])
+  })
+
+  it('forgets everything on clearCache', async () => {
+    const { readCacheEntry, writeCacheEntry, clearCache, getCacheStats, MINUTE } = await loadCache()
+    writeCacheEntry('movie/1', { id: 1 }, MINUTE)
+
+    clearCache()
+    expect(readCacheEntry('movie/1')).toBeNull()
+    expect(getCacheStats()).toEqual({ entries: 0, bytes: 0 })
+  })
+})
@@ -0,0 +1,189 @@
+type CacheEntry = {
+  value: unknown
+  storedAt: number
+  accessedAt: number
+  ttl: number
+  size: number
+}
+
+type CacheSnapshot = {
+  version: number
+  entries: Record<string, CacheEntry>
+}
+
+export type CachedValue<T> = {
+  value: T
+  /** True once the entry is older than its TTL; it can still be shown while revalidating. */
+  stale: boolean
+}
+
+export const CACHE_STORAGE_KEY = 'tmdbCache'
+const CACHE_VERSION = 1
+const MAX_ENTRIES = 150
+const MAX_BYTES = 1_500_000
+/** Stale entries are kept this long for stale-while-revalidate rendering, then dropped. */
+const MAX_STALE_AGE = 1000 * 60 * 60 * 24 * 7
+
+export const MINUTE = 1000 * 60
+/** Writes within this window share one serialization of the whole cache. */
+const PERSIST_DELAY = 1000
+
+const canUseStorage = () => typeof window !== 'undefined' && !!window.localStorage
+
+let memory: Map<string, CacheEntry> | null = null
+let persistTimer: ReturnType<typeof setTimeout> | null = null
+
+const isExpired = (entry: CacheEntry, now: number) => now - entry.storedAt > MAX_STALE_AGE
+
+const load = () => {
+  if (memory) return memory
+  memory = new Map()
+  if (!canUseStorage()) return memory
+
+  const raw = window.localStorage.getItem(CACHE_STORAGE_KEY)
+  if (!raw) return memory
+
+  try {
+    const snapshot = JSON.parse(raw) as CacheSnapshot
+    if (snapshot?.version !== CACHE_VERSION || typeof snapshot.entries !== 'object') {
+      return memory
+    }
+    const now = Date.now()
+    Object.entries(snapshot.entries).forEach(([key, entry]) => {
+      if (entry && typeof entry.storedAt === 'number' && !isExpired(entry, now)) {
+        memory?.set(key, entry)
+      }
+    })
+  } catch {
+    window.localStorage.removeItem(CACHE_STORAGE_KEY)
+  }
+
+  return memory
+}
+
+const totalBytes = (entries: Map<string, CacheEntry>) => {
+  let bytes = 0
+  entries.forEach((entry) => {
+    bytes += entry.size
+  })
+  return bytes
+}
+
+const evictLeastRecentlyUsed = (entries: Map<string, CacheEntry>, maxEntries: number, maxBytes: number) => {
+  const ordered = [...entries.entries()].sort((a, b) => a[1].accessedAt - b[1].accessedAt)
+  let bytes = totalBytes(entries)
+  for (const [key, entry] of ordered) {
+    if (entries.size <= maxEntries && bytes <= maxBytes) break
+    entries.delete(key)
+    bytes -= entry.size
+  }
+}
+
+const persist = (entries: Map<string, CacheEntry>) => {
+  if (!canUseStorage()) return
+
+  const write = () => {
+    const snapshot: CacheSnapshot = { version: CACHE_VERSION, entries: Object.fromEntries(entries) }
+    window.localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(snapshot))
+  }
+
+  try {
+    write()
+  } catch {
+    // Quota exceeded: drop the older half and try once more before giving up on persistence.
+    evictLeastRecentlyUsed(entries, Math.floor(entries.size / 2), totalBytes(entries) / 2)
+    try {
+      write()
+    } catch {
+      window.localStorage.removeItem(CACHE_STORAGE_KEY)
+    }
+  }
+}
+
+/** Writes the cache out now instead of waiting for the scheduled flush. */
+export const flushCache = () => {
+  if (persistTimer === null) return
+  clearTimeout(persistTimer)
+  persistTimer = null
+  if (memory) persist(memory)
+}
+
+/**
+ * Serializing the whole cache costs more than any single response, so a burst of writes (a search
+ * page, a row of hovered cards) is saved once after it settles, or when the page is left.
+ */
+const schedulePersist = () => {
+  if (!canUseStorage() || persistTimer !== null) return
+  persistTimer = setTimeout(flushCache, PERSIST_DELAY)
+}
+
+/**
+ * Another tab wrote or cleared the cache. Writes this tab has not saved yet are merged into what
+ * it wrote, keeping the newer copy of each entry, so the next flush doesn't lose either side.
+ */
+const reloadFromStorage = (event: StorageEvent) => {
+  if (event.key && event.key !== CACHE_STORAGE_KEY) return
+  const unsaved = memory
+  memory = null
+  if (persistTimer === null || !unsaved) return
+  if (event.newValue === null) {
+    // Cleared elsewhere, so this tab's unsaved entries go as well.
+    clearTimeout(persistTimer)
+    persistTimer = null
+    return
+  }
+
+  const entries = load()
+  unsaved.forEach((entry, key) => {
+    const theirs = entries.get(key)
+    if (!theirs || theirs.storedAt < entry.storedAt) entries.set(key, entry)
+  })
+  evictLeastRecentlyUsed(entries, MAX_ENTRIES, MAX_BYTES)
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', reloadFromStorage)
+  window.addEventListener('pagehide', flushCache)
+}
+
+export const readCacheEntry = <T>(key: string): CachedValue<T> | null => {
+  const entries = load()
+  const entry = entries.get(key)
+  if (!entry) return null
+
+  const now = Date.now()
+  if (isExpired(entry, now)) {
+    entries.delete(key)
+    return null
+  }
+
+  entry.accessedAt = now
+  return { value: entry.value as T, stale: now - entry.storedAt > entry.ttl }
+}
+
+export const writeCacheEntry = (key: string, value: unknown, ttl: number) => {
+  const entries = load()
+  const now = Date.now()
+  const size = JSON.stringify(value)?.length ?? 0
+  if (size > MAX_BYTES) return
+
+  entries.delete(key)
+  entries.set(key, { value, storedAt: now, accessedAt: now, ttl, size })
+  evictLeastRecentlyUsed(entries, MAX_ENTRIES, MAX_BYTES)
+  schedulePersist()
+}
+
+export const clearCache = () => {
+  memory = new Map()
+  if (persistTimer !== null) {
+    clearTimeout(persistTimer)
+    persistTimer = null
+  }
+  if (!canUseStorage()) return
+  window.localStorage.removeItem(CACHE_STORAGE_KEY)
+}
+
+export const getCacheStats = () => {
+  const entries = load()
+  return { entries: entries.size, bytes: totalBytes(entries) }
+}
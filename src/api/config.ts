@@ -0,0 +1,80 @@
+export type TmdbOrigins = {
+  apiBaseUrl: string
+  imageBaseUrl: string
+}
+
+declare global {
+  interface Window {
+    /** Optional config injected before the bundle loads (e.g. by a proxy or an e2e harness). */
+    __NADAFLIX_CONFIG__?: Partial<TmdbOrigins>
+  }
+}
+
+export const DEFAULT_TMDB_API_BASE_URL = 'https://api.themoviedb.org/3'
+export const DEFAULT_TMDB_IMAGE_BASE_URL = 'https://image.tmdb.org/t/p'
+
+export const API_BASE_OVERRIDE_KEY = 'TMDb-Api-Base'
+export const IMAGE_BASE_OVERRIDE_KEY = 'TMDb-Image-Base'
+
+const canUseStorage = () => typeof window !== 'undefined' && !!window.localStorage
+
+const trimTrailingSlash = (value: string) => value.trim().replace(/\/+$/, '')
+
+const readOverride = (key: string) => {
+  if (!canUseStorage()) return ''
+  return window.localStorage.getItem(key) ?? ''
+}
+
+const readInjected = (field: keyof TmdbOrigins) => {
+  if (typeof window === 'undefined') return ''
+  return window.__NADAFLIX_CONFIG__?.[field] ?? ''
+}
+
+const pick = (...candidates: (string | undefined)[]) => {
+  const match = candidates.find((candidate) => !!candidate?.trim())
+  return trimTrailingSlash(match ?? '')
+}
+
+/**
+ * Origins are resolved in priority order: a LocalStorage override (handy for switching to the
+ * fake server in a running tab), `window.__NADAFLIX_CONFIG__`, the Vite env at build time, and
+ * finally the public TMDb hosts.
+ */
+export const getTmdbOrigins = (): TmdbOrigins => ({
+  apiBaseUrl: pick(
+    readOverride(API_BASE_OVERRIDE_KEY),
+    readInjected('apiBaseUrl'),
+    import.meta.env.VITE_TMDB_API_BASE_URL,
+    DEFAULT_TMDB_API_BASE_URL,
+  ),
+  imageBaseUrl: pick(
+    readOverride(IMAGE_BASE_OVERRIDE_KEY),
+    readInjected('imageBaseUrl'),
+    import.meta.env.VITE_TMDB_IMAGE_BASE_URL,
+    DEFAULT_TMDB_IMAGE_BASE_URL,
+  ),
+})
+
+export const saveTmdbOriginOverrides = (origins: Partial<TmdbOrigins>) => {
+  if (!canUseStorage()) return
+  const entries: [string, string | undefined][] = [
+    [API_BASE_OVERRIDE_KEY, origins.apiBaseUrl],
+    [IMAGE_BASE_OVERRIDE_KEY, origins.imageBaseUrl],
+  ]
+  entries.forEach(([key, value]) => {
+    if (value === undefined) return
+    if (value.trim()) {
+      window.localStorage.setItem(key, trimTrailingSlash(value))
+    } else {
+      window.localStorage.removeItem(key)
+    }
+  })
+}
+
+/** TMDb size segments: a fixed width (`w342`), a fixed height (`h632`) or the source file. */
+export type TmdbImageSize = `w${number}` | `h${number}` | 'original'
+
+export const getTmdbImageUrl = (path: string | null | undefined, size: TmdbImageSize) => {
+  if (!path) return null
+  return `${getTmdbOrigins().imageBaseUrl}/${size}${path}`
+}
@@ -0,0 +1,94 @@
+import { t } from '../i18n'
+
+export type TmdbErrorKind =
+  | 'unauthorized'
+  | 'not_found'
+  | 'rate_limited'
+  | 'network'
+  | 'aborted'
+  | 'invalid_response'
+  | 'http'
+
+/**
+ * Every failure coming out of the TMDb client is one of these classes, so pages can branch on
+ * `instanceof` (or `kind`) instead of parsing status codes and messages on their own.
+ */
+export class TmdbError extends Error {
+  readonly kind: TmdbErrorKind
+  readonly status: number | null
+
+  constructor(kind: TmdbErrorKind, message: string, status: number | null = null) {
+    super(message)
+    this.name = 'TmdbError'
+    this.kind = kind
+    this.status = status
+  }
+}
+
+export class TmdbHttpError extends TmdbError {
+  constructor(status: number, kind: TmdbErrorKind = 'http', message?: string) {
+    super(kind, message ?? t('errors.generic'), status)
+    this.name = 'TmdbHttpError'
+  }
+}
+
+export class TmdbUnauthorizedError extends TmdbHttpError {
+  constructor() {
+    super(401, 'unauthorized', t('errors.unauthorized'))
+    this.name = 'TmdbUnauthorizedError'
+  }
+}
+
+export class TmdbNotFoundError extends TmdbHttpError {
+  constructor() {
+    super(404, 'not_found', t('errors.notFound'))
+    this.name = 'TmdbNotFoundError'
+  }
+}
+
+export class TmdbRateLimitError extends TmdbHttpError {
+  /** Seconds suggested by the `Retry-After` header, when TMDb sends one. */
+  readonly retryAfter: number | null
+
+  constructor(retryAfter: number | null = null) {
+    super(429, 'rate_limited', t('errors.rateLimited'))
+    this.name = 'TmdbRateLimitError'
+    this.retryAfter = retryAfter
+  }
+}
+
+export class TmdbNetworkError extends TmdbError {
+  constructor() {
+    super('network', t('errors.network'))
+    this.name = 'TmdbNetworkError'
+  }
+}
+
+export class TmdbAbortError extends TmdbError {
+  constructor() {
+    super('aborted', t('errors.aborted'))
+    this.name = 'TmdbAbortError'
+  }
+}
+
+export class TmdbInvalidResponseError extends TmdbError {
+  constructor(status: number) {
+    super('invalid_response', t('errors.invalidResponse'), status)
+    this.name = 'TmdbInvalidResponseError'
+  }
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof TmdbAbortError ||
+  (error instanceof DOMException && (error.name === 'AbortError' || error.code === 20))
+
+/**
+ * Specific failures (bad key, missing title, rate limit, offline) keep their own message, while
+ * generic HTTP failures fall back to the caller's context-specific wording.
+ */
+export const getTmdbErrorMessage = (error: unknown, fallback: string) => {
+  if (error instanceof TmdbError) {
+    return error.kind === 'http' || error.kind === 'invalid_response' ? fallback : error.message
+  }
+  return fallback
+}
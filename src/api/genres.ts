@@ -0,0 +1,32 @@
+import type { Genre, MediaType } from './types'
+
+/**
+ * Genre names per TMDb language and media type, filled from `/genre/{type}/list` by
+ * `useGenreCatalog`. Lists and cards only carry `genre_ids`, so everything that shows a genre
+ * name reads it from here.
+ */
+const catalog = new Map<string, Genre[]>()
+const listeners = new Set<() => void>()
+
+/** Stable empty snapshot for `useSyncExternalStore` until a list has loaded. */
+const NO_GENRES: Genre[] = []
+
+const toCatalogKey = (language: string, mediaType: MediaType) => `${language}/${mediaType}`
+
+export const getGenreList = (language: string, mediaType: MediaType) =>
+  catalog.get(toCatalogKey(language, mediaType)) ?? NO_GENRES
+
+export const subscribeGenres = (listener: () => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/** Stores one language's list; subscribers re-render only when the names actually change. */
+export const applyGenreList = (language: string, mediaType: MediaType, genres: Genre[]) => {
+  const key = toCatalogKey(language, mediaType)
+  if (JSON.stringify(catalog.get(key)) === JSON.stringify(genres)) return
+  catalog.set(key, genres)
+  listeners.forEach((listener) => listener())
+}
@@ -0,0 +1,107 @@
+import { getTmdbImageUrl, type TmdbImageSize } from './config'
+import type { TmdbConfiguration } from './types'
+
+export type TmdbImageKind = 'poster' | 'backdrop' | 'profile' | 'still' | 'logo'
+
+export type TmdbImageSizes = Record<TmdbImageKind, TmdbImageSize[]>
+
+export type TmdbImageSources = {
+  src: string
+  srcSet: string | undefined
+  /** Smallest available rendition, shown blurred while the real image loads. */
+  placeholder: string | null
+}
+
+export const FALLBACK_POSTER = '/poster-fallback.svg'
+
+/** What TMDb's `/configuration` has returned for years; used until the live copy arrives. */
+export const DEFAULT_IMAGE_SIZES: TmdbImageSizes = {
+  poster: ['w92', 'w154', 'w185', 'w342', 'w500', 'w780', 'original'],
+  backdrop: ['w300', 'w780', 'w1280', 'original'],
+  profile: ['w45', 'w185', 'h632', 'original'],
+  still: ['w92', 'w185', 'w300', 'original'],
+  logo: ['w45', 'w92', 'w154', 'w185', 'w300', 'w500', 'original'],
+}
+
+/**
+ * Largest width offered per kind. `original` backdrops are often several megabytes, and nothing
+ * in the layout renders artwork wider than this even on 2x screens.
+ */
+const MAX_WIDTH: Record<TmdbImageKind, number> = {
+  poster: 780,
+  backdrop: 1280,
+  profile: 632,
+  still: 780,
+  logo: 500,
+}
+
+const SIZE_PATTERN = /^(?:w|h)\d+$|^original$/
+
+let imageSizes = DEFAULT_IMAGE_SIZES
+const listeners = new Set<() => void>()
+
+const toSizeList = (sizes: string[] | undefined, fallback: TmdbImageSize[]) => {
+  const valid = (sizes ?? []).filter((size): size is TmdbImageSize => SIZE_PATTERN.test(size))
+  return valid.length > 0 ? valid : fallback
+}
+
+export const getImageSizes = () => imageSizes
+
+export const subscribeImageSizes = (listener: () => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/** Replaces the size lists with the ones TMDb reports; subscribers re-render only on changes. */
+export const applyImageConfiguration = (configuration: TmdbConfiguration) => {
+  const images = configuration.images ?? {}
+  const next: TmdbImageSizes = {
+    poster: toSizeList(images.poster_sizes, DEFAULT_IMAGE_SIZES.poster),
+    backdrop: toSizeList(images.backdrop_sizes, DEFAULT_IMAGE_SIZES.backdrop),
+    profile: toSizeList(images.profile_sizes, DEFAULT_IMAGE_SIZES.profile),
+    still: toSizeList(images.still_sizes, DEFAULT_IMAGE_SIZES.still),
+    logo: toSizeList(images.logo_sizes, DEFAULT_IMAGE_SIZES.logo),
+  }
+
+  if (JSON.stringify(next) === JSON.stringify(imageSizes)) return
+  imageSizes = next
+  listeners.forEach((listener) => listener())
+}
+
+const widthOf = (size: TmdbImageSize) => {
+  const match = /^w(\d+)$/.exec(size)
+  return match ? Number(match[1]) : null
+}
+
+/**
+ * Builds `src`/`srcSet` for a TMDb image path from the width-based sizes of one kind, capped at
+ * `MAX_WIDTH`. Height-based sizes (`h632`) can't be described with `w` descriptors and are skipped.
+ */
+export const buildImageSources = (
+  path: string | null | undefined,
+  kind: TmdbImageKind,
+  sizes: TmdbImageSizes = imageSizes,
+): TmdbImageSources | null => {
+  if (!path) return null
+
+  const widths = sizes[kind]
+    .map((size) => ({ size, width: widthOf(size) }))
+    .filter((entry): entry is { size: TmdbImageSize; width: number } => entry.width !== null)
+    .sort((a, b) => a.width - b.width)
+  const usable = widths.filter((entry) => entry.width <= MAX_WIDTH[kind])
+
+  if (usable.length === 0) {
+    const src = getTmdbImageUrl(path, sizes[kind][0] ?? 'original')
+    return src ? { src, srcSet: undefined, placeholder: null } : null
+  }
+
+  const largest = usable[usable.length - 1]
+  const smallest = usable[0]
+  return {
+    src: getTmdbImageUrl(path, largest.size) ?? '',
+    srcSet: usable.map(({ size, width }) => `${getTmdbImageUrl(path, size)} ${width}w`).join(', '),
+    placeholder: usable.length > 1 ? getTmdbImageUrl(path, smallest.size) : null,
+  }
+}
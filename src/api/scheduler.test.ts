@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// The queue and the rate-limit pause are module state, so every test loads a fresh copy.
+const loadScheduler = async () => {
+  vi.resetModules()
+  const scheduler = await import('./scheduler')
+  const errors = await import('./errors')
+  return { ...scheduler, ...errors }
+}
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void
+  let reject!: (error: unknown) => void
+  const promise = new Promise<T>((done, fail) => {
+    resolve = done
+    reject = fail
+  })
+  return { promise, resolve, reject }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.spyOn(Math, 'random').mockReturnValue(0)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+describe('scheduleRequest', () => {
+  it('caps concurrent requests and starts queued ones as slots free', async () => {
+    const { scheduleRequest, MAX_CONCURRENT_REQUESTS } = await loadScheduler()
+    const pending = Array.from({ length: MAX_CONCURRENT_REQUESTS + 2 }, () => deferred<number>())
+    const started: number[] = []
+
+    const results = pending.map((entry, index) =>
+      scheduleRequest(`key-${index}`, () => {
+        started.push(index)
+        return entry.promise
+      }),
+    )
+    await vi.advanceTimersByTimeAsync(0)
+    expect(started).toEqual([0, 1, 2, 3])
+
+    pending[0].resolve(0)
+    await vi.advanceTimersByTimeAsync(0)
+    expect(started).toEqual([0, 1, 2, 3, 4])
+
+    pending.forEach((entry, index) => entry.resolve(index))
+    await expect(Promise.all(results)).resolves.toEqual([0, 1, 2, 3, 4, 5])
+  })
+
+  it('shares one request between callers of the same key', async () => {
+    const { scheduleRequest } = await loadScheduler()
+    const request = vi.fn(async () => 'value')
+
+    const results = await Promise.all([
+      scheduleRequest('same', request),
+      scheduleRequest('same', request),
+    ])
+    expect(results).toEqual(['value', 'value'])
+    expect(request).toHaveBeenCalledTimes(1)
+  })
+
+  it('waits for Retry-After before retrying a 429 and reports the retry', async () => {
+    const { scheduleRequest, TmdbRateLimitError } = await loadScheduler()
+    const request = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new TmdbRateLimitError(2))
+      .mockResolvedValue('ok')
+    const onRetry = vi.fn()
+
+    const result = scheduleRequest('rate', request, { onRetry })
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(request).toHaveBeenCalledTimes(1)
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, delay: 2000 }))
+
+    await vi.advanceTimersByTimeAsync(1)
+    await expect(result).resolves.toBe('ok')
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+
+  it('holds requests already queued for a slot when a 429 pauses the queue', async () => {
+    const { scheduleRequest, TmdbRateLimitError, MAX_CONCURRENT_REQUESTS } = await loadScheduler()
+    const limited = deferred<string>()
+    for (let index = 1; index < MAX_CONCURRENT_REQUESTS; index += 1) {
+      void scheduleRequest(`busy-${index}`, () => new Promise<string>(() => undefined))
+    }
+    const retried = vi
+      .fn<() => Promise<string>>()
+      .mockImplementationOnce(() => limited.promise)
+      .mockResolvedValue('ok')
+    void scheduleRequest('limited', retried)
+    const queued = vi.fn(async () => 'queued')
+    const queuedResult = scheduleRequest('queued', queued)
+    await vi.advanceTimersByTimeAsync(0)
+    expect(queued).not.toHaveBeenCalled()
+
+    // The 429 frees a slot for the queued request, which still has to wait out Retry-After.
+    limited.reject(new TmdbRateLimitError(2))
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(queued).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(1)
+    await expect(queuedResult).resolves.toBe('queued')
+  })
+
+  it('backs off exponentially on server errors and gives up after MAX_RETRIES', async () => {
+    const { scheduleRequest, TmdbHttpError, MAX_RETRIES } = await loadScheduler()
+    const request = vi.fn(async () => {
+      throw new TmdbHttpError(503)
+    })
+    const onRetry = vi.fn()
+
+    const result = scheduleRequest('flaky', request, { onRetry })
+    const rejection = expect(result).rejects.toBeInstanceOf(TmdbHttpError)
+    await vi.runAllTimersAsync()
+    await rejection
+
+    expect(request).toHaveBeenCalledTimes(MAX_RETRIES + 1)
+    expect(onRetry.mock.calls.map(([info]) => info.delay)).toEqual([500, 1000, 2000])
+  })
+
+  it('does not retry errors that will not change, such as a 404', async () => {
+    const { scheduleRequest, TmdbNotFoundError } = await loadScheduler()
+    const request = vi.fn(async () => {
+      throw new TmdbNotFoundError()
+    })
+
+    await expect(scheduleRequest('missing', request)).rejects.toBeInstanceOf(TmdbNotFoundError)
+    expect(request).toHaveBeenCalledTimes(1)
+  })
+
+  it('aborts the shared request only once every caller has aborted', async () => {
+    const { scheduleRequest, TmdbAbortError } = await loadScheduler()
+    let requestSignal: AbortSignal | undefined
+    const request = (signal: AbortSignal) => {
+      requestSignal = signal
+      return new Promise<string>(() => undefined)
+    }
+    const first = new AbortController()
+    const second = new AbortController()
+
+    const firstResult = scheduleRequest('shared', request, { signal: first.signal })
+    const secondResult = scheduleRequest('shared', request, { signal: second.signal })
+    await vi.advanceTimersByTimeAsync(0)
+
+    first.abort()
+    await expect(firstResult).rejects.toBeInstanceOf(TmdbAbortError)
+    expect(requestSignal?.aborted).toBe(false)
+
+    second.abort()
+    await expect(secondResult).rejects.toBeInstanceOf(TmdbAbortError)
+    expect(requestSignal?.aborted).toBe(true)
+  })
+})
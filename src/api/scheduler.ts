@@ -0,0 +1,217 @@
+import { TmdbAbortError, TmdbError, TmdbRateLimitError } from './errors'
+
+export type RetryInfo = {
+  /** 1-based number of the retry that is about to happen. */
+  attempt: number
+  /** Milliseconds until the retry is sent. */
+  delay: number
+  error: TmdbError
+}
+
+export type ScheduleOptions = {
+  signal?: AbortSignal
+  onRetry?: (info: RetryInfo) => void
+}
+
+type SharedRequest = {
+  promise: Promise<unknown>
+  controller: AbortController
+  listeners: Set<(info: RetryInfo) => void>
+  subscribers: number
+}
+
+export const MAX_CONCURRENT_REQUESTS = 4
+export const MAX_RETRIES = 3
+const BASE_BACKOFF_MS = 500
+const MAX_BACKOFF_MS = 8000
+const MAX_RETRY_AFTER_MS = 30_000
+
+let activeCount = 0
+let pausedUntil = 0
+const waiting: (() => void)[] = []
+const inFlight = new Map<string, SharedRequest>()
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new TmdbAbortError())
+      return
+    }
+    const timeout = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timeout)
+      reject(new TmdbAbortError())
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
+
+const acquireSlot = (signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new TmdbAbortError())
+      return
+    }
+    if (activeCount < MAX_CONCURRENT_REQUESTS) {
+      activeCount += 1
+      resolve()
+      return
+    }
+
+    const start = () => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }
+    const onAbort = () => {
+      const index = waiting.indexOf(start)
+      if (index >= 0) waiting.splice(index, 1)
+      reject(new TmdbAbortError())
+    }
+    waiting.push(start)
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
+
+const releaseSlot = () => {
+  const next = waiting.shift()
+  if (next) {
+    next()
+  } else {
+    activeCount -= 1
+  }
+}
+
+/**
+ * Takes a slot once no rate-limit pause is running. A 429 can arrive while a request is queued, so
+ * the pause is checked again after the slot is granted and the slot handed back if one started.
+ */
+const acquireUnpausedSlot = async (signal: AbortSignal) => {
+  for (;;) {
+    const pause = pausedUntil - Date.now()
+    if (pause > 0) {
+      await wait(pause, signal)
+    }
+
+    await acquireSlot(signal)
+    if (pausedUntil <= Date.now()) return
+    releaseSlot()
+  }
+}
+
+const isRetryable = (error: TmdbError) =>
+  error.kind === 'rate_limited' ||
+  error.kind === 'network' ||
+  (error.kind === 'http' && (error.status ?? 0) >= 500)
+
+const getRetryDelay = (error: TmdbError, attempt: number) => {
+  if (error instanceof TmdbRateLimitError && error.retryAfter !== null) {
+    return error.retryAfter * 1000
+  }
+  const backoff = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS)
+  return backoff + Math.round(Math.random() * BASE_BACKOFF_MS * 0.5)
+}
+
+const runWithRetry = async <T>(
+  request: (signal: AbortSignal) => Promise<T>,
+  signal: AbortSignal,
+  notify: (info: RetryInfo) => void,
+): Promise<T> => {
+  for (let attempt = 0; ; attempt += 1) {
+    await acquireUnpausedSlot(signal)
+    let failure: unknown
+    try {
+      return await request(signal)
+    } catch (error) {
+      failure = error
+    } finally {
+      releaseSlot()
+    }
+
+    if (!(failure instanceof TmdbError) || attempt >= MAX_RETRIES || !isRetryable(failure)) {
+      throw failure
+    }
+
+    const delay = getRetryDelay(failure, attempt)
+    if (delay > MAX_RETRY_AFTER_MS) {
+      throw failure
+    }
+    if (failure instanceof TmdbRateLimitError) {
+      // A 429 applies to the whole key, so hold every queued request until TMDb allows more.
+      pausedUntil = Math.max(pausedUntil, Date.now() + delay)
+    }
+
+    notify({ attempt: attempt + 1, delay, error: failure })
+    await wait(delay, signal)
+  }
+}
+
+/**
+ * Runs `request` through the shared TMDb queue: at most `MAX_CONCURRENT_REQUESTS` run at once,
+ * identical keys share one in-flight request, 429s honour `Retry-After`, and 5xx/network
+ * failures back off exponentially. Aborting one caller only cancels the underlying request once
+ * every caller sharing it has aborted.
+ */
+export const scheduleRequest = <T>(
+  key: string,
+  request: (signal: AbortSignal) => Promise<T>,
+  { signal, onRetry }: ScheduleOptions = {},
+): Promise<T> => {
+  if (signal?.aborted) {
+    return Promise.reject(new TmdbAbortError())
+  }
+
+  let shared = inFlight.get(key)
+  if (!shared) {
+    const controller = new AbortController()
+    const listeners = new Set<(info: RetryInfo) => void>()
+    const promise = runWithRetry(request, controller.signal, (info) => {
+      listeners.forEach((listener) => listener(info))
+    }).finally(() => {
+      if (inFlight.get(key)?.promise === promise) {
+        inFlight.delete(key)
+      }
+    })
+    // Subscribers attach their own handlers; this keeps an all-aborted request from surfacing
+    // as an unhandled rejection.
+    promise.catch(() => undefined)
+    shared = { promise, controller, listeners, subscribers: 0 }
+    inFlight.set(key, shared)
+  }
+
+  const current = shared
+  current.subscribers += 1
+  if (onRetry) current.listeners.add(onRetry)
+
+  return new Promise<T>((resolve, reject) => {
+    let settled = false
+
+    const detach = () => {
+      if (settled) return false
+      settled = true
+      signal?.removeEventListener('abort', onAbort)
+      if (onRetry) current.listeners.delete(onRetry)
+      current.subscribers -= 1
+      return true
+    }
+
+    const onAbort = () => {
+      if (!detach()) return
+      if (current.subscribers === 0) {
+        current.controller.abort()
+        if (inFlight.get(key) === current) inFlight.delete(key)
+      }
+      reject(new TmdbAbortError())
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+    current.promise.then(
+      (value) => {
+        if (detach()) resolve(value as T)
+      },
+      (error: unknown) => {
+        if (detach()) reject(error)
+      },
+    )
+  })
+}
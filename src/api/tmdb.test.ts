@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { parseRetryAfter } from './tmdb'
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('parseRetryAfter', () => {
+  it('reads delay-seconds', () => {
+    expect(parseRetryAfter('3')).toBe(3)
+    expect(parseRetryAfter('0')).toBe(0)
+  })
+
+  it('reads an HTTP date as the seconds left until it', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-05-01T12:00:00Z'))
+    expect(parseRetryAfter('Wed, 01 May 2024 12:00:05 GMT')).toBe(5)
+  })
+
+  it('never returns a negative wait', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-05-01T12:00:00Z'))
+    expect(parseRetryAfter('-4')).toBe(0)
+    expect(parseRetryAfter('Wed, 01 May 2024 11:59:00 GMT')).toBe(0)
+  })
+
+  it('ignores a missing or unreadable header', () => {
+    expect(parseRetryAfter(null)).toBeNull()
+    expect(parseRetryAfter('')).toBeNull()
+    expect(parseRetryAfter('soon')).toBeNull()
+  })
+})
@@ -0,0 +1,764 @@
+import { t } from '../i18n'
+import { MINUTE, readCacheEntry, writeCacheEntry } from './cache'
+import { getTmdbOrigins } from './config'
+import { scheduleRequest, type RetryInfo } from './scheduler'
+import {
+  TmdbAbortError,
+  TmdbHttpError,
+  TmdbInvalidResponseError,
+  TmdbNetworkError,
+  TmdbNotFoundError,
+  TmdbRateLimitError,
+  TmdbUnauthorizedError,
+} from './errors'
+import type {
+  Certification,
+  CertificationListResponse,
+  CollectionDetail,
+  CrewMember,
+  DiscoverMovieParams,
+  DiscoverTvParams,
+  Genre,
+  GenreListResponse,
+  Keyword,
+  MediaType,
+  Movie,
+  MovieAppend,
+  MovieDetail,
+  MovieListCategory,
+  MovieListParams,
+  MultiSearchResult,
+  PageParams,
+  PagedResponse,
+  RegionalRelease,
+  RegionalWatchProviders,
+  Review,
+  ReviewsPage,
+  ReleaseDatesResponse,
+  ReleaseType,
+  SearchKeywordParams,
+  SearchMovieParams,
+  SearchMultiParams,
+  SearchPersonParams,
+  SearchTvParams,
+  SeasonDetail,
+  TmdbConfiguration,
+  TrendingWindow,
+  KeyCrew,
+  KeyCrewRole,
+  MovieCredits,
+  PersonDetail,
+  PersonSummary,
+  PersonMovieCredits,
+  TvDetail,
+  TvListCategory,
+  Video,
+  VideosResponse,
+  WatchProvider,
+  WatchProviderCatalog,
+  WatchProviderGroup,
+  WatchProvidersResponse,
+} from './types'
+
+export type QueryValue = string | number | boolean | null | undefined
+export type QueryParams = Record<string, QueryValue>
+
+export type TmdbClientOptions = {
+  apiKey: string
+  language?: string
+  baseUrl?: string
+}
+
+export type CacheMeta = {
+  stale: boolean
+}
+
+export type CallOptions<T = unknown> = {
+  signal?: AbortSignal
+  /** Bypass the cache lookup and always hit the network; the response is still cached. */
+  reload?: boolean
+  /**
+   * Receives a cached copy (fresh or stale) synchronously, before any network request. Fresh
+   * hits resolve without a request; stale ones are revalidated and resolve with new data.
+   */
+  onCached?: (value: T, meta: CacheMeta) => void
+  /** Called before each automatic retry (rate limit, 5xx or network failure). */
+  onRetry?: (info: RetryInfo) => void
+}
+
+export type RequestOptions<T = unknown> = CallOptions<T> & {
+  params?: QueryParams
+  /** Cache the response for this many milliseconds; omitted means no caching. */
+  ttl?: number
+}
+
+export const CACHE_TTL = {
+  list: 10 * MINUTE,
+  search: 5 * MINUTE,
+  detail: 60 * MINUTE,
+  configuration: 24 * 60 * MINUTE,
+} as const
+
+export const DEFAULT_LANGUAGE = 'ko-KR'
+
+/** v4 read access tokens are JWTs, so they always start with the base64 of `{"`. */
+export const isV4Token = (key: string) => key.trim().startsWith('eyJ')
+
+/** Seconds to wait from a `Retry-After` header, given either as seconds or as an HTTP date. */
+export const parseRetryAfter = (value: string | null) => {
+  if (!value) return null
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds)
+  const date = Date.parse(value)
+  if (Number.isNaN(date)) return null
+  return Math.max(0, Math.round((date - Date.now()) / 1000))
+}
+
+const toHttpError = (response: Response) => {
+  switch (response.status) {
+    case 401:
+      return new TmdbUnauthorizedError()
+    case 404:
+      return new TmdbNotFoundError()
+    case 429:
+      return new TmdbRateLimitError(parseRetryAfter(response.headers.get('Retry-After')))
+    default:
+      return new TmdbHttpError(response.status)
+  }
+}
+
+const fetchJson = async <T>(url: URL, headers: HeadersInit, signal: AbortSignal) => {
+  let response: Response
+  try {
+    response = await fetch(url.toString(), { headers, signal })
+  } catch {
+    throw signal.aborted ? new TmdbAbortError() : new TmdbNetworkError()
+  }
+
+  if (!response.ok) {
+    throw toHttpError(response)
+  }
+
+  try {
+    return (await response.json()) as T
+  } catch {
+    if (signal.aborted) throw new TmdbAbortError()
+    throw new TmdbInvalidResponseError(response.status)
+  }
+}
+
+export const normalizeMovie = <T extends { title?: string; name?: string }>(movie: T) => ({
+  ...movie,
+  title: movie.title || movie.name || t('common.untitled'),
+})
+
+/** `/tv/popular`, `/search/tv` and `/discover/tv` all return series; everything else is movies. */
+export const mediaTypeOfPath = (path: string): MediaType => (/\/tv(\/|$)/.test(path) ? 'tv' : 'movie')
+
+const normalizeListItem = (item: Movie, mediaType: MediaType): Movie => ({
+  ...normalizeMovie(item),
+  media_type: item.media_type ?? mediaType,
+  release_date: item.release_date ?? item.first_air_date,
+})
+
+type RawPage = Partial<PagedResponse<Movie>>
+export type MoviePage = ReturnType<typeof normalizePage>
+
+const normalizePage = (payload: RawPage, requestedPage = 1, mediaType: MediaType = 'movie') => {
+  const results = (payload.results ?? []).map((item) => normalizeListItem(item, mediaType))
+  return {
+    page: payload.page ?? requestedPage,
+    results,
+    total_pages: payload.total_pages ?? (results.length > 0 ? requestedPage : 0),
+    total_results: payload.total_results ?? results.length,
+  } satisfies PagedResponse<Movie>
+}
+
+export type PersonPage = ReturnType<typeof normalizePersonPage>
+
+/** `known_for` entries are list items of either media type, so they get the usual normalization. */
+const normalizePersonPage = (payload: Partial<PagedResponse<PersonSummary>>, requestedPage = 1) => {
+  const results = (payload.results ?? []).map((person) => ({
+    ...person,
+    known_for: (person.known_for ?? []).map((item) => normalizeListItem(item, 'movie')),
+  }))
+  return {
+    page: payload.page ?? requestedPage,
+    results,
+    total_pages: payload.total_pages ?? (results.length > 0 ? requestedPage : 0),
+    total_results: payload.total_results ?? results.length,
+  } satisfies PagedResponse<PersonSummary>
+}
+
+export type MultiSearchPage = ReturnType<typeof normalizeMultiPage>
+
+/**
+ * Splits a `/search/multi` page into titles, normalized like any list, and people. It stays a
+ * `MoviePage`, so paging and the title filters work on it unchanged.
+ */
+const normalizeMultiPage = (
+  payload: Partial<PagedResponse<MultiSearchResult>>,
+  requestedPage = 1,
+) => {
+  const items = payload.results ?? []
+  const titles = items.filter((item) => item.media_type !== 'person')
+  const people = items.filter((item) => item.media_type === 'person')
+  return {
+    ...normalizePage({ ...payload, results: titles }, requestedPage),
+    people: normalizePersonPage({ results: people }).results,
+  }
+}
+
+/** Appended lists arrive as raw pages inside the detail payload and are normalized like any list. */
+const normalizeMovieDetail = (movie: MovieDetail): MovieDetail => ({
+  ...normalizeMovie(movie),
+  recommendations: movie.recommendations && normalizePage(movie.recommendations),
+  similar: movie.similar && normalizePage(movie.similar),
+})
+
+/**
+ * Franchise parts in release order. Announced films without a date yet come last, in the order
+ * TMDb listed them.
+ */
+export const orderCollectionParts = (parts: Movie[]) => {
+  const releaseTime = (movie: Movie) => {
+    const timestamp = movie.release_date ? Date.parse(movie.release_date) : Number.NaN
+    return Number.isNaN(timestamp) ? Infinity : timestamp
+  }
+  return parts
+    .map((movie, index) => ({ movie, index, time: releaseTime(movie) }))
+    .sort((a, b) => (a.time === b.time ? a.index - b.index : a.time - b.time))
+    .map(({ movie }) => movie)
+}
+
+const normalizeCollection = (collection: CollectionDetail): CollectionDetail => ({
+  ...collection,
+  parts: orderCollectionParts(
+    (collection.parts ?? []).map((part) => normalizeListItem(part, 'movie')),
+  ),
+})
+
+/** Theatrical dates are what "release date" means to most viewers; home releases come last. */
+const RELEASE_TYPE_PRIORITY: ReleaseType[] = [3, 2, 1, 4, 5, 6]
+
+/**
+ * Reduces `/movie/{id}/release_dates` to one country's release: the earliest date of the most
+ * relevant release type, plus the first rating the country assigned. Returns null when TMDb has
+ * no entry for that country.
+ */
+export const pickRegionalRelease = (
+  payload: ReleaseDatesResponse,
+  region: string,
+): RegionalRelease | null => {
+  const entry = payload.results?.find((result) => result.iso_3166_1 === region)
+  if (!entry || entry.release_dates.length === 0) return null
+
+  const ranked = entry.release_dates
+    .slice()
+    .sort(
+      (a, b) =>
+        RELEASE_TYPE_PRIORITY.indexOf(a.type) - RELEASE_TYPE_PRIORITY.indexOf(b.type) ||
+        Date.parse(a.release_date) - Date.parse(b.release_date),
+    )
+
+  return {
+    region,
+    // TMDb sends full timestamps here; keep the calendar date like `release_date` elsewhere.
+    releaseDate: ranked[0]?.release_date?.slice(0, 10) || null,
+    certification: ranked.find((release) => release.certification.trim())?.certification.trim() ?? null,
+  }
+}
+
+/** TMDb job titles that count as each key crew role, most specific first. */
+const KEY_CREW_JOBS: Record<KeyCrewRole, string[]> = {
+  director: ['Director'],
+  writer: ['Screenplay', 'Writer', 'Story', 'Novel'],
+  composer: ['Original Music Composer', 'Music'],
+}
+
+/**
+ * Picks the director, writers and composer out of a full crew list. A person credited with
+ * several matching jobs (director and screenplay, say) is listed once per role; roles with no
+ * one credited are left out.
+ */
+export const pickKeyCrew = (crew: CrewMember[]): KeyCrew[] =>
+  (Object.keys(KEY_CREW_JOBS) as KeyCrewRole[])
+    .map((role) => {
+      const jobs = KEY_CREW_JOBS[role]
+      const people = crew
+        .filter((member) => jobs.includes(member.job))
+        .sort((a, b) => jobs.indexOf(a.job) - jobs.indexOf(b.job))
+        .filter((member, index, list) => list.findIndex((other) => other.id === member.id) === index)
+      return { role, people }
+    })
+    .filter((entry) => entry.people.length > 0)
+
+const WATCH_PROVIDER_GROUPS: WatchProviderGroup[] = ['flatrate', 'free', 'ads', 'rent', 'buy']
+
+const byDisplayPriority = (a: WatchProvider, b: WatchProvider) =>
+  (a.display_priority ?? Infinity) - (b.display_priority ?? Infinity)
+
+/**
+ * One country's entry from `/movie/{id}/watch/providers`, each group ordered the way TMDb
+ * suggests displaying it. Returns null when the title isn't offered anywhere in that country.
+ */
+export const pickRegionalProviders = (
+  payload: WatchProvidersResponse,
+  region: string,
+): RegionalWatchProviders | null => {
+  const entry = payload.results?.[region]
+  if (!entry) return null
+
+  const sorted: RegionalWatchProviders = { link: entry.link }
+  WATCH_PROVIDER_GROUPS.forEach((group) => {
+    const providers = entry[group]
+    if (providers?.length) sorted[group] = providers.slice().sort(byDisplayPriority)
+  })
+  return WATCH_PROVIDER_GROUPS.some((group) => sorted[group]) ? sorted : null
+}
+
+/** Video types in the order they are offered; anything unlisted sorts after these. */
+const VIDEO_TYPE_PRIORITY = ['Trailer', 'Teaser', 'Clip', 'Featurette', 'Behind the Scenes', 'Bloopers']
+
+const TRAILER_TYPES = ['Trailer', 'Teaser']
+
+const videoTypeRank = (type: string) => {
+  const index = VIDEO_TYPE_PRIORITY.indexOf(type)
+  return index === -1 ? VIDEO_TYPE_PRIORITY.length : index
+}
+
+/**
+ * Orders playable (YouTube) videos for display: trailers before teasers before clips, official
+ * uploads before fan or partner uploads, newest first within the same group.
+ */
+export const rankVideos = (videos: Video[]) =>
+  videos
+    .filter((video) => video.site === 'YouTube' && video.key)
+    .sort(
+      (a, b) =>
+        videoTypeRank(a.type) - videoTypeRank(b.type) ||
+        Number(b.official ?? false) - Number(a.official ?? false) ||
+        Date.parse(b.published_at ?? '') - Date.parse(a.published_at ?? '') ||
+        0,
+    )
+
+/** The video to open for "watch trailer": the best-ranked trailer or teaser, if any. */
+export const pickTrailer = (videos: Video[]) =>
+  rankVideos(videos).find((video) => TRAILER_TYPES.includes(video.type)) ?? null
+
+/**
+ * Single entry point for TMDb access. Authentication (v3 query key or v4 bearer token), the
+ * response language and the base URL are resolved here once, and every endpoint below maps
+ * HTTP failures onto the error classes in `./errors`. The base URL defaults to the configured
+ * origin (see `./config`), so a proxy or the local fake server can stand in for TMDb.
+ *
+ * Responses are cached per URL (language included, key excluded) in the persistent store from
+ * `./cache`; callers opt into stale-while-revalidate rendering through `onCached`. Network
+ * access goes through the shared queue in `./scheduler` (concurrency cap, dedup, retries).
+ */
+export const createTmdbClient = ({
+  apiKey: rawKey,
+  language = DEFAULT_LANGUAGE,
+  baseUrl = getTmdbOrigins().apiBaseUrl,
+}: TmdbClientOptions) => {
+  const apiKey = rawKey.trim()
+  const useBearer = isV4Token(apiKey)
+
+  const buildUrl = (path: string, params: QueryParams = {}) => {
+    const url = new URL(`${baseUrl}${path}`)
+    url.searchParams.set('language', language)
+
+    Object.entries(params).forEach(([name, value]) => {
+      if (value === undefined || value === null || value === '') return
+      url.searchParams.set(name, String(value))
+    })
+
+    if (!useBearer) {
+      url.searchParams.set('api_key', apiKey)
+    }
+
+    return url
+  }
+
+  const toCacheKey = (url: URL) => {
+    const keyed = new URL(url)
+    keyed.searchParams.delete('api_key')
+    keyed.searchParams.sort()
+    return keyed.toString()
+  }
+
+  const get = async <T>(
+    path: string,
+    { params, signal, ttl, reload = false, onCached, onRetry }: RequestOptions<T> = {},
+  ): Promise<T> => {
+    const url = buildUrl(path, params)
+    const cacheKey = ttl ? toCacheKey(url) : null
+
+    if (cacheKey && !reload) {
+      const cached = readCacheEntry<T>(cacheKey)
+      if (cached) {
+        onCached?.(cached.value, { stale: cached.stale })
+        if (!cached.stale) return cached.value
+      }
+    }
+
+    const headers: HeadersInit = {
+      Accept: 'application/json',
+    }
+
+    if (useBearer) {
+      headers.Authorization = `Bearer ${apiKey}`
+    }
+
+    // v3 keys are already part of the URL; bearer tokens are added so users never share requests.
+    const requestKey = useBearer ? `${url.toString()}#${apiKey}` : url.toString()
+    const payload = await scheduleRequest(
+      requestKey,
+      (requestSignal) => fetchJson<T>(url, headers, requestSignal),
+      { signal, onRetry },
+    )
+
+    if (cacheKey && ttl) {
+      writeCacheEntry(cacheKey, payload, ttl)
+    }
+    return payload
+  }
+
+  const getPage = async (
+    path: string,
+    { onCached, ...options }: RequestOptions<MoviePage> = {},
+    requestedPage?: number,
+  ) => {
+    const mediaType = mediaTypeOfPath(path)
+    return normalizePage(
+      await get<RawPage>(path, {
+        ttl: CACHE_TTL.list,
+        ...options,
+        onCached:
+          onCached && ((raw, meta) => onCached(normalizePage(raw, requestedPage, mediaType), meta)),
+      }),
+      requestedPage,
+      mediaType,
+    )
+  }
+
+  /** Synchronous cache read for first renders; returns stale entries too. */
+  const peekPage = (path: string, params?: QueryParams) => {
+    const cached = readCacheEntry<RawPage>(toCacheKey(buildUrl(path, params)))
+    return cached
+      ? { ...cached, value: normalizePage(cached.value, 1, mediaTypeOfPath(path)) }
+      : null
+  }
+
+  const getMovieList = (
+    category: MovieListCategory,
+    params: MovieListParams = {},
+    options: CallOptions<MoviePage> = {},
+  ) => getPage(`/movie/${category}`, { ...options, params }, params.page)
+
+  const getTrendingMovies = (
+    timeWindow: TrendingWindow,
+    params: PageParams = {},
+    options: CallOptions<MoviePage> = {},
+  ) => getPage(`/trending/movie/${timeWindow}`, { ...options, params }, params.page)
+
+  const searchMovies = (params: SearchMovieParams, options: CallOptions<MoviePage> = {}) =>
+    getPage(
+      '/search/movie',
+      { ttl: CACHE_TTL.search, ...options, params: { include_adult: false, ...params } },
+      params.page,
+    )
+
+  const discoverMovies = (params: DiscoverMovieParams = {}, options: CallOptions<MoviePage> = {}) =>
+    getPage(
+      '/discover/movie',
+      { ...options, params: { include_adult: false, ...params } },
+      params.page,
+    )
+
+  const searchPeople = async (
+    params: SearchPersonParams,
+    { onCached, ...options }: CallOptions<PersonPage> = {},
+  ) =>
+    normalizePersonPage(
+      await get<Partial<PagedResponse<PersonSummary>>>('/search/person', {
+        ttl: CACHE_TTL.search,
+        ...options,
+        params: { include_adult: false, ...params },
+        onCached:
+          onCached && ((raw, meta) => onCached(normalizePersonPage(raw, params.page), meta)),
+      }),
+      params.page,
+    )
+
+  const searchMulti = async (
+    params: SearchMultiParams,
+    { onCached, ...options }: CallOptions<MultiSearchPage> = {},
+  ) =>
+    normalizeMultiPage(
+      await get<Partial<PagedResponse<MultiSearchResult>>>('/search/multi', {
+        ttl: CACHE_TTL.search,
+        ...options,
+        params: { include_adult: false, ...params },
+        onCached:
+          onCached && ((raw, meta) => onCached(normalizeMultiPage(raw, params.page), meta)),
+      }),
+      params.page,
+    )
+
+  /** Keyword tags matching `query`; their ids feed Discover's `with_keywords`. */
+  const searchKeywords = (
+    params: SearchKeywordParams,
+    options: CallOptions<PagedResponse<Keyword>> = {},
+  ) =>
+    get<PagedResponse<Keyword>>('/search/keyword', { ttl: CACHE_TTL.search, ...options, params })
+
+  const getMovieDetails = async (
+    id: number | string,
+    { onCached, append = [], ...options }: CallOptions<MovieDetail> & { append?: MovieAppend[] } = {},
+  ) =>
+    normalizeMovieDetail(
+      await get<MovieDetail>(`/movie/${encodeURIComponent(String(id))}`, {
+        ttl: CACHE_TTL.detail,
+        ...options,
+        params: { append_to_response: append.join(',') },
+        onCached: onCached && ((raw, meta) => onCached(normalizeMovieDetail(raw), meta)),
+      }),
+    )
+
+  const getTvList = (
+    category: TvListCategory,
+    params: PageParams = {},
+    options: CallOptions<MoviePage> = {},
+  ) => getPage(`/tv/${category}`, { ...options, params }, params.page)
+
+  const searchTv = (params: SearchTvParams, options: CallOptions<MoviePage> = {}) =>
+    getPage(
+      '/search/tv',
+      { ttl: CACHE_TTL.search, ...options, params: { include_adult: false, ...params } },
+      params.page,
+    )
+
+  const discoverTv = (params: DiscoverTvParams = {}, options: CallOptions<MoviePage> = {}) =>
+    getPage('/discover/tv', { ...options, params: { include_adult: false, ...params } }, params.page)
+
+  const getTvDetails = async (
+    id: number | string,
+    { onCached, ...options }: CallOptions<TvDetail> = {},
+  ) =>
+    normalizeMovie(
+      await get<TvDetail>(`/tv/${encodeURIComponent(String(id))}`, {
+        ttl: CACHE_TTL.detail,
+        ...options,
+        onCached: onCached && ((raw, meta) => onCached(normalizeMovie(raw), meta)),
+      }),
+    )
+
+  const getTvSeason = (
+    id: number | string,
+    seasonNumber: number,
+    options: CallOptions<SeasonDetail> = {},
+  ) =>
+    get<SeasonDetail>(`/tv/${encodeURIComponent(String(id))}/season/${seasonNumber}`, {
+      ttl: CACHE_TTL.detail,
+      ...options,
+    })
+
+  const getMovieCredits = (id: number | string, options: CallOptions<MovieCredits> = {}) =>
+    get<MovieCredits>(`/movie/${encodeURIComponent(String(id))}/credits`, {
+      ttl: CACHE_TTL.detail,
+      ...options,
+    })
+
+  const getPerson = (id: number | string, options: CallOptions<PersonDetail> = {}) =>
+    get<PersonDetail>(`/person/${encodeURIComponent(String(id))}`, {
+      ttl: CACHE_TTL.detail,
+      ...options,
+    })
+
+  const getCollection = async (
+    id: number | string,
+    { onCached, ...options }: CallOptions<CollectionDetail> = {},
+  ) =>
+    normalizeCollection(
+      await get<CollectionDetail>(`/collection/${encodeURIComponent(String(id))}`, {
+        ttl: CACHE_TTL.detail,
+        ...options,
+        onCached: onCached && ((raw, meta) => onCached(normalizeCollection(raw), meta)),
+      }),
+    )
+
+  const normalizePersonCredits = (payload: PersonMovieCredits): PersonMovieCredits => ({
+    ...payload,
+    cast: (payload.cast ?? []).map((credit) => ({
+      ...credit,
+      ...normalizeListItem(credit, 'movie'),
+    })),
+    crew: (payload.crew ?? []).map((credit) => ({
+      ...credit,
+      ...normalizeListItem(credit, 'movie'),
+    })),
+  })
+
+  const getPersonMovieCredits = async (
+    id: number | string,
+    { onCached, ...options }: CallOptions<PersonMovieCredits> = {},
+  ) =>
+    normalizePersonCredits(
+      await get<PersonMovieCredits>(`/person/${encodeURIComponent(String(id))}/movie_credits`, {
+        ttl: CACHE_TTL.detail,
+        ...options,
+        onCached: onCached && ((raw, meta) => onCached(normalizePersonCredits(raw), meta)),
+      }),
+    )
+
+  /**
+   * Videos in the UI language, topped up with the English list when the localized one has no
+   * trailer (TMDb rarely has dubbed or subtitled trailers outside the big markets).
+   */
+  const getVideos = async (
+    mediaType: MediaType,
+    id: number | string,
+    options: Omit<CallOptions<VideosResponse>, 'onCached'> = {},
+  ) => {
+    const path = `/${mediaType}/${encodeURIComponent(String(id))}/videos`
+    const localized = await get<VideosResponse>(path, { ttl: CACHE_TTL.detail, ...options })
+    if (language.startsWith('en') || pickTrailer(localized.results ?? [])) return localized
+
+    const english = await get<VideosResponse>(path, {
+      ttl: CACHE_TTL.detail,
+      ...options,
+      params: { language: 'en-US' },
+    })
+    const seen = new Set((localized.results ?? []).map((video) => video.id))
+    return {
+      ...localized,
+      results: [
+        ...(localized.results ?? []),
+        ...(english.results ?? []).filter((video) => !seen.has(video.id)),
+      ],
+    }
+  }
+
+  /**
+   * One page of user reviews. Most are written in English, so when the UI language has none at
+   * all the English reviews are returned instead and the page is flagged as a fallback.
+   */
+  const getReviews = async (
+    id: number | string,
+    page = 1,
+    options: Omit<CallOptions<PagedResponse<Review>>, 'onCached'> = {},
+  ): Promise<ReviewsPage> => {
+    const path = `/movie/${encodeURIComponent(String(id))}/reviews`
+    const localized = await get<PagedResponse<Review>>(path, {
+      ttl: CACHE_TTL.detail,
+      ...options,
+      params: { page },
+    })
+    if (language.startsWith('en') || (localized.total_results ?? 0) > 0) {
+      return { ...localized, language, isFallback: false }
+    }
+
+    const english = await get<PagedResponse<Review>>(path, {
+      ttl: CACHE_TTL.detail,
+      ...options,
+      params: { page, language: 'en-US' },
+    })
+    return { ...english, language: 'en-US', isFallback: true }
+  }
+
+  const getWatchProviders = (id: number | string, options: CallOptions<WatchProvidersResponse> = {}) =>
+    get<WatchProvidersResponse>(`/movie/${encodeURIComponent(String(id))}/watch/providers`, {
+      ttl: CACHE_TTL.detail,
+      ...options,
+    })
+
+  /** Services operating in a region, in TMDb's suggested display order for that region. */
+  const getWatchProviderCatalog = async (
+    region: string,
+    options: Omit<CallOptions<WatchProviderCatalog>, 'onCached'> = {},
+  ) => {
+    const payload = await get<WatchProviderCatalog>('/watch/providers/movie', {
+      ttl: CACHE_TTL.configuration,
+      ...options,
+      params: { watch_region: region },
+    })
+    return (payload.results ?? [])
+      .map(({ display_priorities: priorities, ...provider }) => ({
+        ...provider,
+        display_priority: priorities?.[region] ?? provider.display_priority,
+      }))
+      .sort(byDisplayPriority)
+  }
+
+  const getReleaseDates = (id: number | string, options: CallOptions<ReleaseDatesResponse> = {}) =>
+    get<ReleaseDatesResponse>(`/movie/${encodeURIComponent(String(id))}/release_dates`, {
+      ttl: CACHE_TTL.detail,
+      ...options,
+    })
+
+  /** Every genre TMDb tags titles of one media type with, named in the client language. */
+  const getGenres = async (
+    mediaType: MediaType,
+    { onCached, ...options }: CallOptions<Genre[]> = {},
+  ) =>
+    (
+      await get<GenreListResponse>(`/genre/${mediaType}/list`, {
+        ttl: CACHE_TTL.configuration,
+        ...options,
+        onCached: onCached && ((raw, meta) => onCached(raw.genres ?? [], meta)),
+      })
+    ).genres ?? []
+
+  /** Movie ratings per country, lowest first; Discover matches `certification` against these. */
+  const getCertifications = async (
+    region: string,
+    options: Omit<CallOptions<CertificationListResponse>, 'onCached'> = {},
+  ): Promise<Certification[]> => {
+    const payload = await get<CertificationListResponse>('/certification/movie/list', {
+      ttl: CACHE_TTL.configuration,
+      ...options,
+    })
+    return (payload.certifications?.[region] ?? []).slice().sort((a, b) => a.order - b.order)
+  }
+
+  /** Image sizes and base URLs; TMDb changes these rarely, so a day-long cache is plenty. */
+  const getConfiguration = (options: CallOptions<TmdbConfiguration> = {}) =>
+    get<TmdbConfiguration>('/configuration', { ttl: CACHE_TTL.configuration, ...options })
+
+  return {
+    apiKey,
+    language,
+    hasKey: apiKey.length > 0,
+    get,
+    getPage,
+    peekPage,
+    getMovieList,
+    getTrendingMovies,
+    searchMovies,
+    discoverMovies,
+    searchPeople,
+    searchKeywords,
+    searchMulti,
+    getMovieDetails,
+    getTvList,
+    searchTv,
+    discoverTv,
+    getTvDetails,
+    getTvSeason,
+    getMovieCredits,
+    getCollection,
+    getPerson,
+    getPersonMovieCredits,
+    getVideos,
+    getReviews,
+    getWatchProviders,
+    getWatchProviderCatalog,
+    getReleaseDates,
+    getGenres,
+    getCertifications,
+    getConfiguration,
+  }
+}
+
+export type TmdbClient = ReturnType<typeof createTmdbClient>
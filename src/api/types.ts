@@ -0,0 +1,427 @@
+export type MediaType = 'movie' | 'tv'
+
+/**
+ * A list item for either media type. TV results are normalized into this shape by the client:
+ * `name` becomes `title`, `first_air_date` becomes `release_date` and `media_type` is set.
+ */
+export type Movie = {
+  id: number
+  media_type?: MediaType
+  title: string
+  name?: string
+  overview: string
+  poster_path: string | null
+  backdrop_path?: string | null
+  release_date?: string
+  first_air_date?: string
+  vote_average?: number
+  genre_ids?: number[]
+  /** ISO 639-1 code, e.g. `ko`. */
+  original_language?: string
+  popularity?: number
+  vote_count?: number
+}
+
+export type Genre = {
+  id: number
+  name: string
+}
+
+export type GenreListResponse = {
+  genres: Genre[]
+}
+
+export type Certification = {
+  certification: string
+  meaning: string
+  order: number
+}
+
+export type CertificationListResponse = {
+  certifications: Record<string, Certification[]>
+}
+
+export type MovieDetail = {
+  id: number
+  title: string
+  name?: string
+  overview?: string
+  poster_path: string | null
+  backdrop_path: string | null
+  release_date?: string
+  vote_average?: number
+  vote_count?: number
+  popularity?: number
+  genres?: Genre[]
+  runtime?: number
+  status?: string
+  tagline?: string
+  belongs_to_collection?: CollectionSummary | null
+  /** Present only when requested through `append_to_response`. */
+  recommendations?: PagedResponse<Movie>
+  similar?: PagedResponse<Movie>
+}
+
+/** The franchise a movie is part of, as embedded in the movie's details. */
+export type CollectionSummary = {
+  id: number
+  name: string
+  poster_path: string | null
+  backdrop_path: string | null
+}
+
+/** `/collection/{id}`; TMDb lists the parts in no particular order. */
+export type CollectionDetail = CollectionSummary & {
+  overview?: string
+  parts: Movie[]
+}
+
+/** Sub-resources `getMovieDetails` can fold into the detail request via `append_to_response`. */
+export type MovieAppend = 'recommendations' | 'similar'
+
+export type Season = {
+  id: number
+  season_number: number
+  name: string
+  overview?: string
+  air_date?: string | null
+  episode_count?: number
+  poster_path?: string | null
+}
+
+export type TvDetail = {
+  id: number
+  name: string
+  /** Copied from `name` by the client so shared UI can keep reading `title`. */
+  title: string
+  original_name?: string
+  overview?: string
+  poster_path: string | null
+  backdrop_path: string | null
+  first_air_date?: string
+  last_air_date?: string
+  vote_average?: number
+  vote_count?: number
+  popularity?: number
+  genres?: Genre[]
+  episode_run_time?: number[]
+  number_of_seasons?: number
+  number_of_episodes?: number
+  seasons?: Season[]
+  status?: string
+  tagline?: string
+}
+
+export type Episode = {
+  id: number
+  episode_number: number
+  season_number: number
+  name: string
+  overview?: string
+  air_date?: string | null
+  runtime?: number | null
+  still_path?: string | null
+  vote_average?: number
+}
+
+export type SeasonDetail = {
+  id: number
+  season_number: number
+  name: string
+  overview?: string
+  air_date?: string | null
+  poster_path?: string | null
+  episodes: Episode[]
+}
+
+export type CastMember = {
+  id: number
+  name: string
+  original_name?: string
+  character?: string
+  order?: number
+  credit_id: string
+  known_for_department?: string
+  profile_path: string | null
+}
+
+export type CrewMember = {
+  id: number
+  name: string
+  original_name?: string
+  job: string
+  department: string
+  credit_id: string
+  known_for_department?: string
+  profile_path: string | null
+}
+
+export type MovieCredits = {
+  id: number
+  cast: CastMember[]
+  crew: CrewMember[]
+}
+
+export type KeyCrewRole = 'director' | 'writer' | 'composer'
+
+export type KeyCrew = {
+  role: KeyCrewRole
+  people: CrewMember[]
+}
+
+export type PersonDetail = {
+  id: number
+  name: string
+  also_known_as?: string[]
+  biography?: string
+  birthday?: string | null
+  deathday?: string | null
+  place_of_birth?: string | null
+  known_for_department?: string
+  profile_path: string | null
+  popularity?: number
+}
+
+/** A person as listed by `/search/person`. */
+export type PersonSummary = {
+  id: number
+  name: string
+  known_for_department?: string
+  profile_path: string | null
+  popularity?: number
+  /** A few of the person's best-known titles, movies and series mixed. */
+  known_for?: Movie[]
+}
+
+export type PersonCastCredit = Movie & {
+  character?: string
+  credit_id: string
+}
+
+export type PersonCrewCredit = Movie & {
+  job: string
+  department: string
+  credit_id: string
+}
+
+export type PersonMovieCredits = {
+  id: number
+  cast: PersonCastCredit[]
+  crew: PersonCrewCredit[]
+}
+
+export type PagedResponse<T> = {
+  page: number
+  results: T[]
+  total_pages: number
+  total_results: number
+}
+
+export type MovieListCategory = 'popular' | 'now_playing' | 'top_rated' | 'upcoming'
+
+export type TvListCategory = 'popular' | 'top_rated' | 'on_the_air' | 'airing_today'
+
+/** TMDb's trending feeds rank by activity over the last day or the last seven days. */
+export type TrendingWindow = 'day' | 'week'
+
+export type PageParams = {
+  page?: number
+}
+
+export type MovieListParams = PageParams & {
+  /** ISO 3166-1 code; narrows `now_playing` and `upcoming` to that country's release calendar. */
+  region?: string
+}
+
+export type SearchMovieParams = PageParams & {
+  query: string
+  include_adult?: boolean
+  primary_release_year?: string
+}
+
+export type SearchPersonParams = PageParams & {
+  query: string
+  include_adult?: boolean
+}
+
+export type SearchMultiParams = PageParams & {
+  query: string
+  include_adult?: boolean
+}
+
+/** A `/search/multi` result; `media_type` tells titles and people apart. */
+export type MultiSearchResult =
+  | (Movie & { media_type: MediaType })
+  | (PersonSummary & { media_type: 'person' })
+
+export type SearchKeywordParams = PageParams & {
+  query: string
+}
+
+/** A TMDb keyword tag, as listed by `/search/keyword`. */
+export type Keyword = {
+  id: number
+  name: string
+}
+
+export type DiscoverMovieParams = PageParams & {
+  include_adult?: boolean
+  sort_by?: string
+  primary_release_year?: string
+  'primary_release_date.gte'?: string
+  'primary_release_date.lte'?: string
+  'vote_average.gte'?: number
+  'vote_count.gte'?: number
+  'with_runtime.gte'?: number
+  'with_runtime.lte'?: number
+  with_original_language?: string
+  region?: string
+  /** Rating to match exactly; only applies together with `certification_country`. */
+  certification?: string
+  certification_country?: string
+  /** Person ids joined with `,` (all of them) or `|` (any of them). */
+  with_cast?: string
+  with_crew?: string
+} & GenreFilter &
+  KeywordFilter &
+  WatchProviderFilter
+
+/** Discover filters on genre ids; `with_genres` takes `,` (all of them) or `|` (any of them). */
+export type GenreFilter = {
+  with_genres?: string
+  without_genres?: string
+}
+
+/** Discover filter on keyword ids; `,` requires all of them, `|` any of them. */
+export type KeywordFilter = {
+  with_keywords?: string
+}
+
+/** Discover filters on availability; `with_watch_providers` takes `|` (any) or `,` (all). */
+export type WatchProviderFilter = {
+  with_watch_providers?: string
+  watch_region?: string
+  with_watch_monetization_types?: string
+}
+
+export type SearchTvParams = PageParams & {
+  query: string
+  include_adult?: boolean
+  first_air_date_year?: string
+}
+
+export type DiscoverTvParams = PageParams & {
+  include_adult?: boolean
+  sort_by?: string
+  first_air_date_year?: string
+  'first_air_date.gte'?: string
+  'first_air_date.lte'?: string
+  'vote_average.gte'?: number
+  'vote_count.gte'?: number
+  'with_runtime.gte'?: number
+  'with_runtime.lte'?: number
+  with_original_language?: string
+} & GenreFilter &
+  KeywordFilter &
+  WatchProviderFilter
+
+export type WatchProvider = {
+  provider_id: number
+  provider_name: string
+  logo_path: string | null
+  display_priority?: number
+}
+
+export type WatchProviderGroup = 'flatrate' | 'free' | 'ads' | 'rent' | 'buy'
+
+/** One country's offers for a title; TMDb's data comes from JustWatch, credited via `link`. */
+export type RegionalWatchProviders = {
+  link?: string
+} & Partial<Record<WatchProviderGroup, WatchProvider[]>>
+
+export type WatchProvidersResponse = {
+  id: number
+  results: Record<string, RegionalWatchProviders>
+}
+
+export type WatchProviderCatalog = {
+  results: (WatchProvider & { display_priorities?: Record<string, number> })[]
+}
+
+export type Review = {
+  id: string
+  author: string
+  author_details?: {
+    name?: string
+    username?: string
+    avatar_path?: string | null
+    /** Out of 10; null when the author didn't score the movie. */
+    rating?: number | null
+  }
+  /** Plain text with light Markdown (`**bold**`, `_italic_`, links) and the odd HTML tag. */
+  content: string
+  created_at: string
+  updated_at?: string
+  url?: string
+}
+
+/** A page of reviews; `language` says which language they came back in after any fallback. */
+export type ReviewsPage = PagedResponse<Review> & {
+  language: string
+  isFallback: boolean
+}
+
+export type Video = {
+  id: string
+  key: string
+  name: string
+  /** Hosting service; only `YouTube` entries can be embedded by the player. */
+  site: string
+  type: string
+  official?: boolean
+  published_at?: string
+  iso_639_1?: string | null
+  size?: number
+}
+
+export type VideosResponse = {
+  id: number
+  results: Video[]
+}
+
+/** TMDb release types: 1 premiere, 2 limited theatrical, 3 theatrical, 4 digital, 5 physical, 6 TV. */
+export type ReleaseType = 1 | 2 | 3 | 4 | 5 | 6
+
+export type ReleaseDate = {
+  certification: string
+  release_date: string
+  type: ReleaseType
+  note?: string
+  iso_639_1?: string
+}
+
+export type ReleaseDatesResponse = {
+  id: number
+  results: {
+    iso_3166_1: string
+    release_dates: ReleaseDate[]
+  }[]
+}
+
+export type RegionalRelease = {
+  region: string
+  releaseDate: string | null
+  certification: string | null
+}
+
+export type TmdbConfiguration = {
+  images: {
+    base_url: string
+    secure_base_url: string
+    backdrop_sizes: string[]
+    logo_sizes: string[]
+    poster_sizes: string[]
+    profile_sizes: string[]
+    still_sizes: string[]
+  }
+}
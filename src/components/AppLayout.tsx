@@ -1,17 +1,25 @@
 import { NavLink, Outlet, useNavigate } from 'react-router-dom'
 import { useAuth } from '../context/AuthContext'
+import { useGenreCatalog } from '../hooks/useGenreCatalog'
+import { useImageConfiguration } from '../hooks/useImageConfiguration'
+import { useI18n } from '../i18n/context'
+import type { MessageKey } from '../i18n'
 
-const navItems = [
-  { path: '/', label: '둘러보기' },
-  { path: '/popular', label: '인기' },
-  { path: '/search', label: '검색' },
-  { path: '/wishlist', label: '위시리스트' },
-  { path: '/profile', label: '프로필' },
+const navItems: { path: string; labelKey: MessageKey }[] = [
+  { path: '/', labelKey: 'nav.home' },
+  { path: '/trending', labelKey: 'nav.trending' },
+  { path: '/popular', labelKey: 'nav.popular' },
+  { path: '/search', labelKey: 'nav.search' },
+  { path: '/wishlist', labelKey: 'nav.wishlist' },
+  { path: '/profile', labelKey: 'nav.profile' },
 ]
 
 const AppLayout = () => {
   const { tmdbKey, logout } = useAuth()
   const navigate = useNavigate()
+  const { t } = useI18n()
+  useImageConfiguration()
+  useGenreCatalog()
 
   const handleLogout = () => {
     logout()
@@ -21,14 +29,14 @@ const AppLayout = () => {
   const formattedKey =
     tmdbKey.length > 10
       ? `${tmdbKey.slice(0, 4)}...${tmdbKey.slice(-4)}`
-      : tmdbKey || '연동되지 않음'
+      : tmdbKey || t('header.keyNotLinked')
 
   return (
     <div className="app-shell">
       <header className="app-header">
         <div className="branding">
           <span className="brand-mark">NaDaflix</span>
-          <span className="brand-subtitle">취향 맞춤 영화 허브</span>
+          <span className="brand-subtitle">{t('header.subtitle')}</span>
         </div>
 
         <nav className="main-nav">
@@ -41,17 +49,17 @@ const AppLayout = () => {
               }
               end={item.path === '/'}
             >
-              {item.label}
+              {t(item.labelKey)}
             </NavLink>
           ))}
         </nav>
 
         <div className="header-actions">
-          <span className="tmdb-chip" title={tmdbKey || 'TMDB 키가 없습니다'}>
-            TMDB 키: {formattedKey}
+          <span className="tmdb-chip" title={tmdbKey || t('header.noKey')}>
+            {t('header.keyChip', { key: formattedKey })}
           </span>
           <button type="button" className="ghost-btn" onClick={handleLogout}>
-            로그아웃
+            {t('header.logout')}
           </button>
         </div>
       </header>
@@ -0,0 +1,33 @@
+import { Link } from 'react-router-dom'
+import type { CollectionSummary } from '../api/types'
+import { useI18n } from '../i18n/context'
+import TmdbImage from './TmdbImage'
+
+type CollectionBannerProps = {
+  collection: CollectionSummary
+}
+
+/** Points from a movie's detail page to the franchise it belongs to. */
+const CollectionBanner = ({ collection }: CollectionBannerProps) => {
+  const { t } = useI18n()
+
+  return (
+    <Link to={`/collection/${collection.id}`} className="collection-banner">
+      <TmdbImage
+        path={collection.backdrop_path}
+        kind="backdrop"
+        alt=""
+        sizes="(max-width: 1280px) 100vw, 1280px"
+        className="collection-banner__backdrop"
+        fallback={null}
+      />
+      <span className="collection-banner__text">
+        <span className="eyebrow">{t('collection.partOf')}</span>
+        <strong>{collection.name}</strong>
+      </span>
+      <span className="collection-banner__cta">{t('collection.view')} →</span>
+    </Link>
+  )
+}
+
+export default CollectionBanner
@@ -0,0 +1,80 @@
+import { Link } from 'react-router-dom'
+import { pickKeyCrew } from '../api/tmdb'
+import type { KeyCrewRole, MovieCredits } from '../api/types'
+import type { MessageKey } from '../i18n'
+import { useI18n } from '../i18n/context'
+import TmdbImage from './TmdbImage'
+
+type CreditsSectionProps = {
+  credits: MovieCredits
+}
+
+/** TMDb bills dozens of extras; the carousel stops after the leads and supporting cast. */
+const MAX_CAST = 20
+
+const ROLE_LABELS: Record<KeyCrewRole, MessageKey> = {
+  director: 'credits.director',
+  writer: 'credits.writer',
+  composer: 'credits.composer',
+}
+
+/**
+ * Cast carousel and key crew for the movie detail page. Every person links to `/person/:id`.
+ */
+const CreditsSection = ({ credits }: CreditsSectionProps) => {
+  const { t } = useI18n()
+  const cast = credits.cast
+    .slice()
+    .sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity))
+    .slice(0, MAX_CAST)
+  const keyCrew = pickKeyCrew(credits.crew)
+
+  if (cast.length === 0 && keyCrew.length === 0) return null
+
+  return (
+    <section className="detail-credits" aria-labelledby="detail-credits-title">
+      <h2 id="detail-credits-title">{t('credits.title')}</h2>
+
+      {keyCrew.length > 0 && (
+        <dl className="detail-credits__crew">
+          {keyCrew.map(({ role, people }) => (
+            <div key={role}>
+              <dt>{t(ROLE_LABELS[role])}</dt>
+              <dd>
+                {people.map((person, index) => (
+                  <span key={person.credit_id}>
+                    {index > 0 && ', '}
+                    <Link to={`/person/${person.id}`}>{person.name}</Link>
+                  </span>
+                ))}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {cast.length > 0 && (
+        <ul className="detail-credits__cast" aria-label={t('credits.cast')}>
+          {cast.map((member) => (
+            <li key={member.credit_id}>
+              <Link to={`/person/${member.id}`} className="cast-card">
+                <span className="cast-card__photo">
+                  <TmdbImage
+                    path={member.profile_path}
+                    kind="profile"
+                    alt={t('credits.profileAlt', { name: member.name })}
+                    sizes="140px"
+                  />
+                </span>
+                <strong>{member.name}</strong>
+                {member.character && <span>{member.character}</span>}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
+
+export default CreditsSection
@@ -0,0 +1,268 @@
+import { useEffect, useId, useRef, useState } from 'react'
+import type { KeyboardEvent } from 'react'
+import { useTmdbClient } from '../hooks/useTmdbClient'
+import { useI18n } from '../i18n/context'
+import type { FilterEntity } from '../utils/searchFilters'
+import TmdbImage from './TmdbImage'
+
+type FilterEntityPickerProps = {
+  id: string
+  label: string
+  placeholder: string
+  /** `/search/person` for people, `/search/keyword` for keyword tags. */
+  source: 'person' | 'keyword'
+  /** People known for this department are suggested first, e.g. `Directing` for directors. */
+  preferDepartment?: string
+  selected: FilterEntity[]
+  disabled?: boolean
+  /** Id of the hint under the picker, announced with the input. */
+  hintId?: string
+  onChange: (selected: FilterEntity[]) => void
+}
+
+type Option = FilterEntity & {
+  profilePath?: string | null
+  detail?: string
+}
+
+type OptionResult = {
+  key: string
+  options: Option[]
+}
+
+const MIN_QUERY_LENGTH = 2
+const MAX_OPTIONS = 6
+const SUGGEST_DELAY = 200
+
+/**
+ * A combobox that adds people or keyword tags to a search filter, with the picked ones shown as
+ * removable chips below it. Keyboard handling follows `SearchCombobox`; Enter picks the highlighted
+ * option, or the first one when none is highlighted.
+ */
+const FilterEntityPicker = ({
+  id,
+  label,
+  placeholder,
+  source,
+  preferDepartment,
+  selected,
+  disabled = false,
+  hintId,
+  onChange,
+}: FilterEntityPickerProps) => {
+  const { t } = useI18n()
+  const client = useTmdbClient()
+  const listboxId = useId()
+  const [text, setText] = useState('')
+  const [open, setOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(-1)
+  const [result, setResult] = useState<OptionResult | null>(null)
+  const requestController = useRef<AbortController | null>(null)
+
+  const query = text.trim()
+  const resultKey = `${client.language}/${source}/${query}`
+  const canSuggest = client.hasKey && !disabled && query.length >= MIN_QUERY_LENGTH
+  const current = canSuggest && result?.key === resultKey ? result : null
+  const options = (current?.options ?? []).filter(
+    (option) => !selected.some((entity) => entity.id === option.id),
+  )
+  const expanded = open && options.length > 0
+  const optionId = (index: number) => `${listboxId}-option-${index}`
+
+  useEffect(() => {
+    if (!canSuggest) return
+
+    const timer = window.setTimeout(async () => {
+      const controller = new AbortController()
+      requestController.current?.abort()
+      requestController.current = controller
+
+      try {
+        const callOptions = { signal: controller.signal }
+        let next: Option[]
+        if (source === 'person') {
+          const { results } = await client.searchPeople({ query, page: 1 }, callOptions)
+          // A stable sort keeps TMDb's popularity order within each group.
+          next = results
+            .slice()
+            .sort(
+              (a, b) =>
+                Number(b.known_for_department === preferDepartment) -
+                Number(a.known_for_department === preferDepartment),
+            )
+            .map((person) => ({
+              id: person.id,
+              name: person.name,
+              profilePath: person.profile_path,
+              detail: [person.known_for_department, person.known_for?.[0]?.title]
+                .filter(Boolean)
+                .join(' · '),
+            }))
+        } else {
+          const { results } = await client.searchKeywords({ query, page: 1 }, callOptions)
+          next = results.map((keyword) => ({ id: keyword.id, name: keyword.name }))
+        }
+        if (controller.signal.aborted) return
+        setResult({ key: resultKey, options: next.slice(0, MAX_OPTIONS) })
+      } catch {
+        // An empty list is enough here; the picker is retried with the next keystroke.
+      } finally {
+        if (requestController.current === controller) {
+          requestController.current = null
+        }
+      }
+    }, SUGGEST_DELAY)
+
+    return () => window.clearTimeout(timer)
+  }, [canSuggest, client, preferDepartment, query, resultKey, source])
+
+  useEffect(() => () => requestController.current?.abort(), [])
+
+  const handleSelect = (option: Option) => {
+    onChange([...selected, { id: option.id, name: option.name }])
+    setText('')
+    setOpen(false)
+    setActiveIndex(-1)
+  }
+
+  const handleRemove = (entityId: number) => {
+    onChange(selected.filter((entity) => entity.id !== entityId))
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    const count = options.length
+
+    switch (event.key) {
+      case 'ArrowDown':
+        if (count === 0) return
+        event.preventDefault()
+        setOpen(true)
+        setActiveIndex((index) => (!expanded ? 0 : (index + 1) % count))
+        break
+      case 'ArrowUp':
+        if (count === 0) return
+        event.preventDefault()
+        setOpen(true)
+        setActiveIndex((index) => (index <= 0 ? count - 1 : index - 1))
+        break
+      case 'Enter':
+        // Never submits the search form; an unmatched name has nothing to add.
+        event.preventDefault()
+        if (expanded) handleSelect(options[Math.max(activeIndex, 0)])
+        break
+      case 'Escape':
+        if (!expanded) return
+        event.preventDefault()
+        setOpen(false)
+        setActiveIndex(-1)
+        break
+      case 'Backspace':
+        if (text === '' && selected.length > 0) {
+          handleRemove(selected[selected.length - 1].id)
+        }
+        break
+    }
+  }
+
+  const statusText =
+    !open || !canSuggest
+      ? ''
+      : !current
+        ? t('search.suggestLoading')
+        : options.length > 0
+          ? t('search.pickerCount', { count: options.length })
+          : t('search.suggestNone')
+
+  return (
+    <>
+      <label htmlFor={id}>{label}</label>
+      <div className="search-combobox filter-picker">
+        <input
+          id={id}
+          type="search"
+          role="combobox"
+          placeholder={placeholder}
+          value={text}
+          disabled={disabled}
+          onChange={(event) => {
+            setText(event.target.value)
+            setOpen(true)
+            setActiveIndex(-1)
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setOpen(true)}
+          onBlur={() => {
+            setOpen(false)
+            setActiveIndex(-1)
+          }}
+          autoComplete="off"
+          aria-autocomplete="list"
+          aria-expanded={expanded}
+          aria-controls={listboxId}
+          aria-activedescendant={expanded && activeIndex >= 0 ? optionId(activeIndex) : undefined}
+          aria-describedby={hintId}
+        />
+        <ul
+          id={listboxId}
+          role="listbox"
+          aria-label={label}
+          className="search-combobox__listbox"
+          hidden={!expanded}
+        >
+          {options.map((option, index) => (
+            <li
+              key={option.id}
+              id={optionId(index)}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`search-combobox__option ${index === activeIndex ? 'is-active' : ''}`}
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => handleSelect(option)}
+            >
+              {source === 'person' && (
+                <span className="search-combobox__thumb" aria-hidden="true">
+                  <TmdbImage
+                    path={option.profilePath}
+                    kind="profile"
+                    alt=""
+                    sizes="40px"
+                    fallback={null}
+                  />
+                </span>
+              )}
+              <span className="search-combobox__text">
+                <strong>{option.name}</strong>
+                {option.detail && <span>{option.detail}</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <span className="search-combobox__status" role="status">
+          {statusText}
+        </span>
+      </div>
+      {selected.length > 0 && (
+        <ul className="filter-chips filter-picker__chips" aria-label={label}>
+          {selected.map((entity) => (
+            <li
+              key={entity.id}
+              className={`filter-chip filter-chip--include is-active ${disabled ? 'is-inactive' : ''}`}
+            >
+              <span>{entity.name}</span>
+              <button
+                type="button"
+                className="filter-picker__remove"
+                aria-label={t('search.removeFilter', { name: entity.name })}
+                onClick={() => handleRemove(entity.id)}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  )
+}
+
+export default FilterEntityPicker
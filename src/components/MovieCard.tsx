@@ -1,35 +1,107 @@
-import { useId } from 'react'
+import { useEffect, useId, useRef, useState } from 'react'
 import type { KeyboardEvent, MouseEvent } from 'react'
 import { useNavigate } from 'react-router-dom'
 import type { Movie } from '../hooks/useMovies'
+import TmdbImage from './TmdbImage'
+import VideoModal from './VideoModal'
+import { useGenres } from '../hooks/useGenres'
+import type { RankMovement } from '../hooks/useTrendingMovement'
+import { useVideos } from '../hooks/useVideos'
+import { useI18n } from '../i18n/context'
 
 type MovieCardProps = {
   movie: Movie
   wished: boolean
   onToggleWishlist: (movie: Movie) => void
+  /** Position in a ranked feed such as trending; shown as a badge on the poster. */
+  rank?: number
+  movement?: RankMovement | null
 }
 
-const TMDB_IMAGE_BASE = 'https://image.tmdb.org/t/p/w342'
-const FALLBACK_POSTER = '/poster-fallback.svg'
-
 /**
  * Movie card interactions were redesigned to separate navigation and wishlist actions.
  * Card clicks open the detail route while the star button toggles wishlist state only.
  */
-const getOverviewSnippet = (overview?: string) => {
+const getOverviewSnippet = (overview: string | undefined, fallback: string) => {
   if (!overview || !overview.trim()) {
-    return '아직 이 작품에 대한 소개가 제공되지 않았습니다.'
+    return fallback
   }
   const trimmed = overview.trim()
   return trimmed.length > 140 ? `${trimmed.slice(0, 137)}...` : trimmed
 }
 
-const MovieCard = ({ movie, wished, onToggleWishlist }: MovieCardProps) => {
-  const posterUrl = movie.poster_path
-    ? `${TMDB_IMAGE_BASE}${movie.poster_path}`
-    : FALLBACK_POSTER
+/** Cards stay compact; the detail page lists every genre. */
+const MAX_GENRE_CHIPS = 3
+
+/**
+ * Hover/focus time before a card asks TMDb whether it has a trailer; skips cards swept past. The
+ * request is cancelled when the pointer or focus leaves, so only the card in use keeps one open.
+ */
+const TRAILER_INTENT_DELAY = 300
+
+const MOVEMENT_SYMBOL: Record<RankMovement['direction'], string> = {
+  up: '▲',
+  down: '▼',
+  same: '–',
+  new: 'NEW',
+}
+
+const MovieCard = ({ movie, wished, onToggleWishlist, rank, movement }: MovieCardProps) => {
   const titleId = useId()
+  const rankId = useId()
   const navigate = useNavigate()
+  const { t } = useI18n()
+  const { getGenreName } = useGenres(movie.media_type ?? 'movie')
+  const genreNames = (movie.genre_ids ?? [])
+    .map(getGenreName)
+    .filter((name): name is string => name !== null)
+    .slice(0, MAX_GENRE_CHIPS)
+  const [wantsTrailer, setWantsTrailer] = useState(false)
+  const [playerOpen, setPlayerOpen] = useState(false)
+  const intentTimer = useRef<number | null>(null)
+  const { videos, trailer } = useVideos(movie.media_type ?? 'movie', movie.id, {
+    enabled: wantsTrailer,
+  })
+
+  useEffect(
+    () => () => {
+      if (intentTimer.current) window.clearTimeout(intentTimer.current)
+    },
+    [],
+  )
+
+  const handleHoverStart = () => {
+    if (wantsTrailer || intentTimer.current) return
+    intentTimer.current = window.setTimeout(() => {
+      intentTimer.current = null
+      setWantsTrailer(true)
+    }, TRAILER_INTENT_DELAY)
+  }
+
+  const handleHoverEnd = () => {
+    if (intentTimer.current) {
+      window.clearTimeout(intentTimer.current)
+      intentTimer.current = null
+    }
+    // A lookup that already finished stays; one still in flight is aborted by `useVideos`.
+    setWantsTrailer(false)
+  }
+
+  const movementLabel = movement
+    ? movement.direction === 'up'
+      ? t('movieCard.movementUp', { count: movement.change })
+      : movement.direction === 'down'
+        ? t('movieCard.movementDown', { count: movement.change })
+        : movement.direction === 'new'
+          ? t('movieCard.movementNew')
+          : t('movieCard.movementSame')
+    : null
+
+  const handleTrailerClick = (event: MouseEvent<HTMLButtonElement>) => {
+    event.preventDefault()
+    event.stopPropagation()
+    setPlayerOpen(true)
+  }
 
   const handleWishlistClick = (event: MouseEvent<HTMLButtonElement>) => {
     event.preventDefault()
@@ -38,7 +110,7 @@ const MovieCard = ({ movie, wished, onToggleWishlist }: MovieCardProps) => {
   }
 
   const handleNavigate = () => {
-    navigate(`/movie/${movie.id}`)
+    navigate(`/${movie.media_type === 'tv' ? 'tv' : 'movie'}/${movie.id}`)
   }
 
   const handleKeyDown = (event: KeyboardEvent<HTMLElement>) => {
@@ -54,12 +126,53 @@ const MovieCard = ({ movie, wished, onToggleWishlist }: MovieCardProps) => {
       role="link"
       tabIndex={0}
       aria-labelledby={titleId}
-      aria-label={`${movie.title} 상세 정보 보기`}
+      aria-label={t('movieCard.openDetail', { title: movie.title })}
+      aria-describedby={rank !== undefined ? rankId : undefined}
       onClick={handleNavigate}
       onKeyDown={handleKeyDown}
+      onPointerEnter={handleHoverStart}
+      onPointerLeave={handleHoverEnd}
+      onFocus={handleHoverStart}
+      onBlur={handleHoverEnd}
     >
       <div className="movie-card__poster">
-        <img src={posterUrl} alt={`${movie.title} 포스터`} loading="lazy" />
+        <TmdbImage
+          path={movie.poster_path}
+          kind="poster"
+          alt={t('common.posterAlt', { title: movie.title })}
+          sizes="(max-width: 640px) 90vw, 300px"
+        />
+        {rank !== undefined && (
+          <span
+            id={rankId}
+            className="movie-card__rank"
+            aria-label={
+              movementLabel
+                ? t('movieCard.rankWithMovement', { rank, movement: movementLabel })
+                : t('movieCard.rank', { rank })
+            }
+          >
+            <strong>{rank}</strong>
+            {movement && (
+              <span className={`movie-card__movement movie-card__movement--${movement.direction}`}>
+                {MOVEMENT_SYMBOL[movement.direction]}
+                {movement.change > 0 && movement.change}
+              </span>
+            )}
+          </span>
+        )}
+        {trailer && (
+          <button
+            type="button"
+            className="movie-card__trailer"
+            onClick={handleTrailerClick}
+            onKeyDown={(event) => event.stopPropagation()}
+            aria-haspopup="dialog"
+            aria-label={t('movieCard.playTrailer', { title: movie.title })}
+          >
+            ▶
+          </button>
+        )}
       </div>
       <div className="movie-card__body">
         <div className="movie-card__title-row">
@@ -69,15 +182,32 @@ const MovieCard = ({ movie, wished, onToggleWishlist }: MovieCardProps) => {
             className={`wishlist-toggle ${wished ? 'is-active' : ''}`}
             onClick={handleWishlistClick}
             aria-pressed={wished}
-            aria-label={`${movie.title}를 위시리스트${wished ? '에서 제거' : '에 추가'}`}
+            aria-label={t(wished ? 'movieCard.removeFromWishlist' : 'movieCard.addToWishlist', {
+              title: movie.title,
+            })}
           >
             <span className="wishlist-indicator" aria-hidden="true">
               {wished ? '★' : '☆'}
             </span>
           </button>
         </div>
-        <p>{getOverviewSnippet(movie.overview)}</p>
+        {genreNames.length > 0 && (
+          <ul className="movie-card__genres" aria-label={t('movieCard.genres')}>
+            {genreNames.map((name) => (
+              <li key={name}>{name}</li>
+            ))}
+          </ul>
+        )}
+        <p>{getOverviewSnippet(movie.overview, t('movieCard.noOverview'))}</p>
       </div>
+      {playerOpen && (
+        <VideoModal
+          videos={videos}
+          initialVideo={trailer}
+          title={movie.title}
+          onClose={() => setPlayerOpen(false)}
+        />
+      )}
     </article>
   )
 }
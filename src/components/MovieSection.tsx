@@ -1,41 +1,81 @@
+import { Link } from 'react-router-dom'
 import MovieCard from './MovieCard'
+import RetryNotice from './RetryNotice'
+import type { RetryInfo } from '../api/scheduler'
+import type { MediaType } from '../api/types'
 import type { Movie } from '../hooks/useMovies'
+import type { RankMovement } from '../hooks/useTrendingMovement'
+import { useI18n } from '../i18n/context'
 
 type MovieSectionProps = {
   title: string
   movies: Movie[]
   loading: boolean
+  revalidating?: boolean
+  retry?: RetryInfo | null
   error: string | null
+  hasMore?: boolean
+  loadingMore?: boolean
+  onLoadMore?: () => void
   onToggleWishlist: (movie: Movie) => void
-  isInWishlist: (id: number) => boolean
+  isInWishlist: (id: number, mediaType?: MediaType) => boolean
+  /** Numbers the cards in feed order, with movement from `getMovement` when provided. */
+  ranked?: boolean
+  getMovement?: (id: number, rank: number) => RankMovement | null
+  /** A "see all" link in the header, for rows that have a page of their own. */
+  moreLink?: { to: string; label: string; state?: unknown }
 }
 
 const MovieSection = ({
   title,
   movies,
   loading,
+  revalidating = false,
+  retry = null,
   error,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
   onToggleWishlist,
   isInWishlist,
+  ranked = false,
+  getMovement,
+  moreLink,
 }: MovieSectionProps) => {
-  const shouldRenderCards = !loading && !error && movies.length > 0
+  const { t, formatNumber } = useI18n()
+  // Appending a page keeps the loaded cards visible; only the first load replaces them.
+  const showInitialLoading = loading && !loadingMore
+  const shouldRenderCards = !showInitialLoading && movies.length > 0
 
   return (
     <section className="movie-section" aria-label={title}>
       <div className="movie-section__header">
         <h2>{title}</h2>
         {movies.length > 0 && (
-          <span className="movie-section__count">{movies.length}편의 작품</span>
+          <span className="movie-section__count">
+            {revalidating && (
+              <span className="movie-section__status" role="status">
+                {t('section.revalidating')}
+              </span>
+            )}
+            {t('section.count', { count: formatNumber(movies.length) })}
+            {moreLink && (
+              <Link to={moreLink.to} state={moreLink.state} className="movie-section__link">
+                {moreLink.label}
+              </Link>
+            )}
+          </span>
         )}
       </div>
 
-      {loading && (
+      {showInitialLoading && (
         <div className="section-feedback section-feedback--loading" role="status">
-          <span className="loading-spinner" aria-hidden="true" /> {title} 불러오는 중...
+          <span className="loading-spinner" aria-hidden="true" /> {t('section.loading', { title })}
+          <RetryNotice retry={retry} />
         </div>
       )}
 
-      {!loading && error && (
+      {!showInitialLoading && error && (
         <div className="section-feedback section-feedback--error" role="alert">
           {error}
         </div>
@@ -43,23 +83,40 @@ const MovieSection = ({
 
       {!loading && !error && movies.length === 0 && (
         <div className="section-feedback section-feedback--empty">
-          지금은 표시할 작품이 없습니다. 잠시 후 다시 확인해주세요.
+          {t('section.empty')}
         </div>
       )}
 
       {shouldRenderCards && (
         <div className="movie-carousel" role="list">
-          {movies.map((movie) => (
+          {movies.map((movie, index) => (
             <div key={movie.id} role="listitem">
               <MovieCard
                 movie={movie}
-                wished={isInWishlist(movie.id)}
+                wished={isInWishlist(movie.id, movie.media_type)}
                 onToggleWishlist={onToggleWishlist}
+                rank={ranked ? index + 1 : undefined}
+                movement={ranked ? getMovement?.(movie.id, index + 1) : undefined}
               />
             </div>
           ))}
         </div>
       )}
+
+      {shouldRenderCards && onLoadMore && hasMore && (
+        <div className="movie-section__more">
+          <button type="button" className="ghost-btn" onClick={onLoadMore} disabled={loadingMore}>
+            {loadingMore ? (
+              <>
+                <span className="loading-spinner" aria-hidden="true" /> {t('common.loading')}
+              </>
+            ) : (
+              t('section.loadMore')
+            )}
+          </button>
+          {loadingMore && <RetryNotice retry={retry} />}
+        </div>
+      )}
     </section>
   )
 }
@@ -0,0 +1,134 @@
+import { useId, useState } from 'react'
+import type { MediaType, PersonSummary } from '../api/types'
+import type { Movie } from '../hooks/useMovies'
+import type { MessageKey } from '../i18n'
+import { useI18n } from '../i18n/context'
+import MovieCard from './MovieCard'
+import PersonCard from './PersonCard'
+
+type MultiSearchTab = 'all' | MediaType | 'person'
+
+type MultiSearchResultsProps = {
+  /** Movies and series in the order they were loaded; `media_type` decides their section. */
+  titles: Movie[]
+  people: PersonSummary[]
+  isInWishlist: (id: number, mediaType?: MediaType) => boolean
+  onToggleWishlist: (movie: Movie) => void
+}
+
+const TABS: { labelKey: MessageKey; value: MultiSearchTab }[] = [
+  { labelKey: 'search.tabAll', value: 'all' },
+  { labelKey: 'search.mediaMovie', value: 'movie' },
+  { labelKey: 'search.mediaTv', value: 'tv' },
+  { labelKey: 'search.suggestPeople', value: 'person' },
+]
+
+/** How many cards each section shows on the "all" tab before pointing to its own tab. */
+const SECTION_PREVIEW = 8
+
+/**
+ * `/search/multi` results split into Movies, TV and People. The "all" tab stacks a preview of each
+ * section; the other tabs list everything loaded so far, and every tab shows its count.
+ */
+const MultiSearchResults = ({
+  titles,
+  people,
+  isInWishlist,
+  onToggleWishlist,
+}: MultiSearchResultsProps) => {
+  const { t } = useI18n()
+  const tabsId = useId()
+  const [tab, setTab] = useState<MultiSearchTab>('all')
+
+  const movies = titles.filter((title) => title.media_type !== 'tv')
+  const shows = titles.filter((title) => title.media_type === 'tv')
+  const counts: Record<MultiSearchTab, number> = {
+    all: titles.length + people.length,
+    movie: movies.length,
+    tv: shows.length,
+    person: people.length,
+  }
+
+  const renderTitles = (list: Movie[]) => (
+    <div className="search-grid">
+      {list.map((movie) => (
+        <MovieCard
+          key={`${movie.media_type}-${movie.id}`}
+          movie={movie}
+          wished={isInWishlist(movie.id, movie.media_type)}
+          onToggleWishlist={onToggleWishlist}
+        />
+      ))}
+    </div>
+  )
+
+  const renderPeople = (list: PersonSummary[]) => (
+    <div className="search-grid">
+      {list.map((person) => (
+        <PersonCard key={person.id} person={person} />
+      ))}
+    </div>
+  )
+
+  const renderSection = (value: Exclude<MultiSearchTab, 'all'>, labelKey: MessageKey) => {
+    if (counts[value] === 0) return null
+    const headingId = `${tabsId}-${value}-heading`
+    return (
+      <section className="multi-search__section" aria-labelledby={headingId}>
+        <div className="multi-search__heading">
+          <h2 id={headingId}>
+            {t(labelKey)} <span>{counts[value]}</span>
+          </h2>
+          {counts[value] > SECTION_PREVIEW && (
+            <button type="button" className="search-panel__toggle" onClick={() => setTab(value)}>
+              {t('search.showAllInTab', { count: counts[value] })}
+            </button>
+          )}
+        </div>
+        {value === 'person'
+          ? renderPeople(people.slice(0, SECTION_PREVIEW))
+          : renderTitles((value === 'tv' ? shows : movies).slice(0, SECTION_PREVIEW))}
+      </section>
+    )
+  }
+
+  return (
+    <div className="multi-search">
+      <div className="multi-search__tabs" role="tablist" aria-label={t('search.tabs')}>
+        {TABS.map((option) => (
+          <button
+            key={option.value}
+            id={`${tabsId}-${option.value}`}
+            type="button"
+            role="tab"
+            aria-selected={tab === option.value}
+            aria-controls={`${tabsId}-panel`}
+            className={tab === option.value ? 'is-active' : ''}
+            onClick={() => setTab(option.value)}
+          >
+            {t(option.labelKey)}
+            <span>{t('search.tabCount', { count: counts[option.value] })}</span>
+          </button>
+        ))}
+      </div>
+
+      <div id={`${tabsId}-panel`} role="tabpanel" aria-labelledby={`${tabsId}-${tab}`}>
+        {tab === 'all' ? (
+          <>
+            {renderSection('movie', 'search.mediaMovie')}
+            {renderSection('tv', 'search.mediaTv')}
+            {renderSection('person', 'search.suggestPeople')}
+          </>
+        ) : counts[tab] === 0 ? (
+          <p className="search-feedback search-feedback--empty">{t('search.tabEmpty')}</p>
+        ) : tab === 'person' ? (
+          renderPeople(people)
+        ) : (
+          renderTitles(tab === 'tv' ? shows : movies)
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default MultiSearchResults
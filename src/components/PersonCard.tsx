@@ -0,0 +1,52 @@
+import { Link } from 'react-router-dom'
+import type { PersonSummary } from '../api/types'
+import { useI18n } from '../i18n/context'
+import TmdbImage from './TmdbImage'
+
+type PersonCardProps = {
+  person: PersonSummary
+}
+
+const MAX_KNOWN_FOR = 3
+
+/**
+ * A person in search results: the photo and name open the person page, and each known-for title
+ * links to its own detail route, so the card holds sibling links rather than nesting them.
+ */
+const PersonCard = ({ person }: PersonCardProps) => {
+  const { t } = useI18n()
+  const knownFor = (person.known_for ?? []).slice(0, MAX_KNOWN_FOR)
+
+  return (
+    <article className="person-card">
+      <Link to={`/person/${person.id}`} className="person-card__link">
+        <span className="person-card__photo">
+          <TmdbImage
+            path={person.profile_path}
+            kind="profile"
+            alt={t('credits.profileAlt', { name: person.name })}
+            sizes="(max-width: 640px) 45vw, 210px"
+          />
+        </span>
+        <strong>{person.name}</strong>
+        {person.known_for_department && <span>{person.known_for_department}</span>}
+      </Link>
+      {knownFor.length > 0 && (
+        <div className="person-card__known-for">
+          <span className="person-card__label">{t('search.knownFor')}</span>
+          <ul>
+            {knownFor.map((item) => (
+              <li key={`${item.media_type}-${item.id}`}>
+                <Link to={`/${item.media_type === 'tv' ? 'tv' : 'movie'}/${item.id}`}>
+                  {item.title}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </article>
+  )
+}
+
+export default PersonCard
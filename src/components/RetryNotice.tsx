@@ -0,0 +1,29 @@
+import { MAX_RETRIES, type RetryInfo } from '../api/scheduler'
+import { useI18n } from '../i18n/context'
+
+type RetryNoticeProps = {
+  retry: RetryInfo | null
+}
+
+/**
+ * Shown next to loading indicators while the request scheduler waits to retry a failed TMDb call,
+ * so users can tell a slow retry apart from a stuck request.
+ */
+const RetryNotice = ({ retry }: RetryNoticeProps) => {
+  const { t } = useI18n()
+  if (!retry) return null
+
+  const seconds = Math.max(1, Math.ceil(retry.delay / 1000))
+  const reason =
+    retry.error.kind === 'rate_limited'
+      ? t('retry.rateLimited', { seconds })
+      : t('retry.unstable')
+
+  return (
+    <span className="retry-notice" role="status">
+      {reason}… ({retry.attempt}/{MAX_RETRIES})
+    </span>
+  )
+}
+
+export default RetryNotice
@@ -0,0 +1,200 @@
+import { useId, useMemo, useRef, useState } from 'react'
+import type { ReactNode } from 'react'
+import type { Review } from '../api/types'
+import { useReviews } from '../hooks/useReviews'
+import { LOCALES } from '../i18n'
+import { useI18n } from '../i18n/context'
+import {
+  parseInline,
+  parseReviewBlocks,
+  previewReview,
+  type InlineNode,
+  type ReviewBlock,
+} from '../utils/reviewText'
+import TmdbImage from './TmdbImage'
+
+type ReviewsSectionProps = {
+  movieId: number
+}
+
+/** Roughly a long paragraph; anything longer starts collapsed. */
+const PREVIEW_CHARS = 600
+
+const renderText = (text: string, key: string) =>
+  text
+    .split('\n')
+    .flatMap((line, index) => (index === 0 ? [line] : [<br key={`${key}-${index}`} />, line]))
+
+const renderInline = (nodes: InlineNode[], keyPrefix = 'n'): ReactNode[] =>
+  nodes.flatMap((node, index) => {
+    const key = `${keyPrefix}-${index}`
+    if (node.type === 'text') return renderText(node.text, key)
+    if (node.type === 'link') {
+      return [
+        <a key={key} href={node.href} target="_blank" rel="noopener noreferrer nofollow">
+          {renderInline(node.children, key)}
+        </a>,
+      ]
+    }
+    const Tag = node.type
+    return [<Tag key={key}>{renderInline(node.children, key)}</Tag>]
+  })
+
+const renderBlock = (block: ReviewBlock, index: number) => {
+  const children = renderInline(parseInline(block.text), `b${index}`)
+  if (block.type === 'quote') return <blockquote key={index}>{children}</blockquote>
+  if (block.type === 'heading') return <h4 key={index}>{children}</h4>
+  return <p key={index}>{children}</p>
+}
+
+/** Old reviews carry Gravatar URLs (stored as "/https://…"); only TMDb-hosted avatars are shown. */
+const tmdbAvatarPath = (path?: string | null) => (path && !path.startsWith('/http') ? path : null)
+
+const ReviewCard = ({ review }: { review: Review }) => {
+  const { t, formatDate } = useI18n()
+  const contentId = useId()
+  const [expanded, setExpanded] = useState(false)
+  const blocks = useMemo(() => parseReviewBlocks(review.content), [review.content])
+  const preview = useMemo(() => previewReview(blocks, PREVIEW_CHARS), [blocks])
+
+  const name = review.author_details?.name?.trim() || review.author
+  const rating = review.author_details?.rating
+  const avatarPath = tmdbAvatarPath(review.author_details?.avatar_path)
+  const visibleBlocks = expanded ? blocks : preview.blocks
+
+  return (
+    <article className="review-card">
+      <header className="review-card__header">
+        <span className="review-card__avatar" aria-hidden="true">
+          {avatarPath ? (
+            <TmdbImage path={avatarPath} kind="profile" alt="" sizes="44px" fallback={null} />
+          ) : (
+            name.charAt(0).toUpperCase()
+          )}
+        </span>
+        <div className="review-card__author">
+          <strong>{name}</strong>
+          <span>{formatDate(review.created_at) ?? ''}</span>
+        </div>
+        {typeof rating === 'number' && (
+          <span className="review-card__rating" aria-label={t('reviews.ratingLabel', { rating })}>
+            ★ {t('reviews.rating', { rating })}
+          </span>
+        )}
+      </header>
+
+      <div id={contentId} className="review-card__content">
+        {visibleBlocks.map(renderBlock)}
+        {!expanded && preview.stoppedAtSpoiler && (
+          <p className="review-card__spoiler">{t('reviews.spoilerHidden')}</p>
+        )}
+      </div>
+
+      <footer className="review-card__footer">
+        {preview.truncated && (
+          <button
+            type="button"
+            className="review-card__toggle"
+            aria-expanded={expanded}
+            aria-controls={contentId}
+            onClick={() => setExpanded((current) => !current)}
+          >
+            {expanded
+              ? t('reviews.collapse')
+              : preview.stoppedAtSpoiler
+                ? t('reviews.expandSpoiler')
+                : t('reviews.expand')}
+          </button>
+        )}
+        {review.url && (
+          <a href={review.url} target="_blank" rel="noopener noreferrer">
+            {t('reviews.original')}
+          </a>
+        )}
+      </footer>
+    </article>
+  )
+}
+
+/**
+ * User reviews for the movie detail page, one TMDb page at a time. Long reviews start collapsed,
+ * and the collapsed view never runs past a spoiler warning.
+ */
+const ReviewsSection = ({ movieId }: ReviewsSectionProps) => {
+  const { t, locale, formatNumber } = useI18n()
+  const [page, setPage] = useState(1)
+  const sectionRef = useRef<HTMLElement | null>(null)
+  const { reviews, error, loading, retry, totalPages } = useReviews(movieId, page)
+  const languageName = LOCALES[locale].label
+
+  const goToPage = (nextPage: number) => {
+    setPage(nextPage)
+    sectionRef.current?.scrollIntoView({ block: 'start', behavior: 'smooth' })
+  }
+
+  return (
+    <section ref={sectionRef} className="detail-reviews" aria-labelledby="detail-reviews-title">
+      <h2 id="detail-reviews-title">
+        {t('reviews.title')}
+        {reviews && reviews.total_results > 0 && (
+          <span>{t('reviews.count', { count: formatNumber(reviews.total_results) })}</span>
+        )}
+      </h2>
+
+      {reviews?.isFallback && reviews.total_results > 0 && (
+        <p className="detail-reviews__notice">
+          {t('reviews.fallback', { language: languageName })}
+        </p>
+      )}
+
+      {error ? (
+        <div className="section-feedback section-feedback--error" role="alert">
+          {error}
+          <button type="button" onClick={retry}>
+            {t('common.retry')}
+          </button>
+        </div>
+      ) : loading || !reviews ? (
+        <div className="section-feedback section-feedback--loading" role="status">
+          <span className="loading-spinner" aria-hidden="true" />
+          {t('reviews.loading')}
+        </div>
+      ) : reviews.results.length === 0 ? (
+        <div className="section-feedback section-feedback--empty">
+          {reviews.isFallback
+            ? t('reviews.emptyWithFallback', { language: languageName })
+            : t('reviews.empty')}
+        </div>
+      ) : (
+        <div className="detail-reviews__list">
+          {reviews.results.map((review) => (
+            <ReviewCard key={review.id} review={review} />
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <nav
+          className="popular-pagination detail-reviews__pagination"
+          aria-label={t('reviews.pagination')}
+        >
+          <button type="button" onClick={() => goToPage(page - 1)} disabled={page <= 1 || loading}>
+            {t('reviews.previous')}
+          </button>
+          <span className="popular-pagination__page">
+            {t('reviews.page', { page, total: totalPages })}
+          </span>
+          <button
+            type="button"
+            onClick={() => goToPage(page + 1)}
+            disabled={page >= totalPages || loading}
+          >
+            {t('reviews.next')}
+          </button>
+        </nav>
+      )}
+    </section>
+  )
+}
+
+export default ReviewsSection
@@ -0,0 +1,248 @@
+import { useState } from 'react'
+import type { FormEvent, KeyboardEvent } from 'react'
+import { useGenres } from '../hooks/useGenres'
+import type { RecentSearch, SavedSearch } from '../hooks/useSavedSearches'
+import { useSearchPreview } from '../hooks/useSearchPreview'
+import type { MessageKey } from '../i18n'
+import { useI18n } from '../i18n/context'
+import { filtersFromSearchParams, toResultKey, type SearchScope } from '../utils/searchFilters'
+
+const MEDIA_LABEL_KEYS: Record<SearchScope, MessageKey> = {
+  all: 'search.mediaAll',
+  movie: 'search.mediaMovie',
+  tv: 'search.mediaTv',
+}
+
+type SavedSearchesPanelProps = {
+  /** The search on screen, as a query string; empty when nothing is filtered yet. */
+  currentQuery: string
+  /** Whether saves reach storage; sessions that predate per-account storage have to sign in again. */
+  canStore: boolean
+  saved: SavedSearch[]
+  recent: RecentSearch[]
+  onRun: (query: string, savedId?: string) => void
+  onSave: (name: string) => void
+  onRename: (id: string, name: string) => void
+  onTogglePinned: (id: string) => void
+  onDelete: (id: string) => void
+  onClearRecent: () => void
+}
+
+/** How many of the saved search's current first-page results its last run did not load. */
+const NewResultsCount = ({ entry }: { entry: SavedSearch }) => {
+  const { t } = useI18n()
+  const { movies, loading } = useSearchPreview(entry.query)
+  if (loading) return null
+
+  const count = movies.filter((movie) => !entry.lastResultKeys.includes(toResultKey(movie))).length
+  return (
+    <span className={`saved-search__new ${count > 0 ? 'is-active' : ''}`}>
+      {count > 0 ? t('search.savedNewCount', { count }) : t('search.savedNoNew')}
+    </span>
+  )
+}
+
+/**
+ * Recent searches and the user's named searches beside the filter panel. Saved searches rerun with
+ * one click, can be renamed, pinned to Home as a row, and show what is new since their last run.
+ */
+const SavedSearchesPanel = ({
+  currentQuery,
+  canStore,
+  saved,
+  recent,
+  onRun,
+  onSave,
+  onRename,
+  onTogglePinned,
+  onDelete,
+  onClearRecent,
+}: SavedSearchesPanelProps) => {
+  const { t, formatLanguage, formatDate } = useI18n()
+  const movieGenres = useGenres('movie')
+  const tvGenres = useGenres('tv')
+  const [name, setName] = useState('')
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null)
+
+  const describe = (query: string) => {
+    const filters = filtersFromSearchParams(new URLSearchParams(query))
+    const { getGenreName } = filters.mediaType === 'tv' ? tvGenres : movieGenres
+    const genreName = (id: string) => getGenreName(Number(id)) ?? id
+    const keyword = filters.query.trim()
+    const parts = [
+      t(MEDIA_LABEL_KEYS[filters.mediaType]),
+      keyword && `“${keyword}”`,
+      filters.genres.map(genreName).join(filters.genreMode === 'and' ? ' + ' : ' / '),
+      filters.excludedGenres.length > 0 &&
+        t('search.summaryExcluding', { genres: filters.excludedGenres.map(genreName).join(', ') }),
+      [...filters.cast, ...filters.crew].map((person) => person.name).join(', '),
+      filters.keywords.map((keyword) => `#${keyword.name}`).join(' '),
+      filters.originalLanguage && formatLanguage(filters.originalLanguage),
+      filters.year,
+      (filters.releaseFrom || filters.releaseTo) && `${filters.releaseFrom}~${filters.releaseTo}`,
+      filters.rating > 0 && `${filters.rating.toFixed(1)}+`,
+    ]
+    return parts.filter(Boolean).join(' · ')
+  }
+
+  const alreadySaved = saved.some((entry) => entry.query === currentQuery)
+  const canSave = canStore && currentQuery !== '' && !alreadySaved
+
+  const handleSave = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!canSave) return
+    onSave(name.trim() || describe(currentQuery))
+    setName('')
+  }
+
+  const handleRename = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (editing && editing.name.trim()) {
+      onRename(editing.id, editing.name.trim())
+    }
+    setEditing(null)
+  }
+
+  const handleRenameKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Escape') {
+      event.preventDefault()
+      setEditing(null)
+    }
+  }
+
+  return (
+    <section className="search-library" aria-labelledby="saved-searches-title">
+      <div className="search-library__column">
+        <h2 id="saved-searches-title">{t('search.savedTitle')}</h2>
+
+        <form className="search-library__save" onSubmit={handleSave}>
+          <label htmlFor="saved-search-name" className="filter-group__label">
+            {t('search.saveCurrent')}
+          </label>
+          <div className="search-library__save-row">
+            <input
+              id="saved-search-name"
+              type="text"
+              value={name}
+              maxLength={60}
+              placeholder={currentQuery ? describe(currentQuery) : t('search.saveNamePlaceholder')}
+              onChange={(event) => setName(event.target.value)}
+              disabled={!canSave}
+              aria-describedby="saved-search-hint"
+            />
+            <button type="submit" className="ghost-btn" disabled={!canSave}>
+              {t('search.save')}
+            </button>
+          </div>
+          <p id="saved-search-hint" className="filter-group__hint">
+            {!canStore
+              ? t('search.saveSignInAgain')
+              : currentQuery === ''
+                ? t('search.saveNothing')
+                : alreadySaved
+                  ? t('search.saveDuplicate')
+                  : t('search.saveHint')}
+          </p>
+        </form>
+
+        {saved.length === 0 ? (
+          <p className="search-library__empty">{t('search.savedEmpty')}</p>
+        ) : (
+          <ul className="search-library__list">
+            {saved.map((entry) => (
+              <li key={entry.id} className="saved-search">
+                {editing?.id === entry.id ? (
+                  <form className="saved-search__rename" onSubmit={handleRename}>
+                    <input
+                      type="text"
+                      value={editing.name}
+                      maxLength={60}
+                      aria-label={t('search.renameLabel')}
+                      onChange={(event) => setEditing({ id: entry.id, name: event.target.value })}
+                      onKeyDown={handleRenameKeyDown}
+                      autoFocus
+                    />
+                    <button type="submit" className="ghost-btn">
+                      {t('search.renameDone')}
+                    </button>
+                  </form>
+                ) : (
+                  <button
+                    type="button"
+                    className="saved-search__run"
+                    onClick={() => onRun(entry.query, entry.id)}
+                    title={t('search.runSaved')}
+                  >
+                    <strong>{entry.name}</strong>
+                    <span>{describe(entry.query)}</span>
+                  </button>
+                )}
+                <div className="saved-search__meta">
+                  {entry.lastRunAt ? (
+                    <>
+                      <span>
+                        {t('search.savedLastRun', {
+                          date: formatDate(entry.lastRunAt, { dateStyle: 'medium' }) ?? '',
+                        })}
+                      </span>
+                      <NewResultsCount entry={entry} />
+                    </>
+                  ) : (
+                    <span>{t('search.savedNeverRun')}</span>
+                  )}
+                </div>
+                <div className="saved-search__actions">
+                  <button
+                    type="button"
+                    aria-pressed={entry.pinned}
+                    className={entry.pinned ? 'is-active' : ''}
+                    onClick={() => onTogglePinned(entry.id)}
+                  >
+                    {entry.pinned ? t('search.unpin') : t('search.pinToHome')}
+                  </button>
+                  <button type="button" onClick={() => setEditing({ id: entry.id, name: entry.name })}>
+                    {t('search.rename')}
+                  </button>
+                  <button type="button" onClick={() => onDelete(entry.id)}>
+                    {t('search.deleteSaved')}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="search-library__column">
+        <div className="search-library__heading">
+          <h2 id="recent-searches-title">{t('search.recentTitle')}</h2>
+          {recent.length > 0 && (
+            <button type="button" className="search-panel__toggle" onClick={onClearRecent}>
+              {t('search.clearRecent')}
+            </button>
+          )}
+        </div>
+        {recent.length === 0 ? (
+          <p className="search-library__empty">{t('search.recentEmpty')}</p>
+        ) : (
+          <ul className="search-library__recent" aria-labelledby="recent-searches-title">
+            {recent.map((entry) => (
+              <li key={entry.query}>
+                <button
+                  type="button"
+                  className="filter-chip"
+                  onClick={() => onRun(entry.query)}
+                  title={formatDate(entry.ranAt, { dateStyle: 'medium', timeStyle: 'short' }) ?? ''}
+                >
+                  {describe(entry.query)}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </section>
+  )
+}
+
+export default SavedSearchesPanel
@@ -0,0 +1,268 @@
+import { useEffect, useId, useRef, useState } from 'react'
+import type { ChangeEvent, KeyboardEvent } from 'react'
+import { useNavigate } from 'react-router-dom'
+import type { MediaType, Movie, PersonSummary } from '../api/types'
+import { useTmdbClient } from '../hooks/useTmdbClient'
+import { useI18n } from '../i18n/context'
+import TmdbImage from './TmdbImage'
+
+type SearchComboboxProps = {
+  id: string
+  name: string
+  value: string
+  mediaType: MediaType
+  placeholder: string
+  onChange: (event: ChangeEvent<HTMLInputElement>) => void
+}
+
+type Suggestion =
+  | { kind: 'title'; movie: Movie }
+  | { kind: 'person'; person: PersonSummary }
+
+type SuggestionResult = {
+  key: string
+  titles: Movie[]
+  people: PersonSummary[]
+}
+
+const MIN_QUERY_LENGTH = 2
+const MAX_TITLES = 5
+const MAX_PEOPLE = 3
+/** Shorter than the result grid's debounce so suggestions lead the full search. */
+const SUGGEST_DELAY = 200
+
+const toPath = (suggestion: Suggestion, mediaType: MediaType) =>
+  suggestion.kind === 'person'
+    ? `/person/${suggestion.person.id}`
+    : `/${suggestion.movie.media_type ?? mediaType}/${suggestion.movie.id}`
+
+/**
+ * The search box with a typeahead listbox of matching titles and people, following the WAI-ARIA
+ * combobox pattern: focus stays in the input, arrow keys move `aria-activedescendant`, Enter opens
+ * the highlighted suggestion and otherwise submits the form as before.
+ */
+const SearchCombobox = ({
+  id,
+  name,
+  value,
+  mediaType,
+  placeholder,
+  onChange,
+}: SearchComboboxProps) => {
+  const { t } = useI18n()
+  const client = useTmdbClient()
+  const navigate = useNavigate()
+  const listboxId = useId()
+  const [open, setOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(-1)
+  const [result, setResult] = useState<SuggestionResult | null>(null)
+  const requestController = useRef<AbortController | null>(null)
+
+  const query = value.trim()
+  const resultKey = `${client.language}/${mediaType}/${query}`
+  const canSuggest = client.hasKey && query.length >= MIN_QUERY_LENGTH
+  const current = canSuggest && result?.key === resultKey ? result : null
+  const suggestions: Suggestion[] = current
+    ? [
+        ...current.titles.map((movie) => ({ kind: 'title' as const, movie })),
+        ...current.people.map((person) => ({ kind: 'person' as const, person })),
+      ]
+    : []
+  const expanded = open && suggestions.length > 0
+  const optionId = (index: number) => `${listboxId}-option-${index}`
+
+  useEffect(() => {
+    if (!canSuggest) return
+
+    const timer = window.setTimeout(async () => {
+      const controller = new AbortController()
+      requestController.current?.abort()
+      requestController.current = controller
+
+      try {
+        const options = { signal: controller.signal }
+        const [titles, people] = await Promise.all([
+          mediaType === 'tv'
+            ? client.searchTv({ query, page: 1 }, options)
+            : client.searchMovies({ query, page: 1 }, options),
+          client.searchPeople({ query, page: 1 }, options),
+        ])
+        if (controller.signal.aborted) return
+        setResult({
+          key: resultKey,
+          titles: titles.results.slice(0, MAX_TITLES),
+          people: people.results.slice(0, MAX_PEOPLE),
+        })
+      } catch {
+        // Suggestions are a shortcut; the result grid reports search failures.
+      } finally {
+        if (requestController.current === controller) {
+          requestController.current = null
+        }
+      }
+    }, SUGGEST_DELAY)
+
+    return () => window.clearTimeout(timer)
+  }, [canSuggest, client, mediaType, query, resultKey])
+
+  useEffect(() => () => requestController.current?.abort(), [])
+
+  useEffect(() => {
+    if (activeIndex < 0) return
+    document
+      .getElementById(`${listboxId}-option-${activeIndex}`)
+      ?.scrollIntoView({ block: 'nearest' })
+  }, [activeIndex, listboxId])
+
+  const handleChange = (event: ChangeEvent<HTMLInputElement>) => {
+    setOpen(true)
+    setActiveIndex(-1)
+    onChange(event)
+  }
+
+  const handleSelect = (suggestion: Suggestion) => {
+    setOpen(false)
+    navigate(toPath(suggestion, mediaType))
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    const count = suggestions.length
+
+    switch (event.key) {
+      case 'ArrowDown':
+        if (count === 0) return
+        event.preventDefault()
+        if (!expanded) {
+          setOpen(true)
+          setActiveIndex(0)
+        } else {
+          setActiveIndex((index) => (index + 1) % count)
+        }
+        break
+      case 'ArrowUp':
+        if (count === 0) return
+        event.preventDefault()
+        setOpen(true)
+        setActiveIndex((index) => (index <= 0 ? count - 1 : index - 1))
+        break
+      case 'Enter':
+        if (expanded && activeIndex >= 0 && suggestions[activeIndex]) {
+          event.preventDefault()
+          handleSelect(suggestions[activeIndex])
+        } else {
+          setOpen(false)
+        }
+        break
+      case 'Escape':
+        if (!expanded) return
+        event.preventDefault()
+        setOpen(false)
+        setActiveIndex(-1)
+        break
+    }
+  }
+
+  const statusText =
+    !open || !canSuggest
+      ? ''
+      : !current
+        ? t('search.suggestLoading')
+        : suggestions.length > 0
+          ? t('search.suggestCount', { count: suggestions.length })
+          : t('search.suggestNone')
+
+  const renderOption = (suggestion: Suggestion, index: number) => {
+    const active = index === activeIndex
+    const isTitle = suggestion.kind === 'title'
+    const year = isTitle ? suggestion.movie.release_date?.slice(0, 4) : null
+    const knownFor = isTitle ? null : suggestion.person.known_for?.[0]?.title
+
+    return (
+      <li
+        key={`${suggestion.kind}-${isTitle ? suggestion.movie.id : suggestion.person.id}`}
+        id={optionId(index)}
+        role="option"
+        aria-selected={active}
+        className={`search-combobox__option ${active ? 'is-active' : ''}`}
+        onMouseDown={(event) => event.preventDefault()}
+        onClick={() => handleSelect(suggestion)}
+      >
+        <span className="search-combobox__thumb" aria-hidden="true">
+          <TmdbImage
+            path={isTitle ? suggestion.movie.poster_path : suggestion.person.profile_path}
+            kind={isTitle ? 'poster' : 'profile'}
+            alt=""
+            sizes="40px"
+            fallback={null}
+          />
+        </span>
+        <span className="search-combobox__text">
+          <strong>{isTitle ? suggestion.movie.title : suggestion.person.name}</strong>
+          <span>
+            {isTitle
+              ? (year ?? t('search.suggestNoYear'))
+              : [suggestion.person.known_for_department, knownFor].filter(Boolean).join(' · ')}
+          </span>
+        </span>
+      </li>
+    )
+  }
+
+  const titleCount = current?.titles.length ?? 0
+
+  return (
+    <div className="search-combobox">
+      <input
+        id={id}
+        name={name}
+        type="search"
+        role="combobox"
+        placeholder={placeholder}
+        value={value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setOpen(true)}
+        onBlur={() => {
+          setOpen(false)
+          setActiveIndex(-1)
+        }}
+        autoComplete="off"
+        aria-autocomplete="list"
+        aria-expanded={expanded}
+        aria-controls={listboxId}
+        aria-activedescendant={expanded && activeIndex >= 0 ? optionId(activeIndex) : undefined}
+      />
+      <div
+        id={listboxId}
+        role="listbox"
+        aria-label={t('search.suggestions')}
+        className="search-combobox__listbox"
+        hidden={!expanded}
+      >
+        {titleCount > 0 && (
+          <ul role="group" aria-labelledby={`${listboxId}-titles`}>
+            <li id={`${listboxId}-titles`} role="presentation" className="search-combobox__group">
+              {mediaType === 'tv' ? t('search.suggestSeries') : t('search.suggestMovies')}
+            </li>
+            {suggestions.slice(0, titleCount).map(renderOption)}
+          </ul>
+        )}
+        {suggestions.length > titleCount && (
+          <ul role="group" aria-labelledby={`${listboxId}-people`}>
+            <li id={`${listboxId}-people`} role="presentation" className="search-combobox__group">
+              {t('search.suggestPeople')}
+            </li>
+            {suggestions
+              .slice(titleCount)
+              .map((suggestion, index) => renderOption(suggestion, titleCount + index))}
+          </ul>
+        )}
+      </div>
+      <span className="search-combobox__status" role="status">
+        {statusText}
+      </span>
+    </div>
+  )
+}
+
+export default SearchCombobox
@@ -0,0 +1,81 @@
+import { useState, useSyncExternalStore } from 'react'
+import {
+  FALLBACK_POSTER,
+  buildImageSources,
+  getImageSizes,
+  subscribeImageSizes,
+  type TmdbImageKind,
+} from '../api/images'
+
+type TmdbImageProps = {
+  path: string | null | undefined
+  kind: TmdbImageKind
+  alt: string
+  /** The `sizes` attribute: how wide the image renders, so the browser can pick from `srcSet`. */
+  sizes: string
+  className?: string
+  loading?: 'lazy' | 'eager'
+  /** Shown when there is no path or the image fails to load; `null` renders nothing instead. */
+  fallback?: string | null
+}
+
+/**
+ * Every piece of TMDb artwork goes through this component: it emits a `srcSet` built from the
+ * sizes in `/configuration`, keeps a blurred low-res copy underneath until the real image has
+ * loaded, and swaps to the fallback artwork when the request fails.
+ */
+const TmdbImage = ({
+  path,
+  kind,
+  alt,
+  sizes,
+  className = '',
+  loading = 'lazy',
+  fallback = FALLBACK_POSTER,
+}: TmdbImageProps) => {
+  const imageSizes = useSyncExternalStore(subscribeImageSizes, getImageSizes)
+  const sources = buildImageSources(path, kind, imageSizes)
+  // Tracking the failing/loaded URL (not a boolean) resets both states when the path changes.
+  const [failedSrc, setFailedSrc] = useState<string | null>(null)
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null)
+
+  const failed = !sources || failedSrc === sources.src
+  if (failed && !fallback) return null
+
+  const classes = ['tmdb-image', `tmdb-image--${kind}`, className]
+
+  if (failed || !sources) {
+    return (
+      <span className={[...classes, 'is-loaded', 'is-fallback'].join(' ').trim()}>
+        <img src={fallback ?? undefined} alt={alt} loading={loading} />
+      </span>
+    )
+  }
+
+  const isLoaded = loadedSrc === sources.src
+  if (isLoaded) classes.push('is-loaded')
+
+  return (
+    <span className={classes.join(' ').trim()}>
+      {sources.placeholder && !isLoaded && (
+        <span
+          className="tmdb-image__placeholder"
+          style={{ backgroundImage: `url(${sources.placeholder})` }}
+          aria-hidden="true"
+        />
+      )}
+      <img
+        src={sources.src}
+        srcSet={sources.srcSet}
+        sizes={sources.srcSet ? sizes : undefined}
+        alt={alt}
+        loading={loading}
+        decoding="async"
+        onLoad={() => setLoadedSrc(sources.src)}
+        onError={() => setFailedSrc(sources.src)}
+      />
+    </span>
+  )
+}
+
+export default TmdbImage
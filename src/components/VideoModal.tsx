@@ -0,0 +1,161 @@
+import { useEffect, useId, useRef, useState } from 'react'
+import type { KeyboardEvent, MouseEvent } from 'react'
+import { createPortal } from 'react-dom'
+import type { Video } from '../api/types'
+import type { MessageKey } from '../i18n'
+import { useI18n } from '../i18n/context'
+
+type VideoModalProps = {
+  /** Ranked playable videos; the first one plays unless `initialVideo` says otherwise. */
+  videos: Video[]
+  initialVideo?: Video | null
+  title: string
+  onClose: () => void
+}
+
+const VIDEO_TYPE_LABELS: Record<string, MessageKey> = {
+  Trailer: 'video.type.trailer',
+  Teaser: 'video.type.teaser',
+  Clip: 'video.type.clip',
+  Featurette: 'video.type.featurette',
+  'Behind the Scenes': 'video.type.behindTheScenes',
+  Bloopers: 'video.type.bloopers',
+}
+
+const FOCUSABLE = 'button:not([disabled]), [href], iframe, [tabindex]:not([tabindex="-1"])'
+
+const embedUrl = (video: Video) =>
+  `https://www.youtube-nocookie.com/embed/${encodeURIComponent(video.key)}?autoplay=1&rel=0`
+
+/**
+ * Full-screen player for TMDb videos. It is a modal dialog: focus moves to the close button on
+ * open, Tab cycles within the dialog, Escape or a backdrop click closes it, and focus returns to
+ * whatever opened it. Rendered into `document.body` so card hover styles and overflow don't clip
+ * it; events are stopped at the backdrop because React still bubbles them to the opener.
+ */
+const VideoModal = ({ videos, initialVideo, title, onClose }: VideoModalProps) => {
+  const { t } = useI18n()
+  const titleId = useId()
+  const dialogRef = useRef<HTMLDivElement | null>(null)
+  const closeRef = useRef<HTMLButtonElement | null>(null)
+  const [currentId, setCurrentId] = useState(() => (initialVideo ?? videos[0])?.id ?? null)
+  const current = videos.find((video) => video.id === currentId) ?? videos[0] ?? null
+
+  useEffect(() => {
+    const opener = document.activeElement instanceof HTMLElement ? document.activeElement : null
+    const { overflow } = document.body.style
+    document.body.style.overflow = 'hidden'
+    closeRef.current?.focus()
+
+    return () => {
+      document.body.style.overflow = overflow
+      opener?.focus()
+    }
+  }, [])
+
+  const typeLabel = (video: Video) => {
+    const key = VIDEO_TYPE_LABELS[video.type]
+    return key ? t(key) : video.type
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    event.stopPropagation()
+    if (event.key === 'Escape') {
+      event.preventDefault()
+      onClose()
+      return
+    }
+    if (event.key !== 'Tab' || !dialogRef.current) return
+
+    const focusable = Array.from(dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE))
+    if (focusable.length === 0) return
+    const first = focusable[0]
+    const last = focusable[focusable.length - 1]
+    if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault()
+      last.focus()
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault()
+      first.focus()
+    }
+  }
+
+  const handleBackdropClick = (event: MouseEvent<HTMLDivElement>) => {
+    event.stopPropagation()
+    if (event.target === event.currentTarget) onClose()
+  }
+
+  return createPortal(
+    <div className="video-modal" onClick={handleBackdropClick} onKeyDown={handleKeyDown}>
+      <div
+        ref={dialogRef}
+        className="video-modal__dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+      >
+        <header className="video-modal__header">
+          <div>
+            <p className="eyebrow">{current ? typeLabel(current) : t('video.title')}</p>
+            <h2 id={titleId}>{current ? current.name : title}</h2>
+          </div>
+          <button
+            ref={closeRef}
+            type="button"
+            className="video-modal__close"
+            onClick={onClose}
+            aria-label={t('video.close')}
+          >
+            ✕
+          </button>
+        </header>
+
+        {current ? (
+          <div className="video-modal__player">
+            <iframe
+              key={current.id}
+              src={embedUrl(current)}
+              title={t('video.playerTitle', { title, name: current.name })}
+              allow="autoplay; encrypted-media; picture-in-picture; fullscreen"
+              allowFullScreen
+            />
+          </div>
+        ) : (
+          <p className="video-modal__empty">{t('video.empty')}</p>
+        )}
+
+        {/* The playing clip stays in the list (marked current) so focus never lands on a removed button. */}
+        {videos.length > 1 && (
+          <section className="video-modal__others" aria-label={t('video.otherClips')}>
+            <h3>{t('video.otherClips')}</h3>
+            <ul>
+              {videos.map((video) => (
+                <li key={video.id}>
+                  <button
+                    type="button"
+                    className={video.id === current?.id ? 'is-active' : ''}
+                    aria-current={video.id === current?.id}
+                    onClick={() => setCurrentId(video.id)}
+                  >
+                    <img
+                      src={`https://i.ytimg.com/vi/${encodeURIComponent(video.key)}/mqdefault.jpg`}
+                      alt=""
+                      loading="lazy"
+                    />
+                    <span>
+                      <strong>{video.name}</strong>
+                      <small>{typeLabel(video)}</small>
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </div>,
+    document.body,
+  )
+}
+
+export default VideoModal
@@ -0,0 +1,78 @@
+import type { RegionalWatchProviders, WatchProviderGroup } from '../api/types'
+import type { MessageKey } from '../i18n'
+import { useI18n } from '../i18n/context'
+import TmdbImage from './TmdbImage'
+
+type WatchProvidersSectionProps = {
+  providers: RegionalWatchProviders | null
+  regionName: string
+  isSubscribed: (providerId: number) => boolean
+}
+
+const GROUPS: { group: WatchProviderGroup; labelKey: MessageKey }[] = [
+  { group: 'flatrate', labelKey: 'providers.stream' },
+  { group: 'free', labelKey: 'providers.free' },
+  { group: 'ads', labelKey: 'providers.ads' },
+  { group: 'rent', labelKey: 'providers.rent' },
+  { group: 'buy', labelKey: 'providers.buy' },
+]
+
+/**
+ * "Where to watch" for the selected region, grouped into stream/rent/buy. Services the user
+ * marked as subscribed on the profile page are highlighted. TMDb's terms require crediting
+ * JustWatch, which the footer link does.
+ */
+const WatchProvidersSection = ({ providers, regionName, isSubscribed }: WatchProvidersSectionProps) => {
+  const { t } = useI18n()
+  const groups = GROUPS.filter(({ group }) => providers?.[group]?.length)
+
+  return (
+    <section className="watch-providers" aria-labelledby="watch-providers-title">
+      <h2 id="watch-providers-title">{t('providers.title', { region: regionName })}</h2>
+      {groups.length === 0 ? (
+        <p className="watch-providers__empty">{t('providers.none', { region: regionName })}</p>
+      ) : (
+        <div className="watch-providers__groups">
+          {groups.map(({ group, labelKey }) => (
+            <div key={group} className="watch-providers__group">
+              <h3>{t(labelKey)}</h3>
+              <ul>
+                {providers?.[group]?.map((provider) => {
+                  const subscribed = isSubscribed(provider.provider_id)
+                  return (
+                    <li
+                      key={provider.provider_id}
+                      className={`provider-chip ${subscribed ? 'is-subscribed' : ''}`}
+                    >
+                      <TmdbImage
+                        path={provider.logo_path}
+                        kind="logo"
+                        alt=""
+                        sizes="32px"
+                        fallback={null}
+                      />
+                      <span>{provider.provider_name}</span>
+                      {subscribed && <small>{t('providers.subscribed')}</small>}
+                    </li>
+                  )
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+      {providers?.link && (
+        <a
+          className="watch-providers__credit"
+          href={providers.link}
+          target="_blank"
+          rel="noopener noreferrer"
+        >
+          {t('providers.credit')}
+        </a>
+      )}
+    </section>
+  )
+}
+
+export default WatchProvidersSection
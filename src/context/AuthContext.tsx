@@ -2,6 +2,7 @@ import { createContext, useContext, useEffect, useMemo, useState } from 'react'
 import type { ReactNode } from 'react'
 import {
   clearLoginState,
+  getCurrentUserId,
   getStoredTmdbKey,
   isLoggedIn,
   persistLoginState,
@@ -10,7 +11,9 @@ import {
 type AuthContextValue = {
   isAuthenticated: boolean
   tmdbKey: string
-  loginWithKey: (tmdbKey: string) => void
+  /** Email of the signed-in account; per-user data on this device is stored under it. */
+  userId: string
+  loginWithKey: (tmdbKey: string, userId: string) => void
   logout: () => void
 }
 
@@ -19,23 +22,27 @@ const AuthContext = createContext<AuthContextValue | undefined>(undefined)
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [isAuthenticated, setIsAuthenticated] = useState(() => isLoggedIn())
   const [tmdbKey, setTmdbKey] = useState(() => getStoredTmdbKey())
+  const [userId, setUserId] = useState(() => getCurrentUserId())
 
-  const loginWithKey = (key: string) => {
-    persistLoginState(key)
+  const loginWithKey = (key: string, id: string) => {
+    persistLoginState(key, id)
     setIsAuthenticated(true)
     setTmdbKey(key)
+    setUserId(id)
   }
 
   const logout = () => {
     clearLoginState()
     setIsAuthenticated(false)
     setTmdbKey('')
+    setUserId('')
   }
 
   useEffect(() => {
     const syncAuth = () => {
       setIsAuthenticated(isLoggedIn())
       setTmdbKey(getStoredTmdbKey())
+      setUserId(getCurrentUserId())
     }
 
     window.addEventListener('storage', syncAuth)
@@ -46,10 +53,11 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     () => ({
       isAuthenticated,
       tmdbKey,
+      userId,
       loginWithKey,
       logout,
     }),
-    [isAuthenticated, tmdbKey],
+    [isAuthenticated, tmdbKey, userId],
   )
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import type { ReactNode } from 'react'
+import {
+  LOCALES,
+  LOCALE_STORAGE_KEY,
+  applyDocumentLanguage,
+  formatDate,
+  formatLanguage,
+  formatNumber,
+  formatRegion,
+  formatRuntime,
+  getStoredLocale,
+  saveLocalePreference,
+  translate,
+  type Locale,
+} from '../i18n'
+import { I18nContext } from '../i18n/context'
+import {
+  REGION_STORAGE_KEY,
+  getStoredRegion,
+  saveRegionPreference,
+  type Region,
+} from '../i18n/region'
+
+export const LocaleProvider = ({ children }: { children: ReactNode }) => {
+  const [locale, setLocaleState] = useState<Locale>(() => getStoredLocale())
+  const [region, setRegionState] = useState<Region>(() => getStoredRegion())
+
+  useEffect(() => {
+    saveLocalePreference(locale)
+    applyDocumentLanguage(locale)
+  }, [locale])
+
+  useEffect(() => {
+    const syncLocale = (event: StorageEvent) => {
+      if (!event.key || event.key === LOCALE_STORAGE_KEY) {
+        setLocaleState(getStoredLocale())
+      }
+      if (!event.key || event.key === REGION_STORAGE_KEY) {
+        setRegionState(getStoredRegion())
+      }
+    }
+
+    window.addEventListener('storage', syncLocale)
+    return () => window.removeEventListener('storage', syncLocale)
+  }, [])
+
+  const setLocale = useCallback((next: Locale) => {
+    // Apply before re-rendering so errors created during the next fetch use the new language.
+    applyDocumentLanguage(next)
+    setLocaleState(next)
+  }, [])
+
+  // Saved only on an explicit choice, so users who never pick one keep following the browser.
+  const setRegion = useCallback((next: Region) => {
+    saveRegionPreference(next)
+    setRegionState(next)
+  }, [])
+
+  const value = useMemo(
+    () => ({
+      locale,
+      tmdbLanguage: LOCALES[locale].tmdbLanguage,
+      setLocale,
+      region,
+      setRegion,
+      t: (key: Parameters<typeof translate>[1], params?: Parameters<typeof translate>[2]) =>
+        translate(locale, key, params),
+      formatDate: (value: string | number | Date, options?: Intl.DateTimeFormatOptions) =>
+        formatDate(locale, value, options),
+      formatNumber: (value: number, options?: Intl.NumberFormatOptions) =>
+        formatNumber(locale, value, options),
+      formatRegion: (code: string) => formatRegion(locale, code),
+      formatLanguage: (code: string) => formatLanguage(locale, code),
+      formatRuntime: (minutes: number | null | undefined) => formatRuntime(locale, minutes),
+    }),
+    [locale, region, setLocale, setRegion],
+  )
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
+
+export default LocaleProvider
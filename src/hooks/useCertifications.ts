@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react'
+import type { Certification } from '../api/types'
+import { useTmdbClient } from './useTmdbClient'
+
+/**
+ * The movie ratings used in a region (e.g. `12`, `15`, `18` for KR), lowest first. The Discover
+ * certification filter is region-specific, so the list follows the app's region setting.
+ */
+export const useCertifications = (region: string, { enabled = true } = {}) => {
+  const client = useTmdbClient()
+  const requestKey = `${client.language}/${region}`
+  const [result, setResult] = useState<{ key: string; certifications: Certification[] } | null>(
+    null,
+  )
+  const certifications = result?.key === requestKey ? result.certifications : null
+
+  useEffect(() => {
+    if (!enabled || !client.hasKey) return
+
+    const controller = new AbortController()
+    client
+      .getCertifications(region, { signal: controller.signal })
+      .then((list) => {
+        if (!controller.signal.aborted) setResult({ key: requestKey, certifications: list })
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setResult({ key: requestKey, certifications: [] })
+      })
+
+    return () => controller.abort()
+  }, [client, enabled, region, requestKey])
+
+  return { certifications: certifications ?? [] }
+}
+
+export default useCertifications
@@ -0,0 +1,33 @@
+import { useEffect } from 'react'
+import { applyGenreList } from '../api/genres'
+import type { Genre, MediaType } from '../api/types'
+import { useTmdbClient } from './useTmdbClient'
+
+const MEDIA_TYPES: MediaType[] = ['movie', 'tv']
+
+/**
+ * Loads the movie and TV genre lists for the client language into the shared genre catalog, once
+ * per language. Failures are ignored: cards simply omit genre chips and the Search genre select
+ * offers "all genres" only.
+ */
+export const useGenreCatalog = () => {
+  const client = useTmdbClient()
+
+  useEffect(() => {
+    if (!client.hasKey) return
+
+    const controller = new AbortController()
+    MEDIA_TYPES.forEach((mediaType) => {
+      const apply = (genres: Genre[]) =>
+        applyGenreList(client.language, mediaType, genres)
+      client
+        .getGenres(mediaType, { signal: controller.signal, onCached: apply })
+        .then(apply)
+        .catch(() => undefined)
+    })
+
+    return () => controller.abort()
+  }, [client])
+}
+
+export default useGenreCatalog
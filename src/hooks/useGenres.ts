@@ -0,0 +1,28 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react'
+import { getGenreList, subscribeGenres } from '../api/genres'
+import type { MediaType } from '../api/types'
+import { useI18n } from '../i18n/context'
+
+/**
+ * Reads one media type's genres from the shared catalog in the UI language, sorted by name for
+ * pickers. Empty until `useGenreCatalog` (mounted by the layout) has loaded them.
+ */
+export const useGenres = (mediaType: MediaType = 'movie') => {
+  const { locale, tmdbLanguage } = useI18n()
+  const genres = useSyncExternalStore(subscribeGenres, () => getGenreList(tmdbLanguage, mediaType))
+
+  const sortedGenres = useMemo(
+    () => genres.slice().sort((a, b) => a.name.localeCompare(b.name, locale)),
+    [genres, locale],
+  )
+  const namesById = useMemo(
+    () => new Map(genres.map((genre) => [genre.id, genre.name])),
+    [genres],
+  )
+
+  const getGenreName = useCallback((id: number) => namesById.get(id) ?? null, [namesById])
+
+  return { genres: sortedGenres, getGenreName }
+}
+
+export default useGenres
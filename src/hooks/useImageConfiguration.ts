@@ -0,0 +1,25 @@
+import { useEffect } from 'react'
+import { applyImageConfiguration } from '../api/images'
+import { useTmdbClient } from './useTmdbClient'
+
+/**
+ * Loads TMDb's image configuration once per client and feeds the size lists to `TmdbImage`.
+ * Failures are ignored: the built-in defaults match what TMDb normally returns.
+ */
+export const useImageConfiguration = () => {
+  const client = useTmdbClient()
+
+  useEffect(() => {
+    if (!client.hasKey) return
+
+    const controller = new AbortController()
+    client
+      .getConfiguration({ signal: controller.signal, onCached: applyImageConfiguration })
+      .then(applyImageConfiguration)
+      .catch(() => undefined)
+
+    return () => controller.abort()
+  }, [client])
+}
+
+export default useImageConfiguration
@@ -1,125 +1,215 @@
-import { useEffect, useState } from 'react'
-import { getStoredTmdbKey } from '../utils/auth'
-
-export type Movie = {
-  id: number
-  title: string
-  name?: string
-  overview: string
-  poster_path: string | null
-  backdrop_path?: string | null
-  release_date?: string
-  vote_average?: number
-  genre_ids?: number[]
-  popularity?: number
-  vote_count?: number
-}
-
-type UseMoviesResult = {
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { getTmdbErrorMessage, isAbortError } from '../api/errors'
+import type { RetryInfo } from '../api/scheduler'
+import type { MoviePage, QueryParams } from '../api/tmdb'
+import type { Movie } from '../api/types'
+import { useI18n } from '../i18n/context'
+import { useTmdbClient } from './useTmdbClient'
+
+export type { Movie } from '../api/types'
+
+export type UseMoviesResult = {
+  /** Every page loaded so far, merged in order and deduplicated by id. */
   movies: Movie[]
+  page: number
+  totalPages: number
+  totalResults: number
+  hasMore: boolean
+  hasFetched: boolean
   loading: boolean
+  /** True while `loadMore` appends the next page. */
+  loadingMore: boolean
+  /** Cached movies are on screen while a fresh copy is being fetched. */
+  revalidating: boolean
+  /** Set while the scheduler waits to retry a failed request. */
+  retry: RetryInfo | null
   error: string | null
+  loadMore: () => void
+  goToPage: (page: number) => void
+  /** Re-runs the last page request without the cache; also serves as the error retry. */
+  refetch: () => void
 }
 
+/** What a feed has loaded, enough to show it again without refetching. */
+export type MoviesSnapshot = Pick<UseMoviesResult, 'movies' | 'page' | 'totalPages' | 'totalResults'>
+
 type UseMoviesOptions = {
   tmdbKey?: string
+  /** Extra query parameters sent with every page (e.g. `region`). Keep the object referentially stable. */
+  params?: QueryParams
+  /** The page to load first, e.g. one read from the URL. */
+  initialPage?: number
+  /** A feed loaded earlier; it is shown as it was and replaces the first request. */
+  snapshot?: MoviesSnapshot | null
 }
 
-const TMDB_BASE_URL = 'https://api.themoviedb.org/3'
-const movieCache = new Map<string, Movie[]>()
+type PageRequest = {
+  page: number
+  append: boolean
+}
 
-const canAbort = (error: unknown) =>
-  error instanceof DOMException && (error.name === 'AbortError' || error.code === 20)
+/** TMDb refuses `page` values above 500 even when `total_pages` is larger. */
+export const MAX_TMDB_PAGE = 500
 
-const isV4Token = (key: string) => key.trim().startsWith('eyJ')
+const mergeMovies = (current: Movie[], incoming: Movie[]) => {
+  const incomingById = new Map(incoming.map((movie) => [movie.id, movie]))
+  const knownIds = new Set(current.map((movie) => movie.id))
+  const refreshed = current.map((movie) => incomingById.get(movie.id) ?? movie)
+  const added = incoming.filter((movie) => !knownIds.has(movie.id))
+  return [...refreshed, ...added]
+}
 
 export const useMovies = (endpoint: string, options?: UseMoviesOptions): UseMoviesResult => {
-  const [movies, setMovies] = useState<Movie[]>(() => movieCache.get(endpoint) ?? [])
-  const [loading, setLoading] = useState(() => !movieCache.has(endpoint))
+  const client = useTmdbClient(options?.tmdbKey)
+  const params = options?.params
+  const initialPage = options?.initialPage ?? 1
+  const snapshot = options?.snapshot
+  const { t } = useI18n()
+  const [movies, setMovies] = useState<Movie[]>(
+    () =>
+      snapshot?.movies ??
+      client.peekPage(endpoint, { ...params, page: initialPage })?.value.results ??
+      [],
+  )
+  const [page, setPage] = useState(snapshot?.page ?? initialPage)
+  const [totalPages, setTotalPages] = useState(snapshot?.totalPages ?? 0)
+  const [totalResults, setTotalResults] = useState(snapshot?.totalResults ?? 0)
+  const [hasFetched, setHasFetched] = useState(!!snapshot)
+  const [loading, setLoading] = useState(
+    () => !snapshot && !client.peekPage(endpoint, { ...params, page: initialPage }),
+  )
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [revalidating, setRevalidating] = useState(false)
+  const [retry, setRetry] = useState<RetryInfo | null>(null)
   const [error, setError] = useState<string | null>(null)
-  const resolvedKey = options?.tmdbKey?.trim() ?? null
 
-  useEffect(() => {
-    let ignore = false
-    const controller = new AbortController()
-    const fallbackKey = getStoredTmdbKey()
-    const tmdbKey = (resolvedKey ?? fallbackKey).trim()
-
-    if (!tmdbKey) {
-      setMovies([])
-      setLoading(false)
-      setError('영화를 불러오려면 로그인 화면에서 TMDB 키를 등록해주세요.')
-      return () => {
-        controller.abort()
+  const requestController = useRef<AbortController | null>(null)
+  const lastRequestRef = useRef<PageRequest>({ page: initialPage, append: false })
+  // The snapshot stands in for the first request only while the feed it came from is unchanged.
+  const [restoredFrom] = useState(() => (snapshot ? { client, endpoint, params } : null))
+
+  const fetchPage = useCallback(
+    async (targetPage: number, { append = false, reload = false } = {}) => {
+      lastRequestRef.current = { page: targetPage, append }
+
+      if (!client.hasKey) {
+        setMovies([])
+        setLoading(false)
+        setError(t('errors.missingKey'))
+        return
       }
-    }
 
-    const fetchMovies = async () => {
+      const controller = new AbortController()
+      requestController.current?.abort()
+      requestController.current = controller
+      let hasCached = false
       setLoading(true)
+      setLoadingMore(append)
       setError(null)
 
-      try {
-        const useBearer = isV4Token(tmdbKey)
-        const url = new URL(`${TMDB_BASE_URL}${endpoint}`)
-        if (!useBearer) {
-          url.searchParams.set('api_key', tmdbKey)
-        }
-
-        const headers: HeadersInit = {
-          Accept: 'application/json',
-        }
-
-        if (useBearer) {
-          headers.Authorization = `Bearer ${tmdbKey}`
-        }
-
-        const response = await fetch(url.toString(), {
-          headers,
-          signal: controller.signal,
-        })
-
-        if (!response.ok) {
-          if (response.status === 401) {
-            throw new Error('TMDB에서 제공된 API 키를 거부했습니다. 키를 다시 확인한 뒤 시도해주세요.')
-          }
-          throw new Error('영화 데이터를 불러올 수 없습니다. 잠시 후 다시 시도해주세요.')
-        }
-
-        const payload = (await response.json()) as { results?: Movie[] }
-        const normalized = (payload.results ?? []).map((movie) => ({
-          ...movie,
-          title: movie.title || movie.name || '제목 미정',
-        }))
+      const applyPage = (payload: MoviePage) => {
+        setMovies((current) => (append ? mergeMovies(current, payload.results) : payload.results))
+        setPage(payload.page)
+        setTotalPages(payload.total_pages)
+        setTotalResults(payload.total_results)
+        setHasFetched(true)
+      }
 
-        if (!ignore) {
-          setMovies(normalized)
-          movieCache.set(endpoint, normalized)
-        }
+      try {
+        const payload = await client.getPage(
+          endpoint,
+          {
+            params: { ...params, page: targetPage },
+            signal: controller.signal,
+            reload,
+            onCached: (cached, { stale }) => {
+              hasCached = true
+              applyPage(cached)
+              setLoading(false)
+              setLoadingMore(false)
+              setRevalidating(stale)
+            },
+            onRetry: setRetry,
+          },
+          targetPage,
+        )
+        applyPage(payload)
       } catch (fetchError) {
-        if (canAbort(fetchError) || ignore) return
+        if (isAbortError(fetchError) || controller.signal.aborted) return
 
-        setMovies([])
-        setError(
-          fetchError instanceof Error
-            ? fetchError.message
-            : '영화를 불러오는 중 문제가 발생했습니다.',
-        )
+        // Keep showing the stale copy (or the previous pages) when a request fails.
+        if (!hasCached) {
+          setError(getTmdbErrorMessage(fetchError, t('errors.moviesFailed')))
+        }
       } finally {
-        if (!ignore) {
+        if (requestController.current === controller) {
+          requestController.current = null
           setLoading(false)
+          setLoadingMore(false)
+          setRevalidating(false)
+          setRetry(null)
         }
       }
-    }
+    },
+    [client, endpoint, params, t],
+  )
 
-    fetchMovies()
+  useEffect(() => {
+    const restored =
+      restoredFrom?.client === client &&
+      restoredFrom.endpoint === endpoint &&
+      restoredFrom.params === params
+    if (!restored) {
+      setMovies(client.peekPage(endpoint, { ...params, page: initialPage })?.value.results ?? [])
+      setPage(initialPage)
+      setTotalPages(0)
+      setTotalResults(0)
+      setHasFetched(false)
+      fetchPage(initialPage)
+    }
 
     return () => {
-      ignore = true
-      controller.abort()
+      requestController.current?.abort()
     }
-  }, [endpoint, resolvedKey])
-
-  return { movies, loading, error }
+  }, [client, endpoint, params, fetchPage, initialPage, restoredFrom])
+
+  const lastPage = Math.min(totalPages, MAX_TMDB_PAGE)
+  const hasMore = page < lastPage
+
+  const loadMore = useCallback(() => {
+    if (loading || !hasMore) return
+    fetchPage(page + 1, { append: true })
+  }, [fetchPage, hasMore, loading, page])
+
+  const goToPage = useCallback(
+    (targetPage: number) => {
+      const upperBound = lastPage > 0 ? lastPage : targetPage
+      fetchPage(Math.min(Math.max(1, Math.floor(targetPage)), upperBound))
+    },
+    [fetchPage, lastPage],
+  )
+
+  const refetch = useCallback(() => {
+    const { page: lastRequested, append } = lastRequestRef.current
+    fetchPage(lastRequested, { append, reload: true })
+  }, [fetchPage])
+
+  return {
+    movies,
+    page,
+    totalPages,
+    totalResults,
+    hasMore,
+    hasFetched,
+    loading,
+    loadingMore,
+    revalidating,
+    retry,
+    error,
+    loadMore,
+    goToPage,
+    refetch,
+  }
 }
 
 export default useMovies
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from 'react'
+import { getTmdbErrorMessage } from '../api/errors'
+import type { ReviewsPage } from '../api/types'
+import { useI18n } from '../i18n/context'
+import { useTmdbClient } from './useTmdbClient'
+
+type ReviewsResult = {
+  key: string
+  reviews: ReviewsPage | null
+  error: string | null
+}
+
+/**
+ * Loads one page of a movie's reviews, falling back to English when the UI language has none.
+ * Results are tagged with what was requested, so switching pages never flashes the old page's
+ * reviews under the new page number.
+ */
+export const useReviews = (id: number | string | undefined, page: number) => {
+  const client = useTmdbClient()
+  const { t, tmdbLanguage } = useI18n()
+  const [attempt, setAttempt] = useState(0)
+  const requestKey = `${tmdbLanguage}/${id}/${page}/${attempt}`
+  const [result, setResult] = useState<ReviewsResult | null>(null)
+  const current = result?.key === requestKey ? result : null
+
+  useEffect(() => {
+    if (!id || !client.hasKey) return
+
+    const controller = new AbortController()
+    client
+      .getReviews(id, page, { signal: controller.signal })
+      .then((reviews) => {
+        if (!controller.signal.aborted) setResult({ key: requestKey, reviews, error: null })
+      })
+      .catch((fetchError) => {
+        if (controller.signal.aborted) return
+        setResult({
+          key: requestKey,
+          reviews: null,
+          error: getTmdbErrorMessage(fetchError, t('reviews.failed')),
+        })
+      })
+
+    return () => controller.abort()
+  }, [client, id, page, requestKey, t])
+
+  const retry = useCallback(() => setAttempt((value) => value + 1), [])
+
+  return {
+    reviews: current?.reviews ?? null,
+    error: current?.error ?? null,
+    loading: !current && !!id && client.hasKey,
+    // The page count from the last response, so the pager stays put while the next page loads.
+    totalPages: result?.reviews?.total_pages ?? 0,
+    retry,
+  }
+}
+
+export default useReviews
@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useAuth } from '../context/AuthContext'
+
+export type SavedSearch = {
+  id: string
+  name: string
+  /** The search as a `/search` query string, see `filtersToSearchParams`. */
+  query: string
+  /** Shown as a row of its own on Home. */
+  pinned: boolean
+  createdAt: number
+  lastRunAt: number | null
+  /** `${media_type}-${id}` of what the last run loaded; anything else is new since then. */
+  lastResultKeys: string[]
+}
+
+export type RecentSearch = {
+  query: string
+  ranAt: number
+}
+
+type SearchLibrary = {
+  saved: SavedSearch[]
+  recent: RecentSearch[]
+}
+
+const STORAGE_KEY = 'savedSearches'
+
+const MAX_RECENT = 8
+
+const EMPTY_LIBRARY: SearchLibrary = { saved: [], recent: [] }
+
+const canUseStorage = () => typeof window !== 'undefined' && !!window.localStorage
+
+/** Every account's library on this device, keyed by user id. */
+const readAllLibraries = (): Record<string, SearchLibrary> => {
+  if (!canUseStorage()) return {}
+  const raw = window.localStorage.getItem(STORAGE_KEY)
+  if (!raw) return {}
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, SearchLibrary>
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+const readLibrary = (userId: string): SearchLibrary => {
+  const library = readAllLibraries()[userId]
+  if (!library) return EMPTY_LIBRARY
+
+  return {
+    saved: Array.isArray(library.saved)
+      ? library.saved.filter(
+          (entry) => typeof entry?.id === 'string' && typeof entry?.query === 'string',
+        )
+      : [],
+    recent: Array.isArray(library.recent)
+      ? library.recent.filter((entry) => typeof entry?.query === 'string')
+      : [],
+  }
+}
+
+/** History state for links that rerun a saved search, e.g. its row's "more" link on Home. */
+export const toSavedRunState = (id: string) => ({ savedSearchRun: id })
+
+export const readSavedRunId = (state: unknown) =>
+  typeof state === 'object' &&
+  state !== null &&
+  'savedSearchRun' in state &&
+  typeof state.savedSearchRun === 'string'
+    ? state.savedSearchRun
+    : null
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+/**
+ * Recent and named searches for the signed-in user. Searches are stored as query strings, so a
+ * saved search reruns exactly like the shared link it would make.
+ */
+export const useSavedSearches = () => {
+  const { userId } = useAuth()
+  const [library, setLibrary] = useState<{ userId: string; value: SearchLibrary }>(() => ({
+    userId,
+    value: readLibrary(userId),
+  }))
+  // Signing in as someone else swaps the library instead of carrying the previous one over.
+  const current = library.userId === userId ? library.value : readLibrary(userId)
+
+  useEffect(() => {
+    if (!canUseStorage() || !library.userId) return
+    const all = readAllLibraries()
+    window.localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ ...all, [library.userId]: library.value }),
+    )
+  }, [library])
+
+  useEffect(() => {
+    if (!canUseStorage()) return undefined
+
+    const syncFromStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) {
+        setLibrary({ userId, value: readLibrary(userId) })
+      }
+    }
+
+    window.addEventListener('storage', syncFromStorage)
+    return () => window.removeEventListener('storage', syncFromStorage)
+  }, [userId])
+
+  const update = useCallback(
+    (change: (value: SearchLibrary) => SearchLibrary) => {
+      setLibrary((state) => {
+        const base = state.userId === userId ? state.value : readLibrary(userId)
+        const value = change(base)
+        return value === base && state.userId === userId ? state : { userId, value }
+      })
+    },
+    [userId],
+  )
+
+  /** Moves `query` to the top of the recent list, keeping it to the last few distinct searches. */
+  const addRecent = useCallback(
+    (query: string) => {
+      update((value) => ({
+        ...value,
+        recent: [
+          { query, ranAt: Date.now() },
+          ...value.recent.filter((entry) => entry.query !== query),
+        ].slice(0, MAX_RECENT),
+      }))
+    },
+    [update],
+  )
+
+  const clearRecent = useCallback(() => {
+    update((value) => ({ ...value, recent: [] }))
+  }, [update])
+
+  const saveSearch = useCallback(
+    (name: string, query: string) => {
+      update((value) => ({
+        ...value,
+        saved: [
+          {
+            id: createId(),
+            name,
+            query,
+            pinned: false,
+            createdAt: Date.now(),
+            lastRunAt: null,
+            lastResultKeys: [],
+          },
+          ...value.saved,
+        ],
+      }))
+    },
+    [update],
+  )
+
+  const updateSaved = useCallback(
+    (id: string, change: (entry: SavedSearch) => SavedSearch) => {
+      update((value) => ({
+        ...value,
+        saved: value.saved.map((entry) => (entry.id === id ? change(entry) : entry)),
+      }))
+    },
+    [update],
+  )
+
+  const renameSearch = useCallback(
+    (id: string, name: string) => updateSaved(id, (entry) => ({ ...entry, name })),
+    [updateSaved],
+  )
+
+  const togglePinned = useCallback(
+    (id: string) => updateSaved(id, (entry) => ({ ...entry, pinned: !entry.pinned })),
+    [updateSaved],
+  )
+
+  /**
+   * Records the first page a rerun of the saved search loaded, resetting its "new results" count.
+   * Only explicit reruns count, and only page 1, which is what the Home preview compares against.
+   */
+  const markRun = useCallback(
+    (id: string, resultKeys: string[]) =>
+      updateSaved(id, (entry) => ({ ...entry, lastRunAt: Date.now(), lastResultKeys: resultKeys })),
+    [updateSaved],
+  )
+
+  const deleteSearch = useCallback(
+    (id: string) => {
+      update((value) => ({ ...value, saved: value.saved.filter((entry) => entry.id !== id) }))
+    },
+    [update],
+  )
+
+  return {
+    /** False for sessions from before accounts were recorded; their changes last until reload. */
+    canStore: userId !== '',
+    saved: current.saved,
+    recent: current.recent,
+    addRecent,
+    clearRecent,
+    saveSearch,
+    renameSearch,
+    togglePinned,
+    markRun,
+    deleteSearch,
+  }
+}
+
+export default useSavedSearches
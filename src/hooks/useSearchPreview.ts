@@ -0,0 +1,92 @@
+import { useEffect, useMemo, useState } from 'react'
+import { getTmdbErrorMessage } from '../api/errors'
+import type { RetryInfo } from '../api/scheduler'
+import { useI18n } from '../i18n/context'
+import {
+  applyFilterPipeline,
+  filtersFromSearchParams,
+  requestSearchPage,
+} from '../utils/searchFilters'
+import type { Movie } from './useMovies'
+import { useSubscriptions } from './useSubscriptions'
+import { useTmdbClient } from './useTmdbClient'
+
+type PreviewResult = {
+  key: string
+  movies: Movie[]
+  error: string | null
+}
+
+/**
+ * The first page of a stored search (a `/search` query string), filtered the way the Search page
+ * would. Saved-search rows on Home and the "new since last run" counts are built from it.
+ */
+export const useSearchPreview = (query: string) => {
+  const client = useTmdbClient()
+  const { t, region } = useI18n()
+  const { subscriptions } = useSubscriptions()
+  const [result, setResult] = useState<PreviewResult | null>(null)
+  const [retry, setRetry] = useState<RetryInfo | null>(null)
+  const [attempt, setAttempt] = useState(0)
+
+  const providerIds = useMemo(
+    () => subscriptions.map((provider) => provider.provider_id).join('|'),
+    [subscriptions],
+  )
+  const requestKey = `${client.language}/${region}/${providerIds}/${query}/${attempt}`
+  const current = result?.key === requestKey ? result : null
+
+  useEffect(() => {
+    if (!client.hasKey) return
+
+    const filters = filtersFromSearchParams(new URLSearchParams(query))
+    const controller = new AbortController()
+    requestSearchPage(
+      client,
+      filters,
+      1,
+      { region, providerIds },
+      {
+        signal: controller.signal,
+        onCached: (cached) =>
+          setResult({
+            key: requestKey,
+            movies: applyFilterPipeline(cached.results, filters),
+            error: null,
+          }),
+        onRetry: setRetry,
+      },
+    )
+      .then((payload) => {
+        if (controller.signal.aborted) return
+        setResult({
+          key: requestKey,
+          movies: applyFilterPipeline(payload.results, filters),
+          error: null,
+        })
+      })
+      .catch((fetchError) => {
+        if (controller.signal.aborted) return
+        setResult({
+          key: requestKey,
+          movies: [],
+          error: getTmdbErrorMessage(fetchError, t('search.failed')),
+        })
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setRetry(null)
+      })
+
+    return () => controller.abort()
+  }, [client, providerIds, query, region, requestKey, t])
+
+  return {
+    movies: current?.movies ?? [],
+    loading: client.hasKey && !current,
+    error: current?.error ?? null,
+    retry,
+    refetch: () => setAttempt((value) => value + 1),
+  }
+}
+
+export default useSearchPreview
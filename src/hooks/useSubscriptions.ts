@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { WatchProvider } from '../api/types'
+
+/** Enough of a provider to label it without refetching the catalog. */
+export type SubscribedProvider = Pick<WatchProvider, 'provider_id' | 'provider_name' | 'logo_path'>
+
+const STORAGE_KEY = 'streamingSubscriptions'
+
+const canUseStorage = () => typeof window !== 'undefined' && !!window.localStorage
+
+const readSubscriptions = (): SubscribedProvider[] => {
+  if (!canUseStorage()) return []
+  const raw = window.localStorage.getItem(STORAGE_KEY)
+  if (!raw) return []
+
+  try {
+    const parsed = JSON.parse(raw) as SubscribedProvider[]
+    if (!Array.isArray(parsed)) return []
+    return parsed.filter(
+      (item) => typeof item?.provider_id === 'number' && typeof item?.provider_name === 'string',
+    )
+  } catch {
+    return []
+  }
+}
+
+/**
+ * The streaming services the user says they pay for. Provider ids are global on TMDb (Netflix is
+ * 8 everywhere), so one list serves every region.
+ */
+export const useSubscriptions = () => {
+  const [subscriptions, setSubscriptions] = useState<SubscribedProvider[]>(() =>
+    readSubscriptions(),
+  )
+
+  useEffect(() => {
+    if (!canUseStorage()) return
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(subscriptions))
+  }, [subscriptions])
+
+  useEffect(() => {
+    if (!canUseStorage()) return undefined
+
+    const syncFromStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) {
+        setSubscriptions(readSubscriptions())
+      }
+    }
+
+    window.addEventListener('storage', syncFromStorage)
+    return () => window.removeEventListener('storage', syncFromStorage)
+  }, [])
+
+  const isSubscribed = useCallback(
+    (providerId: number) => subscriptions.some((item) => item.provider_id === providerId),
+    [subscriptions],
+  )
+
+  const toggleSubscription = useCallback((provider: SubscribedProvider) => {
+    setSubscriptions((current) => {
+      if (current.some((item) => item.provider_id === provider.provider_id)) {
+        return current.filter((item) => item.provider_id !== provider.provider_id)
+      }
+      const { provider_id, provider_name, logo_path } = provider
+      return [...current, { provider_id, provider_name, logo_path }]
+    })
+  }, [])
+
+  return { subscriptions, isSubscribed, toggleSubscription }
+}
+
+export default useSubscriptions
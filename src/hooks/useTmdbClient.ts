@@ -0,0 +1,23 @@
+import { useMemo } from 'react'
+import { createTmdbClient } from '../api/tmdb'
+import { useAuth } from '../context/AuthContext'
+import { useI18n } from '../i18n/context'
+import { getStoredTmdbKey } from '../utils/auth'
+
+/**
+ * Returns a TMDb client bound to the signed-in user's key and the selected UI language. An explicit
+ * key wins over the auth context, which in turn falls back to LocalStorage for tabs that have not
+ * synced yet.
+ */
+export const useTmdbClient = (overrideKey?: string) => {
+  const { tmdbKey: contextKey } = useAuth()
+  const { tmdbLanguage } = useI18n()
+  const apiKey = (overrideKey?.trim() || contextKey || getStoredTmdbKey()).trim()
+
+  return useMemo(
+    () => createTmdbClient({ apiKey, language: tmdbLanguage }),
+    [apiKey, tmdbLanguage],
+  )
+}
+
+export default useTmdbClient
@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { TrendingWindow } from '../api/types'
+import type { Movie } from './useMovies'
+
+export type RankMovement =
+  | { direction: 'up' | 'down'; change: number }
+  | { direction: 'same' | 'new'; change: 0 }
+
+type RankMap = Record<string, number>
+
+type RankSnapshot = {
+  savedAt: number
+  /**
+   * When the latest visit began. Unlike `savedAt` it is not moved by later writes, so frequent
+   * returns still start new visits. Missing in snapshots stored before it existed.
+   */
+  visitStartedAt?: number
+  /** Ranks seen during the latest visit, topped up as more pages load. */
+  ranks: RankMap
+  /** Ranks from the visit before that; what movement is measured against. */
+  previousRanks: RankMap | null
+}
+
+type StoredRanks = Partial<Record<TrendingWindow, RankSnapshot>>
+
+const STORAGE_KEY = 'trendingRanks'
+
+/** Opening Home and then the trending page within this long of the first counts as one visit. */
+const VISIT_GAP = 30 * 60 * 1000
+
+const canUseStorage = () => typeof window !== 'undefined' && !!window.localStorage
+
+const readStoredRanks = (): StoredRanks => {
+  if (!canUseStorage()) return {}
+  const raw = window.localStorage.getItem(STORAGE_KEY)
+  if (!raw) return {}
+
+  try {
+    const parsed = JSON.parse(raw) as StoredRanks
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+const isNewVisit = (snapshot: RankSnapshot) =>
+  Date.now() - (snapshot.visitStartedAt ?? snapshot.savedAt) > VISIT_GAP
+
+/** The ranks this visit is compared against, fixed when the page mounts. */
+const readBaseline = (snapshot: RankSnapshot | undefined) => {
+  if (!snapshot) return null
+  return isNewVisit(snapshot) ? snapshot.ranks : snapshot.previousRanks
+}
+
+const toRankMap = (movies: Movie[]): RankMap =>
+  Object.fromEntries(movies.map((movie, index) => [movie.id, index + 1]))
+
+/**
+ * Compares trending ranks with the user's previous visit. Ranks are stored per time window in
+ * LocalStorage; the first visit has nothing to compare against, so it shows no movement at all.
+ */
+export const useTrendingMovement = (timeWindow: TrendingWindow, movies: Movie[]) => {
+  const [baselines] = useState(() => {
+    const stored = readStoredRanks()
+    return { day: readBaseline(stored.day), week: readBaseline(stored.week) }
+  })
+  const baseline = baselines[timeWindow]
+
+  useEffect(() => {
+    if (!canUseStorage() || movies.length === 0) return
+
+    const stored = readStoredRanks()
+    const snapshot = stored[timeWindow]
+    const newVisit = !snapshot || isNewVisit(snapshot)
+    const now = Date.now()
+    const next: RankSnapshot = {
+      savedAt: now,
+      visitStartedAt: newVisit ? now : (snapshot.visitStartedAt ?? snapshot.savedAt),
+      ranks: newVisit ? toRankMap(movies) : { ...snapshot.ranks, ...toRankMap(movies) },
+      previousRanks: newVisit ? (snapshot?.ranks ?? null) : snapshot.previousRanks,
+    }
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...stored, [timeWindow]: next }))
+  }, [movies, timeWindow])
+
+  const getMovement = useCallback(
+    (id: number, rank: number): RankMovement | null => {
+      if (!baseline) return null
+      const previous = baseline[id]
+      if (previous === undefined) return { direction: 'new', change: 0 }
+      if (previous === rank) return { direction: 'same', change: 0 }
+      return previous > rank
+        ? { direction: 'up', change: previous - rank }
+        : { direction: 'down', change: rank - previous }
+    },
+    [baseline],
+  )
+
+  return { getMovement, hasBaseline: baseline !== null }
+}
+
+export default useTrendingMovement
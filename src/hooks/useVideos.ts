@@ -0,0 +1,49 @@
+import { useEffect, useMemo, useState } from 'react'
+import { pickTrailer, rankVideos } from '../api/tmdb'
+import type { MediaType, Video } from '../api/types'
+import { useTmdbClient } from './useTmdbClient'
+
+type UseVideosOptions = {
+  /** Defer the request (e.g. until a card is hovered); turning it off aborts one in flight. */
+  enabled?: boolean
+}
+
+/**
+ * Loads the playable videos for a movie or series, ranked for display, plus the trailer to open
+ * first. Videos are an extra everywhere they appear, so failures simply leave the list empty.
+ */
+export const useVideos = (
+  mediaType: MediaType,
+  id: number | string | undefined,
+  { enabled = true }: UseVideosOptions = {},
+) => {
+  const client = useTmdbClient()
+  // Results are tagged with what was requested, so a stale list is never shown for a new title.
+  const requestKey = `${mediaType}/${id}`
+  const [result, setResult] = useState<{ key: string; videos: Video[] } | null>(null)
+  const videos = result?.key === requestKey ? result.videos : null
+
+  useEffect(() => {
+    if (!enabled || !id || !client.hasKey) return
+
+    const controller = new AbortController()
+    client
+      .getVideos(mediaType, id, { signal: controller.signal })
+      .then((payload) => {
+        if (!controller.signal.aborted) {
+          setResult({ key: requestKey, videos: rankVideos(payload.results ?? []) })
+        }
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setResult({ key: requestKey, videos: [] })
+      })
+
+    return () => controller.abort()
+  }, [client, enabled, id, mediaType, requestKey])
+
+  const trailer = useMemo(() => (videos ? pickTrailer(videos) : null), [videos])
+
+  return { videos: videos ?? [], trailer }
+}
+
+export default useVideos
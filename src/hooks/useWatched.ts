@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from 'react'
+
+const STORAGE_KEY = 'watchedMovies'
+
+const canUseStorage = () => typeof window !== 'undefined' && !!window.localStorage
+
+const readWatched = (): number[] => {
+  if (!canUseStorage()) return []
+  const raw = window.localStorage.getItem(STORAGE_KEY)
+  if (!raw) return []
+
+  try {
+    const parsed = JSON.parse(raw) as number[]
+    if (!Array.isArray(parsed)) return []
+    return parsed.filter((id) => typeof id === 'number')
+  } catch {
+    return []
+  }
+}
+
+/** Movie ids the user has marked as seen. Kept on this device only, like the wishlist. */
+export const useWatched = () => {
+  const [watched, setWatched] = useState<number[]>(() => readWatched())
+
+  useEffect(() => {
+    if (!canUseStorage()) return
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(watched))
+  }, [watched])
+
+  useEffect(() => {
+    if (!canUseStorage()) return undefined
+
+    const syncFromStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) {
+        setWatched(readWatched())
+      }
+    }
+
+    window.addEventListener('storage', syncFromStorage)
+    return () => window.removeEventListener('storage', syncFromStorage)
+  }, [])
+
+  const isWatched = useCallback((id: number) => watched.includes(id), [watched])
+
+  const toggleWatched = useCallback((id: number) => {
+    setWatched((current) =>
+      current.includes(id) ? current.filter((item) => item !== id) : [...current, id],
+    )
+  }, [])
+
+  return { watched, isWatched, toggleWatched }
+}
+
+export default useWatched
@@ -1,15 +1,22 @@
 import { useCallback, useEffect, useState } from 'react'
+import type { MediaType } from '../api/types'
 
 export type WishlistEntry = {
   id: number
   title: string
   poster_path: string | null
+  /** Entries saved before TV support have no type and are movies. */
+  media_type?: MediaType
 }
 
 const STORAGE_KEY = 'movieWishlist'
 
 const canUseStorage = () => typeof window !== 'undefined' && !!window.localStorage
 
+/** Movie and TV ids overlap on TMDb, so an entry is identified by both. */
+const isSameEntry = (entry: WishlistEntry, id: number, mediaType: MediaType) =>
+  entry.id === id && (entry.media_type ?? 'movie') === mediaType
+
 const readWishlist = (): WishlistEntry[] => {
   if (!canUseStorage()) return []
   const raw = window.localStorage.getItem(STORAGE_KEY)
@@ -46,21 +53,37 @@ export const useWishlist = () => {
   }, [])
 
   const isInWishlist = useCallback(
-    (movieId: number) => wishlist.some((entry) => entry.id === movieId),
+    (id: number, mediaType: MediaType = 'movie') =>
+      wishlist.some((entry) => isSameEntry(entry, id, mediaType)),
     [wishlist],
   )
 
   const toggleWishlist = useCallback((entry: WishlistEntry) => {
+    const mediaType = entry.media_type ?? 'movie'
     setWishlist((current) => {
-      const exists = current.some((item) => item.id === entry.id)
+      const exists = current.some((item) => isSameEntry(item, entry.id, mediaType))
       if (exists) {
-        return current.filter((item) => item.id !== entry.id)
+        return current.filter((item) => !isSameEntry(item, entry.id, mediaType))
       }
-      return [entry, ...current]
+      return [{ ...entry, media_type: mediaType }, ...current]
+    })
+  }, [])
+
+  /** Adds every entry that isn't saved yet, keeping their order at the top of the list. */
+  const addAllToWishlist = useCallback((entries: WishlistEntry[]) => {
+    setWishlist((current) => {
+      const added = entries
+        .map((entry) => ({ ...entry, media_type: entry.media_type ?? 'movie' }))
+        .filter(
+          (entry, index, list) =>
+            !current.some((item) => isSameEntry(item, entry.id, entry.media_type)) &&
+            list.findIndex((other) => isSameEntry(other, entry.id, entry.media_type)) === index,
+        )
+      return added.length > 0 ? [...added, ...current] : current
     })
   }, [])
 
-  return { wishlist, toggleWishlist, isInWishlist }
+  return { wishlist, toggleWishlist, isInWishlist, addAllToWishlist }
 }
 
 export default useWishlist
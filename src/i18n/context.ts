@@ -0,0 +1,29 @@
+import { createContext, useContext } from 'react'
+import type { Locale, MessageKey, MessageParams } from '.'
+import type { Region } from './region'
+
+export type I18nContextValue = {
+  locale: Locale
+  /** TMDb `language` parameter for the current locale (e.g. `ko-KR`). */
+  tmdbLanguage: string
+  setLocale: (locale: Locale) => void
+  /** Country used for release dates, certifications and regional feeds. */
+  region: Region
+  setRegion: (region: Region) => void
+  t: (key: MessageKey, params?: MessageParams) => string
+  formatDate: (value: string | number | Date, options?: Intl.DateTimeFormatOptions) => string | null
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string
+  formatRegion: (region: string) => string
+  formatLanguage: (language: string) => string
+  formatRuntime: (minutes: number | null | undefined) => string | null
+}
+
+export const I18nContext = createContext<I18nContextValue | undefined>(undefined)
+
+export const useI18n = () => {
+  const context = useContext(I18nContext)
+  if (!context) {
+    throw new Error('useI18n 훅은 LocaleProvider 내부에서만 사용해야 합니다.')
+  }
+  return context
+}
@@ -0,0 +1,117 @@
+import en from './messages/en'
+import ko, { type MessageKey } from './messages/ko'
+
+export type { MessageKey } from './messages/ko'
+
+export type Locale = 'ko' | 'en'
+
+export type MessageParams = Record<string, string | number>
+
+type LocaleConfig = {
+  /** Name shown in the language picker, always in its own language. */
+  label: string
+  /** Value sent as TMDb's `language` parameter. */
+  tmdbLanguage: string
+  /** Locale used for `Intl` date and number formatting. */
+  intl: string
+}
+
+export const LOCALES: Record<Locale, LocaleConfig> = {
+  ko: { label: '한국어', tmdbLanguage: 'ko-KR', intl: 'ko-KR' },
+  en: { label: 'English', tmdbLanguage: 'en-US', intl: 'en-US' },
+}
+
+export const LOCALE_STORAGE_KEY = 'locale'
+
+const catalogs: Record<Locale, Record<MessageKey, string>> = { ko, en }
+
+const canUseStorage = () => typeof window !== 'undefined' && !!window.localStorage
+
+const isLocale = (value: unknown): value is Locale => value === 'ko' || value === 'en'
+
+let activeLocale: Locale = 'ko'
+
+export const getStoredLocale = (): Locale => {
+  if (!canUseStorage()) return 'ko'
+  const stored = window.localStorage.getItem(LOCALE_STORAGE_KEY)
+  return isLocale(stored) ? stored : 'ko'
+}
+
+export const saveLocalePreference = (locale: Locale) => {
+  if (!canUseStorage()) return
+  window.localStorage.setItem(LOCALE_STORAGE_KEY, locale)
+}
+
+export const applyDocumentLanguage = (locale: Locale) => {
+  activeLocale = locale
+  if (typeof document === 'undefined') return
+  document.documentElement.lang = locale
+}
+
+export const syncLocaleFromStorage = () => {
+  const locale = getStoredLocale()
+  applyDocumentLanguage(locale)
+  return locale
+}
+
+export const getActiveLocale = () => activeLocale
+
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams) => {
+  const template = catalogs[locale][key] ?? ko[key] ?? key
+  if (!params) return template
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match,
+  )
+}
+
+/**
+ * Translates with the active locale. Meant for code outside React (API errors, storage helpers);
+ * components should use `useI18n().t` so they re-render when the language changes.
+ */
+export const t = (key: MessageKey, params?: MessageParams) => translate(activeLocale, key, params)
+
+export const formatDate = (
+  locale: Locale,
+  value: string | number | Date,
+  options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' },
+) => {
+  const date = value instanceof Date ? value : new Date(value)
+  if (Number.isNaN(date.getTime())) return null
+  return new Intl.DateTimeFormat(LOCALES[locale].intl, options).format(date)
+}
+
+/** `142` -> `2시간 22분` / `2h 22m`; null for missing or zero runtimes. */
+export const formatRuntime = (locale: Locale, minutes: number | null | undefined) => {
+  if (!minutes || minutes <= 0) return null
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  return hours > 0
+    ? translate(locale, 'detail.runtimeHours', { hours, minutes: rest })
+    : translate(locale, 'detail.runtimeMinutes', { minutes: rest })
+}
+
+/** Localized country name for an ISO 3166-1 code, e.g. `KR` -> `대한민국` / `South Korea`. */
+export const formatRegion = (locale: Locale, region: string) => {
+  try {
+    return new Intl.DisplayNames([LOCALES[locale].intl], { type: 'region' }).of(region) ?? region
+  } catch {
+    return region
+  }
+}
+
+/** Localized language name for an ISO 639-1 code, e.g. `ja` -> `일본어` / `Japanese`. */
+export const formatLanguage = (locale: Locale, language: string) => {
+  try {
+    return (
+      new Intl.DisplayNames([LOCALES[locale].intl], { type: 'language' }).of(language) ?? language
+    )
+  } catch {
+    return language
+  }
+}
+
+export const formatNumber = (
+  locale: Locale,
+  value: number,
+  options?: Intl.NumberFormatOptions,
+) => new Intl.NumberFormat(LOCALES[locale].intl, options).format(value)
@@ -0,0 +1,465 @@
+import type { MessageKey } from './ko'
+
+const en: Record<MessageKey, string> = {
+  'common.retry': 'Try again',
+  'common.loading': 'Loading...',
+  'common.loadingData': 'Loading data...',
+  'common.untitled': 'Untitled',
+  'common.back': '← Back',
+  'common.posterAlt': '{title} poster',
+  'common.backToTop': 'Back to top',
+  'common.wishlistEmpty': 'Wishlist: empty',
+  'common.wishlistCount': 'Wishlist: {count} saved',
+
+  'nav.home': 'Browse',
+  'nav.trending': 'Trending',
+  'nav.popular': 'Popular',
+  'nav.search': 'Search',
+  'nav.wishlist': 'Wishlist',
+  'nav.profile': 'Profile',
+
+  'header.subtitle': 'Movies picked for you',
+  'header.keyNotLinked': 'not linked',
+  'header.noKey': 'No TMDB key',
+  'header.keyChip': 'TMDB key: {key}',
+  'header.logout': 'Log out',
+
+  'errors.generic': 'The request could not be completed. Please try again later.',
+  'errors.unauthorized': 'TMDB rejected the API key. Check the key and try again.',
+  'errors.notFound': 'TMDB could not find what you asked for.',
+  'errors.rateLimited': 'Too many requests to TMDB. Please try again shortly.',
+  'errors.network': 'Unable to reach the network. Check your connection and try again.',
+  'errors.aborted': 'The request was cancelled.',
+  'errors.invalidResponse': 'The TMDB response could not be read. Please try again later.',
+  'errors.missingKey': 'Register a TMDB key on the sign-in screen to load movies.',
+  'errors.moviesFailed': 'Movie data could not be loaded. Please try again later.',
+
+  'retry.rateLimited': 'Too many requests, retrying in {seconds}s',
+  'retry.unstable': 'Connection is unstable, retrying',
+
+  'movieCard.noOverview': 'No overview is available for this title yet.',
+  'movieCard.openDetail': 'View details for {title}',
+  'movieCard.addToWishlist': 'Add {title} to wishlist',
+  'movieCard.removeFromWishlist': 'Remove {title} from wishlist',
+  'movieCard.playTrailer': 'Play the trailer for {title}',
+  'movieCard.genres': 'Genres',
+  'movieCard.rank': 'Rank {rank}',
+  'movieCard.rankWithMovement': 'Rank {rank}, {movement}',
+  'movieCard.movementUp': 'up {count} since your last visit',
+  'movieCard.movementDown': 'down {count} since your last visit',
+  'movieCard.movementSame': 'unchanged since your last visit',
+  'movieCard.movementNew': 'new entry',
+
+  'section.loading': 'Loading {title}...',
+  'section.count': '{count} titles',
+  'section.revalidating': 'Checking for updates',
+  'section.empty': 'Nothing to show right now. Please check back later.',
+  'section.loadMore': 'Show more',
+
+  'home.section.trending': 'Trending today',
+  'home.section.popular': 'Popular',
+  'home.section.nowPlaying': 'Now Playing',
+  'home.section.topRated': 'Top Rated',
+  'home.section.upcoming': 'Upcoming',
+  'home.section.tvPopular': 'Popular Series',
+  'home.section.tvTopRated': 'Top Rated Series',
+  'home.section.regional': '{title} · {region}',
+  'home.trendingMore': 'See the full chart',
+  'home.savedSearchTitle': '{name} · {count} new',
+  'home.savedSearchMore': 'Open in search',
+  'home.eyebrow': 'Your personal hub',
+  'home.title': 'Browse several movie collections on a single page.',
+  'home.description': 'Every carousel loads live data and stays in sync with your wishlist.',
+  'home.authHeader': 'Auth status',
+  'home.keyLinked': 'TMDB key linked',
+  'home.keyNone': 'No TMDB key',
+  'home.keyInUse': 'Using your saved TMDB key.',
+  'home.keyMissing': 'Link a TMDB key to load data.',
+  'home.wishlistHeader': 'Wishlist',
+  'home.wishlistCount': '{count} saved',
+  'home.wishlistHint': 'Tap ☆ on any card to add or remove it.',
+
+  'trending.eyebrow': 'Trending',
+  'trending.title': 'The movies everyone is talking about right now',
+  'trending.description': 'Ranked by activity on TMDb. Arrows show how each title moved since your last visit.',
+  'trending.window': 'Time window',
+  'trending.day': 'Today',
+  'trending.week': 'This week',
+  'trending.firstVisit': 'This is your first visit, so there is nothing to compare against yet. Rank changes appear from your next visit.',
+  'trending.empty': 'There are no trending movies to show yet.',
+  'trending.loadMore': 'Show more of the chart',
+
+  'popular.eyebrow': 'Popular collection',
+  'popular.title': 'Explore the popular feed with pagination or infinite scroll.',
+  'popular.description': 'Switch modes to browse the way you like.',
+  'popular.viewMode': 'Choose view mode',
+  'popular.viewTable': 'Table',
+  'popular.viewInfinite': 'Infinite scroll',
+  'popular.hintTable': 'Use the page buttons to move around.',
+  'popular.hintInfinite': 'Scroll to load more titles.',
+  'popular.empty': 'No movies to show yet. Make sure your TMDB key is linked and try again.',
+  'popular.previous': 'Previous',
+  'popular.next': 'Next',
+  'popular.page': 'Page {page}',
+  'popular.pageLoading': 'Loading page...',
+  'popular.loadingMore': 'Loading more titles...',
+  'popular.scrollForMore': 'Scroll for more titles - page {page}',
+  'popular.endOfFeed': 'You have reached the end of this feed.',
+
+  'search.eyebrow': 'Search',
+  'search.title': 'Search and sort titles right in your browser.',
+  'search.description': 'Type a keyword or use the filters to narrow results in real time.',
+  'search.missingKey': 'Register a TMDB API key on the sign-in page to use search.',
+  'search.failed': 'Search results are unavailable right now. Please try again later.',
+  'search.keyword': 'Keyword',
+  'search.placeholder': 'e.g. "Spider-Man", "Oppenheimer"...',
+  'search.suggestions': 'Search suggestions',
+  'search.suggestMovies': 'Movies',
+  'search.suggestSeries': 'Series',
+  'search.suggestPeople': 'People',
+  'search.suggestLoading': 'Looking for suggestions...',
+  'search.suggestCount': '{count} suggestions. Use the up and down arrows to choose and Enter to open.',
+  'search.suggestNone': 'No matching suggestions.',
+  'search.suggestNoYear': 'Release date unknown',
+  'search.submit': 'Search',
+  'search.autoApply': 'Filters apply automatically.',
+  'search.hideFilters': 'Hide filters',
+  'search.showFilters': 'Show filters',
+  'search.genreInclude': 'Include genres',
+  'search.genreExclude': 'Exclude genres',
+  'search.genreMode': 'Genre matching',
+  'search.genreModeAnd': 'All selected',
+  'search.genreModeOr': 'Any selected',
+  'search.sort': 'Sort',
+  'search.sortPerBatch':
+    'Keyword results are sorted within each loaded batch; more results are added below.',
+  'search.minRating': 'Minimum rating',
+  'search.allRatings': 'Any rating',
+  'search.year': 'Release year',
+  'search.allYears': 'Any year',
+  'search.mediaType': 'Content type',
+  'search.mediaAll': 'All',
+  'search.multiNoFilters': 'All searches movies, series and people by keyword and does not apply filters. Pick Movies or TV series to use them.',
+  'search.multiPrompt': 'Enter a keyword to search movies, series and people together.',
+  'search.tabs': 'Result categories',
+  'search.tabAll': 'All',
+  'search.tabCount': '{count} loaded',
+  'search.tabEmpty': 'No results loaded in this category yet.',
+  'search.showAllInTab': 'Show all {count}',
+  'search.knownFor': 'Known for',
+  'search.mediaMovie': 'Movies',
+  'search.mediaTv': 'TV series',
+  'search.firstAirYear': 'First air year',
+  'search.releaseRange': 'Release date range',
+  'search.firstAirRange': 'First air date range',
+  'search.rangeFrom': 'From date',
+  'search.rangeTo': 'To date',
+  'search.minVotes': 'Minimum votes',
+  'search.anyVotes': 'Any number',
+  'search.votesOption': '{count}+ votes',
+  'search.originalLanguage': 'Original language',
+  'search.allLanguages': 'Any language',
+  'search.runtime': 'Runtime (minutes)',
+  'search.runtimeMin': 'Min',
+  'search.runtimeMax': 'Max',
+  'search.certification': 'Certification',
+  'search.allCertifications': 'Any certification',
+  'search.certificationHint': 'Ratings used in {region}',
+  'search.certificationMoviesOnly': 'Only applies to movie searches.',
+  'search.discoverOnlyNoKeyword': 'Not available for keyword searches.',
+  'search.cast': 'Cast',
+  'search.castPlaceholder': 'Find an actor',
+  'search.castHint': 'Shows movies featuring every selected actor.',
+  'search.crew': 'Director',
+  'search.crewPlaceholder': 'Find a director',
+  'search.crewHint': 'Shows movies any of the selected directors worked on.',
+  'search.peopleMoviesOnly': 'People filters only apply to movie searches.',
+  'search.keywordTags': 'Topic tags',
+  'search.keywordTagsPlaceholder': 'e.g. space, dystopia',
+  'search.keywordTagsHint': 'Shows titles with every selected tag. TMDb tags are in English.',
+  'search.pickerCount': '{count} options. Use the up and down arrows to choose and Enter to add.',
+  'search.removeFilter': 'Remove {name} filter',
+  'search.savedTitle': 'Saved searches',
+  'search.saveCurrent': 'Save this search',
+  'search.saveNamePlaceholder': 'Search name',
+  'search.save': 'Save',
+  'search.saveHint': 'Leave the name empty to name it after its filters.',
+  'search.saveNothing': 'Enter a keyword or pick a filter to save a search.',
+  'search.saveDuplicate': 'This search is already saved.',
+  'search.saveSignInAgain': 'Sign out and sign in again to save searches to your account.',
+  'search.savedEmpty': 'No saved searches yet.',
+  'search.runSaved': 'Run this search again',
+  'search.savedLastRun': 'Last run {date}',
+  'search.savedNeverRun': 'Not run yet',
+  'search.savedNewCount': '{count} new',
+  'search.savedNoNew': 'Nothing new',
+  'search.pinToHome': 'Pin to Home',
+  'search.unpin': 'Unpin',
+  'search.rename': 'Rename',
+  'search.renameLabel': 'New search name',
+  'search.renameDone': 'Done',
+  'search.deleteSaved': 'Delete',
+  'search.recentTitle': 'Recent searches',
+  'search.recentEmpty': 'No recent searches.',
+  'search.clearRecent': 'Clear history',
+  'search.summaryExcluding': 'excluding {genres}',
+  'search.onlySubscribed': 'Only titles on my streaming services',
+  'search.onlySubscribedHint': '{count} subscribed services · {region}',
+  'search.onlySubscribedNoKeyword': 'Not available for keyword searches. Clear the keyword to use it.',
+  'search.onlySubscribedNoServices': 'Pick the services you subscribe to on your profile first.',
+  'search.resetFilters': 'Reset filters',
+  'search.refresh': 'Refresh results',
+  'search.filterCount': 'Filters: {count}',
+  'search.resultCount': 'Results: {count}',
+  'search.resultCountTotal': 'Showing {count} of {total} results',
+  'search.localFilterNote': 'Genre, rating, language and date filters are applied to fetched keyword results',
+  'search.loadMore': 'Load more results',
+  'search.endOfResults': 'All search results are loaded.',
+  'search.regionStatus': 'Region: {region}',
+  'search.loadingResults': 'Loading search results',
+  'search.empty': 'No titles match these filters.',
+
+  'sort.popularityDesc': 'Popularity (high to low)',
+  'sort.popularityAsc': 'Popularity (low to high)',
+  'sort.voteAverageDesc': 'Rating (high to low)',
+  'sort.releaseDateDesc': 'Release date (newest)',
+  'sort.releaseDateAsc': 'Release date (oldest)',
+  'sort.titleAsc': 'Title (A to Z)',
+
+  'genre.eyebrow': 'Movies by genre',
+  'genre.eyebrowTv': 'Series by genre',
+  'genre.unknown': 'Unknown genre',
+  'genre.description': 'The most popular titles in this genre right now.',
+  'genre.resultCount': '{count} titles, most popular first',
+  'genre.empty': 'No titles were found in this genre.',
+  'genre.others': 'Other genres',
+  'genre.pagination': 'Genre result pages',
+
+  'detail.missingId': 'The URL does not contain a movie ID.',
+  'detail.missingKey': 'Register a TMDB API key on the sign-in page to load details.',
+  'detail.notFound': 'No movie was found for this ID.',
+  'detail.failed': 'This movie cannot be loaded right now. Please try again later.',
+  'detail.loading': 'Loading details...',
+  'detail.eyebrow': 'Now viewing',
+  'detail.rating': 'Average rating',
+  'detail.releaseDate': 'Release date',
+  'detail.regionalReleaseDate': 'Release date ({region})',
+  'detail.certification': 'Rating ({region})',
+  'detail.noReleaseDate': 'Release date unknown',
+  'detail.runtime': 'Runtime',
+  'detail.runtimeHours': '{hours}h {minutes}m',
+  'detail.runtimeMinutes': '{minutes} min',
+  'detail.genres': 'Genres',
+  'detail.noGenres': 'No genres listed',
+  'detail.noOverview': 'No overview is available.',
+  'detail.addToWishlist': 'Add to wishlist',
+  'detail.removeFromWishlist': 'Remove from wishlist',
+  'detail.watchTrailer': 'Watch trailer',
+  'detail.recommendations': 'Viewers also liked',
+  'detail.similar': 'Similar movies',
+
+  'tv.missingId': 'The URL does not include a series ID.',
+  'tv.notFound': 'No series was found for this ID.',
+  'tv.failed': 'This series cannot be loaded right now. Please try again shortly.',
+  'tv.eyebrow': 'Series',
+  'tv.firstAirDate': 'First aired',
+  'tv.seasons': 'Seasons',
+  'tv.episodes': 'Episodes',
+  'tv.episodeRuntime': 'Episode length',
+  'tv.seasonsTitle': 'Seasons & episodes',
+  'tv.seasonTabs': 'Choose a season',
+  'tv.noSeasons': 'No seasons are listed.',
+  'tv.episodeCount': '{count} episodes',
+  'tv.seasonLoading': 'Loading episodes...',
+  'tv.seasonFailed': 'Episodes for this season could not be loaded.',
+  'tv.noEpisodes': 'No episodes are listed.',
+  'tv.episodeLabel': 'Episode {number}',
+  'tv.noAirDate': 'Air date TBA',
+
+  'credits.title': 'Cast & crew',
+  'credits.cast': 'Cast',
+  'credits.director': 'Director',
+  'credits.writer': 'Writer',
+  'credits.composer': 'Music',
+  'credits.profileAlt': 'Photo of {name}',
+  'reviews.title': 'Reviews',
+  'reviews.count': '{count}',
+  'reviews.loading': 'Loading reviews...',
+  'reviews.failed': 'Reviews could not be loaded.',
+  'reviews.empty': 'No reviews yet.',
+  'reviews.emptyWithFallback': 'No reviews in {language} or English yet.',
+  'reviews.fallback': 'There are no reviews in {language}, so English reviews are shown.',
+  'reviews.rating': '{rating}/10',
+  'reviews.ratingLabel': 'Rated {rating} out of 10',
+  'reviews.expand': 'Read more',
+  'reviews.expandSpoiler': 'Show full review with spoilers',
+  'reviews.collapse': 'Show less',
+  'reviews.spoilerHidden': 'The rest of this review contains spoilers and is hidden.',
+  'reviews.original': 'Read on TMDB',
+  'reviews.pagination': 'Review pages',
+  'reviews.previous': 'Previous',
+  'reviews.next': 'Next',
+  'reviews.page': 'Page {page} of {total}',
+  'providers.title': 'Where to watch in {region}',
+  'providers.none': 'No service offers this title in {region} yet.',
+  'providers.stream': 'Stream',
+  'providers.free': 'Free',
+  'providers.ads': 'Free with ads',
+  'providers.rent': 'Rent',
+  'providers.buy': 'Buy',
+  'providers.subscribed': 'Subscribed',
+  'providers.credit': 'Data from JustWatch · See all offers',
+
+  'video.title': 'Video',
+  'video.close': 'Close player',
+  'video.playerTitle': '{title} - {name}',
+  'video.empty': 'There is no playable video.',
+  'video.otherClips': 'More videos',
+  'video.type.trailer': 'Trailer',
+  'video.type.teaser': 'Teaser',
+  'video.type.clip': 'Clip',
+  'video.type.featurette': 'Featurette',
+  'video.type.behindTheScenes': 'Behind the scenes',
+  'video.type.bloopers': 'Bloopers',
+
+  'person.missingId': 'The URL does not include a person ID.',
+  'person.missingKey': 'Register a TMDB API key on the sign-in page to load people.',
+  'person.notFound': 'No person was found for this ID.',
+  'person.failed': 'This person cannot be loaded right now. Please try again shortly.',
+  'person.loading': 'Loading profile...',
+  'person.birthday': 'Born',
+  'person.deathday': 'Died',
+  'person.placeOfBirth': 'Place of birth',
+  'person.noBiography': 'No biography is available.',
+  'person.filmography': 'Filmography',
+  'person.filmographyCount': '{count} titles',
+  'person.creditsFailed': 'The filmography could not be loaded.',
+  'person.noCredits': 'No movie credits are listed.',
+  'collection.partOf': 'Part of a collection',
+  'collection.view': 'View collection',
+  'collection.eyebrow': 'Collection',
+  'collection.missingId': 'The URL has no collection ID.',
+  'collection.missingKey': 'Register a TMDB API key on the sign-in page to load collections.',
+  'collection.notFound': 'No collection was found with this ID.',
+  'collection.failed': 'This collection cannot be loaded right now. Please try again shortly.',
+  'collection.loading': 'Loading collection...',
+  'collection.noOverview': 'No overview available.',
+  'collection.progress': 'Watched {watched} of {total}',
+  'collection.addAll': 'Add whole collection to wishlist ({count})',
+  'collection.allInWishlist': 'Every movie is on your wishlist',
+  'collection.upcoming': 'Upcoming',
+  'collection.watched': 'Watched',
+
+  'wishlist.missingKey': 'Register a TMDB key on the sign-in page to load your wishlist.',
+  'wishlist.failed': 'Something went wrong while loading your wishlist.',
+  'wishlist.itemFailed': 'Details for this title could not be loaded.',
+  'wishlist.eyebrow': 'Wishlist',
+  'wishlist.title': 'Everything you saved, in one place.',
+  'wishlist.description': 'Collect the titles you like and pick them up again anytime.',
+  'wishlist.savedHeader': 'Saved titles',
+  'wishlist.noneSaved': 'Nothing saved yet.',
+  'wishlist.removeHint': 'Tap the star to remove a title anytime.',
+  'wishlist.storageHeader': 'Storage',
+  'wishlist.storageValue': 'This device',
+  'wishlist.storageHint': 'Saved on this device so you can check it anytime.',
+  'wishlist.emptyTitle': 'No saved movies yet.',
+  'wishlist.emptyHint': 'Add favorites straight from a card or use the buttons below.',
+  'wishlist.goHome': 'Browse home',
+  'wishlist.goPopular': 'See popular titles',
+  'wishlist.loading': 'Loading your wishlist...',
+  'wishlist.nothingToShow': 'No movie details to show.',
+
+  'profile.eyebrow': 'Profile & settings',
+  'profile.title': 'Your account and device settings at a glance.',
+  'profile.description': 'Manage your sign-in status, theme and wishlist with ease.',
+  'profile.signedInAccount': 'Signed-in account',
+  'profile.noEmail': 'No email found',
+  'profile.sessionActive': 'Session active',
+  'profile.sessionEnded': 'Session ended',
+  'profile.deviceLabel': 'Device',
+  'profile.storageTitle': 'Storage status',
+  'profile.keepLogin': 'Keep me signed in',
+  'profile.rememberedEmail': 'Saved email',
+  'profile.none': 'None',
+  'profile.wishlist': 'Wishlist',
+  'profile.currentTheme': 'Current theme',
+  'profile.currentLanguage': 'Current language',
+  'profile.currentRegion': 'Current region',
+  'profile.themeDark': 'Dark',
+  'profile.themeLight': 'Light',
+  'profile.wishlistSummaryLabel': 'Wishlist summary',
+  'profile.wishlistSummaryTitle': 'Saved movies',
+  'profile.wishlistSummaryEmpty': 'Your wishlist is still empty.',
+  'profile.wishlistSummaryCount': '{count} titles saved to your wishlist.',
+  'profile.viewWishlist': 'View wishlist',
+  'profile.savedLoginLabel': 'Saved sign-in',
+  'profile.savedLoginTitle': 'Saved email',
+  'profile.notSaved': 'Not saved',
+  'profile.savedLoginHint': 'Stored on this device for faster sign-in.',
+  'profile.themeLabel': 'Theme',
+  'profile.themeTitle': 'Dark vs light',
+  'profile.themeHint': 'Your choice is saved on this device.',
+  'profile.themeToggle': 'Switch theme',
+  'profile.languageLabel': 'Language',
+  'profile.languageTitle': 'Display language',
+  'profile.languageHint': 'Interface text, TMDB titles and date/number formats follow this language.',
+  'profile.languageToggle': 'Choose language',
+  'profile.regionLabel': 'Region',
+  'profile.regionTitle': 'Release region',
+  'profile.regionHint': 'Now playing and upcoming lists, search results, and release dates and ratings on detail pages follow this country.',
+  'profile.providersLabel': 'Streaming services',
+  'profile.providersTitle': 'Services I subscribe to',
+  'profile.providersHint': 'Selected services are highlighted on detail pages and power the subscriptions filter in search. The list follows {region}.',
+  'profile.providersMissingKey': 'Register a TMDB API key to load the list of services.',
+  'profile.providersLoading': 'Loading services...',
+  'profile.providersFailed': 'The list of services could not be loaded. Only the ones you already picked are shown.',
+  'profile.providersSelected': '{count} selected',
+  'profile.providersShowAll': 'Show all {count}',
+  'profile.providersShowLess': 'Show major services only',
+  'profile.cacheLabel': 'Data cache',
+  'profile.cacheTitle': 'Saved TMDB responses',
+  'profile.cacheHint': 'Lists and details you have loaded are kept on this device and shown instantly next time.',
+  'profile.cacheEntries': 'Entries',
+  'profile.cacheSize': 'Size',
+  'profile.clearCache': 'Clear cache',
+  'profile.logoutLabel': 'Log out',
+  'profile.logoutTitle': 'End this session',
+  'profile.logoutHint': 'Your saved sign-in and TMDB key will be removed.',
+  'profile.logout': 'Log out',
+
+  'signin.invalidEmail': 'Please enter a valid email address.',
+  'signin.keyRequired': 'A TMDB API key is required to sign in.',
+  'signin.userNotFound': 'No user is registered with that email and TMDB key.',
+  'signin.success': 'Signed in! Redirecting...',
+  'signin.signupInvalidEmail': 'Enter a valid email before signing up.',
+  'signin.signupKeyRequired': 'Please enter a TMDB API key.',
+  'signin.signupKeyMismatch': 'The TMDB API keys do not match.',
+  'signin.signupTermsRequired': 'You must accept the terms of service.',
+  'signin.signupFailed': 'Sign-up could not be completed.',
+  'signin.signupSuccess': 'Account created! Sign in with your TMDB key.',
+  'signin.eyebrow': 'Welcome to NaDaflix',
+  'signin.title': 'From the latest hits to hidden gems, all in one place.',
+  'signin.supporting': 'Your TMDB key is kept safely on this device and can be changed or removed anytime.',
+  'signin.toSignup': 'No account? Sign up',
+  'signin.toSignin': 'Already have an account? Sign in',
+  'signin.heading': 'Sign in',
+  'signin.email': 'Email',
+  'signin.apiKey': 'TMDB API key',
+  'signin.apiKeyPlaceholder': 'Paste your TMDB key',
+  'signin.rememberEmail': 'Remember email',
+  'signin.checking': 'Checking...',
+  'signin.submit': 'Enter the app',
+  'signin.signupHeading': 'Create an account',
+  'signin.signupKeyPlaceholder': 'TMDB API key',
+  'signin.confirmKey': 'Confirm TMDB key',
+  'signin.confirmKeyPlaceholder': 'Enter your TMDB key again',
+  'signin.termsTitle': 'Terms',
+  'signin.termsBody': 'I understand that the TMDB key I enter is stored on this device and can be removed at any time.',
+  'signin.creating': 'Creating...',
+  'signin.signupSubmit': 'Sign up',
+
+  'auth.emailTaken': 'This email is already registered.',
+  'auth.invalidCredentials': 'The details you entered are incorrect.',
+}
+
+export default en
@@ -0,0 +1,464 @@
+const ko = {
+  'common.retry': '다시 시도',
+  'common.loading': '불러오는 중...',
+  'common.loadingData': '데이터를 불러오는 중...',
+  'common.untitled': '제목 미정',
+  'common.back': '← 뒤로가기',
+  'common.posterAlt': '{title} 포스터',
+  'common.backToTop': '맨 위로 이동',
+  'common.wishlistEmpty': '위시리스트: 비어 있음',
+  'common.wishlistCount': '위시리스트: {count}개 저장됨',
+
+  'nav.home': '둘러보기',
+  'nav.trending': '트렌드',
+  'nav.popular': '인기',
+  'nav.search': '검색',
+  'nav.wishlist': '위시리스트',
+  'nav.profile': '프로필',
+
+  'header.subtitle': '취향 맞춤 영화 허브',
+  'header.keyNotLinked': '연동되지 않음',
+  'header.noKey': 'TMDB 키가 없습니다',
+  'header.keyChip': 'TMDB 키: {key}',
+  'header.logout': '로그아웃',
+
+  'errors.generic': '요청을 처리할 수 없습니다. 잠시 후 다시 시도해주세요.',
+  'errors.unauthorized': 'TMDB에서 제공된 API 키를 거부했습니다. 키를 다시 확인한 뒤 시도해주세요.',
+  'errors.notFound': '요청한 정보를 TMDB에서 찾을 수 없습니다.',
+  'errors.rateLimited': 'TMDB 요청 한도를 초과했습니다. 잠시 후 다시 시도해주세요.',
+  'errors.network': '네트워크에 연결할 수 없습니다. 인터넷 연결을 확인한 뒤 다시 시도해주세요.',
+  'errors.aborted': '요청이 취소되었습니다.',
+  'errors.invalidResponse': 'TMDB 응답을 해석할 수 없습니다. 잠시 후 다시 시도해주세요.',
+  'errors.missingKey': '영화를 불러오려면 로그인 화면에서 TMDB 키를 등록해주세요.',
+  'errors.moviesFailed': '영화 데이터를 불러올 수 없습니다. 잠시 후 다시 시도해주세요.',
+
+  'retry.rateLimited': '요청이 많아 {seconds}초 후 다시 시도합니다',
+  'retry.unstable': '연결이 불안정해 다시 시도하는 중입니다',
+
+  'movieCard.noOverview': '아직 이 작품에 대한 소개가 제공되지 않았습니다.',
+  'movieCard.openDetail': '{title} 상세 정보 보기',
+  'movieCard.addToWishlist': '{title}를 위시리스트에 추가',
+  'movieCard.removeFromWishlist': '{title}를 위시리스트에서 제거',
+  'movieCard.playTrailer': '{title} 예고편 재생',
+  'movieCard.genres': '장르',
+  'movieCard.rank': '{rank}위',
+  'movieCard.rankWithMovement': '{rank}위, {movement}',
+  'movieCard.movementUp': '지난 방문보다 {count}계단 상승',
+  'movieCard.movementDown': '지난 방문보다 {count}계단 하락',
+  'movieCard.movementSame': '지난 방문과 같은 순위',
+  'movieCard.movementNew': '새로 진입',
+
+  'section.loading': '{title} 불러오는 중...',
+  'section.count': '{count}편의 작품',
+  'section.revalidating': '최신 정보 확인 중',
+  'section.empty': '지금은 표시할 작품이 없습니다. 잠시 후 다시 확인해주세요.',
+  'section.loadMore': '더 보기',
+
+  'home.section.trending': '오늘의 트렌드',
+  'home.section.popular': '인기 영화',
+  'home.section.nowPlaying': '상영 중',
+  'home.section.topRated': '최고 평점',
+  'home.section.upcoming': '개봉 예정',
+  'home.section.tvPopular': '인기 시리즈',
+  'home.section.tvTopRated': '최고 평점 시리즈',
+  'home.section.regional': '{title} · {region}',
+  'home.trendingMore': '전체 순위 보기',
+  'home.savedSearchTitle': '{name} · 새 결과 {count}개',
+  'home.savedSearchMore': '검색에서 열기',
+  'home.eyebrow': '당신만을 위한 허브',
+  'home.title': '이 페이지에서 여러 영화 컬렉션을 한 번에 둘러보세요.',
+  'home.description': '각 캐러셀은 실시간 데이터를 불러오고 위시리스트와 자동으로 동기화됩니다.',
+  'home.authHeader': '인증 상태',
+  'home.keyLinked': 'TMDB 키 연동됨',
+  'home.keyNone': 'TMDB 키 없음',
+  'home.keyInUse': '저장된 TMDB 키를 사용 중입니다.',
+  'home.keyMissing': '데이터를 불러오려면 TMDB 키를 연동해주세요.',
+  'home.wishlistHeader': '위시리스트',
+  'home.wishlistCount': '{count}개 저장됨',
+  'home.wishlistHint': '어떤 카드에서든 ☆ 를 눌러 추가하거나 해제하세요.',
+
+  'trending.eyebrow': '트렌드',
+  'trending.title': '지금 가장 많이 이야기되는 영화',
+  'trending.description': 'TMDb 이용자 활동을 기준으로 한 순위입니다. 화살표는 지난 방문 때와 비교한 순위 변동입니다.',
+  'trending.window': '집계 기간',
+  'trending.day': '오늘',
+  'trending.week': '이번 주',
+  'trending.firstVisit': '첫 방문이라 비교할 이전 순위가 없습니다. 다음 방문부터 순위 변동이 표시됩니다.',
+  'trending.empty': '아직 표시할 트렌드 영화가 없습니다.',
+  'trending.loadMore': '순위 더 보기',
+
+  'popular.eyebrow': '인기 컬렉션',
+  'popular.title': '인기 피드를 페이지 매기기와 무한 스크롤로 탐색하세요.',
+  'popular.description': '원하는 방식으로 모드를 전환하며 둘러볼 수 있습니다.',
+  'popular.viewMode': '보기 모드 선택',
+  'popular.viewTable': '표 형태',
+  'popular.viewInfinite': '무한 스크롤',
+  'popular.hintTable': '페이지 이동 버튼을 사용하세요.',
+  'popular.hintInfinite': '스크롤로 더 많은 작품을 불러오세요.',
+  'popular.empty': '아직 표시할 영화가 없습니다. TMDB 키가 연동되어 있는지 확인한 뒤 다시 시도하세요.',
+  'popular.previous': '이전',
+  'popular.next': '다음',
+  'popular.page': '페이지 {page}',
+  'popular.pageLoading': '페이지 불러오는 중...',
+  'popular.loadingMore': '더 많은 작품을 불러오는 중...',
+  'popular.scrollForMore': '더 많은 작품을 보려면 스크롤하세요 - 페이지 {page}',
+  'popular.endOfFeed': '이 피드의 끝까지 도달했습니다.',
+
+  'search.eyebrow': '콘텐츠 검색',
+  'search.title': '브라우저에서 바로 작품을 검색하고 정렬해 보세요.',
+  'search.description': '키워드를 입력하거나 필터를 사용해 실시간으로 결과를 좁혀보세요.',
+  'search.missingKey': '검색 기능을 사용하려면 로그인 페이지에서 TMDB API 키를 등록해주세요.',
+  'search.failed': '지금은 검색 결과를 불러올 수 없습니다. 잠시 후 다시 시도해주세요.',
+  'search.keyword': '키워드',
+  'search.placeholder': '예: "스파이더맨", "오펜하이머"...',
+  'search.suggestions': '검색어 추천',
+  'search.suggestMovies': '영화',
+  'search.suggestSeries': '시리즈',
+  'search.suggestPeople': '인물',
+  'search.suggestLoading': '추천 검색어를 찾는 중...',
+  'search.suggestCount': '추천 {count}개. 위아래 화살표로 고르고 Enter로 여세요.',
+  'search.suggestNone': '일치하는 추천이 없습니다.',
+  'search.suggestNoYear': '개봉일 미정',
+  'search.submit': '검색',
+  'search.autoApply': '필터는 자동으로 적용됩니다.',
+  'search.hideFilters': '필터 숨기기',
+  'search.showFilters': '필터 보기',
+  'search.genreInclude': '포함할 장르',
+  'search.genreExclude': '제외할 장르',
+  'search.genreMode': '장르 조건',
+  'search.genreModeAnd': '모두 포함',
+  'search.genreModeOr': '하나라도 포함',
+  'search.sort': '정렬',
+  'search.sortPerBatch': '키워드 검색은 불러온 묶음 안에서만 정렬되고, 더 불러온 결과는 아래에 이어집니다.',
+  'search.minRating': '최소 평점',
+  'search.allRatings': '모든 평점',
+  'search.year': '개봉 연도',
+  'search.allYears': '전체 연도',
+  'search.mediaType': '콘텐츠 유형',
+  'search.mediaAll': '전체',
+  'search.multiNoFilters': '전체 검색은 검색어로 영화, 시리즈, 인물을 함께 찾으며 필터는 적용되지 않습니다. 필터를 쓰려면 영화나 TV 시리즈를 고르세요.',
+  'search.multiPrompt': '영화, 시리즈, 인물을 함께 찾으려면 검색어를 입력하세요.',
+  'search.tabs': '검색 결과 분류',
+  'search.tabAll': '전체',
+  'search.tabCount': '{count}개 불러옴',
+  'search.tabEmpty': '이 분류에는 아직 불러온 결과가 없습니다.',
+  'search.showAllInTab': '{count}개 모두 보기',
+  'search.knownFor': '대표작',
+  'search.mediaMovie': '영화',
+  'search.mediaTv': 'TV 시리즈',
+  'search.firstAirYear': '첫 방영 연도',
+  'search.releaseRange': '개봉일 범위',
+  'search.firstAirRange': '첫 방영일 범위',
+  'search.rangeFrom': '시작일',
+  'search.rangeTo': '종료일',
+  'search.minVotes': '최소 투표 수',
+  'search.anyVotes': '제한 없음',
+  'search.votesOption': '{count}표 이상',
+  'search.originalLanguage': '원어',
+  'search.allLanguages': '모든 언어',
+  'search.runtime': '상영 시간(분)',
+  'search.runtimeMin': '최소',
+  'search.runtimeMax': '최대',
+  'search.certification': '관람 등급',
+  'search.allCertifications': '모든 등급',
+  'search.certificationHint': '{region} 등급 기준',
+  'search.certificationMoviesOnly': '영화 검색에만 적용됩니다.',
+  'search.discoverOnlyNoKeyword': '키워드 검색에는 적용되지 않습니다.',
+  'search.cast': '출연 배우',
+  'search.castPlaceholder': '배우 이름으로 찾기',
+  'search.castHint': '고른 배우가 모두 출연한 영화만 보여 줍니다.',
+  'search.crew': '감독',
+  'search.crewPlaceholder': '감독 이름으로 찾기',
+  'search.crewHint': '고른 감독 중 한 명이라도 참여한 영화를 보여 줍니다.',
+  'search.peopleMoviesOnly': '인물 필터는 영화 검색에만 적용됩니다.',
+  'search.keywordTags': '주제 태그',
+  'search.keywordTagsPlaceholder': '예: space, dystopia',
+  'search.keywordTagsHint': '고른 태그가 모두 붙은 작품만 보여 줍니다. TMDb 태그는 영어로 찾아 주세요.',
+  'search.pickerCount': '항목 {count}개. 위아래 화살표로 고르고 Enter로 추가하세요.',
+  'search.removeFilter': '{name} 필터 빼기',
+  'search.savedTitle': '저장한 검색',
+  'search.saveCurrent': '현재 검색 저장',
+  'search.saveNamePlaceholder': '검색 이름',
+  'search.save': '저장',
+  'search.saveHint': '이름을 비워 두면 검색 조건으로 이름을 붙입니다.',
+  'search.saveNothing': '검색어나 필터를 고르면 저장할 수 있어요.',
+  'search.saveDuplicate': '이미 저장한 검색입니다.',
+  'search.saveSignInAgain': '검색을 계정에 저장하려면 로그아웃한 뒤 다시 로그인해 주세요.',
+  'search.savedEmpty': '저장한 검색이 없습니다.',
+  'search.runSaved': '이 검색 다시 실행',
+  'search.savedLastRun': '마지막 실행 {date}',
+  'search.savedNeverRun': '아직 실행하지 않음',
+  'search.savedNewCount': '새 결과 {count}개',
+  'search.savedNoNew': '새 결과 없음',
+  'search.pinToHome': '홈에 고정',
+  'search.unpin': '고정 해제',
+  'search.rename': '이름 바꾸기',
+  'search.renameLabel': '새 검색 이름',
+  'search.renameDone': '확인',
+  'search.deleteSaved': '삭제',
+  'search.recentTitle': '최근 검색',
+  'search.recentEmpty': '최근 검색이 없습니다.',
+  'search.clearRecent': '기록 지우기',
+  'search.summaryExcluding': '{genres} 제외',
+  'search.onlySubscribed': '내 구독 서비스에서 볼 수 있는 작품만',
+  'search.onlySubscribedHint': '구독 중인 서비스 {count}개 · {region} 기준',
+  'search.onlySubscribedNoKeyword': '키워드 검색에는 적용되지 않습니다. 키워드를 지우면 사용할 수 있어요.',
+  'search.onlySubscribedNoServices': '프로필에서 구독 중인 서비스를 먼저 선택해주세요.',
+  'search.resetFilters': '필터 초기화',
+  'search.refresh': '결과 새로고침',
+  'search.filterCount': '필터: {count}',
+  'search.resultCount': '결과: {count}건',
+  'search.resultCountTotal': '결과: {count}건 표시 · 전체 {total}건',
+  'search.localFilterNote': '키워드 검색의 장르·평점·언어·날짜 필터는 불러온 결과에서 걸러냅니다',
+  'search.loadMore': '결과 더 보기',
+  'search.endOfResults': '모든 검색 결과를 불러왔습니다.',
+  'search.regionStatus': '지역: {region}',
+  'search.loadingResults': '검색 결과 불러오는 중',
+  'search.empty': '조건에 맞는 작품이 없습니다.',
+
+  'sort.popularityDesc': '인기도 (높은 순)',
+  'sort.popularityAsc': '인기도 (낮은 순)',
+  'sort.voteAverageDesc': '평점 (높은 순)',
+  'sort.releaseDateDesc': '개봉일 (최신순)',
+  'sort.releaseDateAsc': '개봉일 (오래된순)',
+  'sort.titleAsc': '제목 (가나다순)',
+
+  'genre.eyebrow': '장르별 영화',
+  'genre.eyebrowTv': '장르별 시리즈',
+  'genre.unknown': '알 수 없는 장르',
+  'genre.description': '이 장르에서 지금 가장 인기 있는 작품을 모았습니다.',
+  'genre.resultCount': '인기순으로 정렬한 작품 {count}편',
+  'genre.empty': '이 장르에 해당하는 작품을 찾지 못했습니다.',
+  'genre.others': '다른 장르',
+  'genre.pagination': '장르 결과 페이지',
+
+  'detail.missingId': 'URL에 영화 ID가 없습니다.',
+  'detail.missingKey': '상세 정보를 불러오려면 로그인 페이지에서 TMDB API 키를 등록해주세요.',
+  'detail.notFound': '해당 ID의 영화 정보를 찾을 수 없습니다.',
+  'detail.failed': '지금은 이 영화를 불러올 수 없습니다. 잠시 후 다시 시도해주세요.',
+  'detail.loading': '상세 정보를 불러오는 중...',
+  'detail.eyebrow': '지금 감상 중',
+  'detail.rating': '평균 평점',
+  'detail.releaseDate': '개봉일',
+  'detail.regionalReleaseDate': '개봉일 ({region})',
+  'detail.certification': '관람 등급 ({region})',
+  'detail.noReleaseDate': '개봉일 정보 없음',
+  'detail.runtime': '상영 시간',
+  'detail.runtimeHours': '{hours}시간 {minutes}분',
+  'detail.runtimeMinutes': '{minutes}분',
+  'detail.genres': '장르',
+  'detail.noGenres': '등록된 장르가 없습니다',
+  'detail.noOverview': '설명이 준비되어 있지 않습니다.',
+  'detail.addToWishlist': '위시리스트에 추가',
+  'detail.removeFromWishlist': '위시리스트에서 제거',
+  'detail.watchTrailer': '예고편 보기',
+  'detail.recommendations': '이 영화를 본 사람들이 좋아한 작품',
+  'detail.similar': '비슷한 영화',
+
+  'tv.missingId': 'URL에 시리즈 ID가 없습니다.',
+  'tv.notFound': '해당 ID의 시리즈 정보를 찾을 수 없습니다.',
+  'tv.failed': '지금은 이 시리즈를 불러올 수 없습니다. 잠시 후 다시 시도해주세요.',
+  'tv.eyebrow': '시리즈',
+  'tv.firstAirDate': '첫 방영일',
+  'tv.seasons': '시즌',
+  'tv.episodes': '에피소드',
+  'tv.episodeRuntime': '회당 시간',
+  'tv.seasonsTitle': '시즌 및 에피소드',
+  'tv.seasonTabs': '시즌 선택',
+  'tv.noSeasons': '등록된 시즌이 없습니다.',
+  'tv.episodeCount': '{count}화',
+  'tv.seasonLoading': '에피소드를 불러오는 중...',
+  'tv.seasonFailed': '이 시즌의 에피소드를 불러오지 못했습니다.',
+  'tv.noEpisodes': '등록된 에피소드가 없습니다.',
+  'tv.episodeLabel': '{number}화',
+  'tv.noAirDate': '방영일 미정',
+
+  'credits.title': '출연진 및 제작진',
+  'credits.cast': '출연진',
+  'credits.director': '감독',
+  'credits.writer': '각본',
+  'credits.composer': '음악',
+  'credits.profileAlt': '{name} 프로필 사진',
+  'reviews.title': '리뷰',
+  'reviews.count': '{count}개',
+  'reviews.loading': '리뷰를 불러오는 중...',
+  'reviews.failed': '리뷰를 불러오지 못했습니다.',
+  'reviews.empty': '아직 등록된 리뷰가 없습니다.',
+  'reviews.emptyWithFallback': '{language} 리뷰도, 영어 리뷰도 아직 없습니다.',
+  'reviews.fallback': '{language} 리뷰가 없어 영어 리뷰를 보여드립니다.',
+  'reviews.rating': '{rating}/10',
+  'reviews.ratingLabel': '평점 10점 만점에 {rating}점',
+  'reviews.expand': '더 보기',
+  'reviews.expandSpoiler': '스포일러 포함 전체 보기',
+  'reviews.collapse': '접기',
+  'reviews.spoilerHidden': '이후 내용에는 스포일러가 포함되어 있어 숨겨두었습니다.',
+  'reviews.original': 'TMDB에서 원문 보기',
+  'reviews.pagination': '리뷰 페이지',
+  'reviews.previous': '이전',
+  'reviews.next': '다음',
+  'reviews.page': '{page} / {total} 페이지',
+  'providers.title': '{region}에서 볼 수 있는 곳',
+  'providers.none': '{region}에서는 아직 이 작품을 제공하는 서비스가 없습니다.',
+  'providers.stream': '구독',
+  'providers.free': '무료',
+  'providers.ads': '광고 포함 무료',
+  'providers.rent': '대여',
+  'providers.buy': '구매',
+  'providers.subscribed': '구독 중',
+  'providers.credit': 'JustWatch 제공 정보 · 자세히 보기',
+
+  'video.title': '동영상',
+  'video.close': '플레이어 닫기',
+  'video.playerTitle': '{title} - {name}',
+  'video.empty': '재생할 수 있는 영상이 없습니다.',
+  'video.otherClips': '다른 영상',
+  'video.type.trailer': '예고편',
+  'video.type.teaser': '티저',
+  'video.type.clip': '클립',
+  'video.type.featurette': '메이킹 영상',
+  'video.type.behindTheScenes': '비하인드',
+  'video.type.bloopers': 'NG 장면',
+
+  'person.missingId': 'URL에 인물 ID가 없습니다.',
+  'person.missingKey': '인물 정보를 불러오려면 로그인 페이지에서 TMDB API 키를 등록해주세요.',
+  'person.notFound': '해당 ID의 인물 정보를 찾을 수 없습니다.',
+  'person.failed': '지금은 이 인물 정보를 불러올 수 없습니다. 잠시 후 다시 시도해주세요.',
+  'person.loading': '인물 정보를 불러오는 중...',
+  'person.birthday': '출생',
+  'person.deathday': '사망',
+  'person.placeOfBirth': '출생지',
+  'person.noBiography': '등록된 소개가 없습니다.',
+  'person.filmography': '필모그래피',
+  'person.filmographyCount': '{count}편',
+  'person.creditsFailed': '필모그래피를 불러오지 못했습니다.',
+  'person.noCredits': '등록된 영화 출연·참여 기록이 없습니다.',
+  'collection.partOf': '이 영화가 속한 컬렉션',
+  'collection.view': '컬렉션 보기',
+  'collection.eyebrow': '컬렉션',
+  'collection.missingId': 'URL에 컬렉션 ID가 없습니다.',
+  'collection.missingKey': '컬렉션 정보를 불러오려면 로그인 페이지에서 TMDB API 키를 등록해주세요.',
+  'collection.notFound': '해당 ID의 컬렉션을 찾을 수 없습니다.',
+  'collection.failed': '지금은 이 컬렉션을 불러올 수 없습니다. 잠시 후 다시 시도해주세요.',
+  'collection.loading': '컬렉션 정보를 불러오는 중...',
+  'collection.noOverview': '등록된 소개가 없습니다.',
+  'collection.progress': '{total}편 중 {watched}편 관람',
+  'collection.addAll': '컬렉션 전체를 위시리스트에 추가 ({count}편)',
+  'collection.allInWishlist': '모든 작품이 위시리스트에 있습니다',
+  'collection.upcoming': '개봉 예정',
+  'collection.watched': '봤어요',
+
+  'wishlist.missingKey': '위시리스트를 불러오려면 로그인 페이지에서 TMDB 키를 등록해주세요.',
+  'wishlist.failed': '위시리스트를 불러오는 중 문제가 발생했습니다.',
+  'wishlist.itemFailed': '이 작품 정보를 불러오지 못했습니다.',
+  'wishlist.eyebrow': '위시리스트',
+  'wishlist.title': '저장해 둔 작품을 한곳에서 확인하세요.',
+  'wishlist.description': '마음에 든 타이틀을 모아두고 언제든 다시 이어서 감상하세요.',
+  'wishlist.savedHeader': '저장된 작품',
+  'wishlist.noneSaved': '아직 저장된 항목이 없습니다.',
+  'wishlist.removeHint': '별 표시를 눌러 언제든 제거하세요.',
+  'wishlist.storageHeader': '보관 방식',
+  'wishlist.storageValue': '이 기기',
+  'wishlist.storageHint': '이 기기에 저장되어 언제든 확인할 수 있어요.',
+  'wishlist.emptyTitle': '아직 저장된 영화가 없습니다.',
+  'wishlist.emptyHint': '카드에서 바로 즐겨찾기를 추가하거나 아래 버튼으로 이동하세요.',
+  'wishlist.goHome': '홈 둘러보기',
+  'wishlist.goPopular': '인기작 보기',
+  'wishlist.loading': '위시리스트를 불러오는 중...',
+  'wishlist.nothingToShow': '표시할 영화 정보를 찾을 수 없습니다.',
+
+  'profile.eyebrow': '프로필 & 설정',
+  'profile.title': '한눈에 계정과 기기 설정을 확인하세요.',
+  'profile.description': '로그인 상태, 테마, 위시리스트 정보를 편하게 관리할 수 있습니다.',
+  'profile.signedInAccount': '로그인된 계정',
+  'profile.noEmail': '이메일 정보를 찾을 수 없습니다',
+  'profile.sessionActive': '세션 유지 중',
+  'profile.sessionEnded': '세션 종료됨',
+  'profile.deviceLabel': '기기 정보',
+  'profile.storageTitle': '저장 상태',
+  'profile.keepLogin': '로그인 유지',
+  'profile.rememberedEmail': '저장된 이메일',
+  'profile.none': '없음',
+  'profile.wishlist': '위시리스트',
+  'profile.currentTheme': '현재 테마',
+  'profile.currentLanguage': '현재 언어',
+  'profile.currentRegion': '현재 지역',
+  'profile.themeDark': '다크',
+  'profile.themeLight': '라이트',
+  'profile.wishlistSummaryLabel': '위시리스트 요약',
+  'profile.wishlistSummaryTitle': '저장된 영화',
+  'profile.wishlistSummaryEmpty': '아직 위시리스트가 비어 있습니다.',
+  'profile.wishlistSummaryCount': '위시리스트에 {count}개가 저장되어 있습니다.',
+  'profile.viewWishlist': '위시리스트 보기',
+  'profile.savedLoginLabel': '저장된 로그인 정보',
+  'profile.savedLoginTitle': '저장된 이메일',
+  'profile.notSaved': '저장되지 않음',
+  'profile.savedLoginHint': '빠른 로그인을 위해 이 기기에 저장됩니다.',
+  'profile.themeLabel': '테마 설정',
+  'profile.themeTitle': '다크 vs 라이트',
+  'profile.themeHint': '선택한 모드는 이 기기에 저장돼요.',
+  'profile.themeToggle': '테마 전환',
+  'profile.languageLabel': '언어 설정',
+  'profile.languageTitle': '표시 언어',
+  'profile.languageHint': '화면 문구, TMDB 작품 정보, 날짜·숫자 형식이 선택한 언어로 바뀝니다.',
+  'profile.languageToggle': '언어 선택',
+  'profile.regionLabel': '지역 설정',
+  'profile.regionTitle': '개봉 지역',
+  'profile.regionHint': '상영 중·개봉 예정 목록, 검색 결과, 상세 페이지의 개봉일과 관람 등급이 이 지역 기준으로 표시됩니다.',
+  'profile.providersLabel': '구독 서비스',
+  'profile.providersTitle': '내가 구독 중인 OTT',
+  'profile.providersHint': '선택한 서비스는 상세 페이지에서 강조되고 검색의 구독 서비스 필터에 사용됩니다. 목록은 {region} 기준입니다.',
+  'profile.providersMissingKey': '서비스 목록을 불러오려면 TMDB API 키를 등록해주세요.',
+  'profile.providersLoading': '서비스 목록을 불러오는 중...',
+  'profile.providersFailed': '서비스 목록을 불러오지 못했습니다. 이미 선택한 서비스만 표시합니다.',
+  'profile.providersSelected': '{count}개 선택됨',
+  'profile.providersShowAll': '전체 {count}개 보기',
+  'profile.providersShowLess': '주요 서비스만 보기',
+  'profile.cacheLabel': '데이터 캐시',
+  'profile.cacheTitle': '저장된 TMDB 응답',
+  'profile.cacheHint': '한 번 불러온 목록과 상세 정보는 이 기기에 보관되어 다음 방문 시 바로 표시됩니다.',
+  'profile.cacheEntries': '항목',
+  'profile.cacheSize': '용량',
+  'profile.clearCache': '캐시 비우기',
+  'profile.logoutLabel': '로그아웃',
+  'profile.logoutTitle': '이 세션 종료',
+  'profile.logoutHint': '저장된 로그인 정보와 TMDB 키가 삭제됩니다.',
+  'profile.logout': '로그아웃',
+
+  'signin.invalidEmail': '올바른 이메일 주소를 입력해주세요.',
+  'signin.keyRequired': '로그인하려면 TMDB API 키가 필요합니다.',
+  'signin.userNotFound': '해당 이메일과 TMDB 키로 등록된 사용자를 찾을 수 없습니다.',
+  'signin.success': '로그인에 성공했습니다! 곧 이동합니다...',
+  'signin.signupInvalidEmail': '회원가입 전에 올바른 이메일을 입력해주세요.',
+  'signin.signupKeyRequired': 'TMDB API 키를 입력해주세요.',
+  'signin.signupKeyMismatch': 'TMDB API 키 확인 값이 일치하지 않습니다.',
+  'signin.signupTermsRequired': '서비스 약관에 동의해야 합니다.',
+  'signin.signupFailed': '회원가입을 완료할 수 없습니다.',
+  'signin.signupSuccess': '계정이 생성되었습니다! TMDB 키로 로그인해주세요.',
+  'signin.eyebrow': 'NaDaflix에 오신 것을 환영합니다',
+  'signin.title': '최신 인기작부터 숨은 명작까지 한곳에서 만나보세요.',
+  'signin.supporting': '등록한 TMDB 키는 이 기기에 안전하게 보관되며 언제든지 변경하거나 삭제할 수 있습니다.',
+  'signin.toSignup': '계정이 없나요? 가입하기',
+  'signin.toSignin': '이미 계정이 있나요? 로그인하기',
+  'signin.heading': '로그인',
+  'signin.email': '이메일',
+  'signin.apiKey': 'TMDB API 키',
+  'signin.apiKeyPlaceholder': 'TMDB 키를 붙여넣으세요',
+  'signin.rememberEmail': '이메일 기억하기',
+  'signin.checking': '확인 중...',
+  'signin.submit': '앱으로 이동',
+  'signin.signupHeading': '계정 만들기',
+  'signin.signupKeyPlaceholder': 'TMDB API 키',
+  'signin.confirmKey': 'TMDB 키 확인',
+  'signin.confirmKeyPlaceholder': 'TMDB 키를 다시 입력하세요',
+  'signin.termsTitle': '약관 동의',
+  'signin.termsBody': '이 기기에 입력한 TMDB 키가 저장되며 나중에 언제든 삭제할 수 있다는 사실을 확인했습니다.',
+  'signin.creating': '생성 중...',
+  'signin.signupSubmit': '회원가입',
+
+  'auth.emailTaken': '이미 등록된 이메일입니다.',
+  'auth.invalidCredentials': '입력하신 정보가 올바르지 않습니다.',
+} as const
+
+export type MessageKey = keyof typeof ko
+
+export default ko
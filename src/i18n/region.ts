@@ -0,0 +1,54 @@
+/** ISO 3166-1 codes offered in the region picker. TMDb accepts any code, these are just the menu. */
+export const REGIONS = ['KR', 'US', 'JP', 'GB', 'CA', 'AU', 'DE', 'FR', 'ES', 'IT', 'IN', 'BR'] as const
+
+export type Region = (typeof REGIONS)[number]
+
+export const REGION_STORAGE_KEY = 'region'
+
+const DEFAULT_REGION: Region = 'KR'
+
+/** Fallback for browser locales that carry only a language (`en`, `ja`), not a region. */
+const REGION_BY_LANGUAGE: Record<string, Region> = {
+  ko: 'KR',
+  en: 'US',
+  ja: 'JP',
+  de: 'DE',
+  fr: 'FR',
+  es: 'ES',
+  it: 'IT',
+  hi: 'IN',
+  pt: 'BR',
+}
+
+const canUseStorage = () => typeof window !== 'undefined' && !!window.localStorage
+
+export const isRegion = (value: unknown): value is Region =>
+  typeof value === 'string' && (REGIONS as readonly string[]).includes(value)
+
+/** Picks the first supported region from `navigator.languages`, e.g. `en-GB` -> `GB`. */
+export const detectBrowserRegion = (): Region => {
+  if (typeof navigator === 'undefined') return DEFAULT_REGION
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language]
+
+  for (const tag of languages) {
+    if (!tag) continue
+    const [language, ...subtags] = tag.split('-')
+    const region = subtags.find((subtag) => /^[A-Za-z]{2}$/.test(subtag))?.toUpperCase()
+    if (isRegion(region)) return region
+    const fallback = REGION_BY_LANGUAGE[language.toLowerCase()]
+    if (fallback) return fallback
+  }
+
+  return DEFAULT_REGION
+}
+
+export const getStoredRegion = (): Region => {
+  if (!canUseStorage()) return detectBrowserRegion()
+  const stored = window.localStorage.getItem(REGION_STORAGE_KEY)
+  return isRegion(stored) ? stored : detectBrowserRegion()
+}
+
+export const saveRegionPreference = (region: Region) => {
+  if (!canUseStorage()) return
+  window.localStorage.setItem(REGION_STORAGE_KEY, region)
+}
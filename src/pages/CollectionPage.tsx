@@ -0,0 +1,254 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { TmdbNotFoundError, getTmdbErrorMessage } from '../api/errors'
+import type { RetryInfo } from '../api/scheduler'
+import type { CollectionDetail, Movie } from '../api/types'
+import RetryNotice from '../components/RetryNotice'
+import TmdbImage from '../components/TmdbImage'
+import { useTmdbClient } from '../hooks/useTmdbClient'
+import { useWatched } from '../hooks/useWatched'
+import { useWishlist } from '../hooks/useWishlist'
+import { useI18n } from '../i18n/context'
+
+/** Announced parts can't have been seen yet, so they don't count towards progress. */
+const isReleased = (movie: Movie) => {
+  const timestamp = movie.release_date ? Date.parse(movie.release_date) : Number.NaN
+  return !Number.isNaN(timestamp) && timestamp <= Date.now()
+}
+
+const toWishlistEntry = (movie: Movie) => ({
+  id: movie.id,
+  title: movie.title,
+  poster_path: movie.poster_path ?? null,
+  media_type: 'movie' as const,
+})
+
+/**
+ * A franchise page: every part in release order, how many of them the user has marked as watched,
+ * and a shortcut to put the whole series on the wishlist. Watched marks live in LocalStorage.
+ */
+const CollectionPage = () => {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const client = useTmdbClient()
+  const { toggleWishlist, isInWishlist, addAllToWishlist } = useWishlist()
+  const { isWatched, toggleWatched } = useWatched()
+  const { t, formatDate } = useI18n()
+
+  const [collection, setCollection] = useState<CollectionDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [retry, setRetry] = useState<RetryInfo | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const fetchCollection = useCallback(async () => {
+    if (!id) {
+      setError(t('collection.missingId'))
+      setCollection(null)
+      setLoading(false)
+      return
+    }
+
+    if (!client.hasKey) {
+      setError(t('collection.missingKey'))
+      setCollection(null)
+      setLoading(false)
+      return
+    }
+
+    const controller = new AbortController()
+    abortRef.current?.abort()
+    abortRef.current = controller
+
+    let hasCached = false
+    setLoading(true)
+    setError(null)
+
+    try {
+      const payload = await client.getCollection(id, {
+        signal: controller.signal,
+        onCached: (cached) => {
+          hasCached = true
+          setCollection(cached)
+          setLoading(false)
+        },
+        onRetry: setRetry,
+      })
+      setCollection(payload)
+    } catch (fetchError) {
+      if (controller.signal.aborted || hasCached) return
+
+      setCollection(null)
+      setError(
+        fetchError instanceof TmdbNotFoundError
+          ? t('collection.notFound')
+          : getTmdbErrorMessage(fetchError, t('collection.failed')),
+      )
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null
+      }
+      if (!controller.signal.aborted) {
+        setLoading(false)
+        setRetry(null)
+      }
+    }
+  }, [client, id, t])
+
+  useEffect(() => {
+    fetchCollection()
+    return () => {
+      abortRef.current?.abort()
+    }
+  }, [fetchCollection])
+
+  const parts = useMemo(() => collection?.parts ?? [], [collection])
+  const released = parts.filter(isReleased)
+  const watchedCount = released.filter((movie) => isWatched(movie.id)).length
+  const missingFromWishlist = parts.filter((movie) => !isInWishlist(movie.id, 'movie'))
+
+  const handleAddAll = () => {
+    addAllToWishlist(missingFromWishlist.map(toWishlistEntry))
+  }
+
+  const handleBack = () => {
+    navigate(-1)
+  }
+
+  return (
+    <div className="page collection-page">
+      <button type="button" className="detail-back-btn" onClick={handleBack}>
+        {t('common.back')}
+      </button>
+
+      {loading ? (
+        <div className="movie-detail__status" role="status">
+          <span className="loading-spinner" aria-hidden="true" />
+          <p>{t('collection.loading')}</p>
+          <RetryNotice retry={retry} />
+        </div>
+      ) : error ? (
+        <div className="movie-detail__status movie-detail__status--error" role="alert">
+          <p>{error}</p>
+          <div className="movie-detail__status-actions">
+            <button type="button" onClick={fetchCollection}>
+              {t('common.retry')}
+            </button>
+          </div>
+        </div>
+      ) : collection ? (
+        <>
+          <section className="collection-hero" aria-live="polite">
+            <TmdbImage
+              path={collection.backdrop_path}
+              kind="backdrop"
+              alt=""
+              sizes="(max-width: 1280px) 100vw, 1280px"
+              className="collection-hero__backdrop"
+              loading="eager"
+              fallback={null}
+            />
+            <div className="collection-hero__poster">
+              <TmdbImage
+                path={collection.poster_path}
+                kind="poster"
+                alt={t('common.posterAlt', { title: collection.name })}
+                sizes="220px"
+                loading="eager"
+              />
+            </div>
+            <div className="collection-hero__info">
+              <p className="eyebrow">{t('collection.eyebrow')}</p>
+              <h1>{collection.name}</h1>
+              <p>{collection.overview?.trim() || t('collection.noOverview')}</p>
+              {released.length > 0 && (
+                <div className="collection-progress">
+                  <span id="collection-progress-label">
+                    {t('collection.progress', { watched: watchedCount, total: released.length })}
+                  </span>
+                  <progress
+                    value={watchedCount}
+                    max={released.length}
+                    aria-labelledby="collection-progress-label"
+                  />
+                </div>
+              )}
+              <button
+                type="button"
+                className="detail-wishlist"
+                onClick={handleAddAll}
+                disabled={missingFromWishlist.length === 0}
+              >
+                {missingFromWishlist.length === 0
+                  ? t('collection.allInWishlist')
+                  : t('collection.addAll', { count: missingFromWishlist.length })}
+              </button>
+            </div>
+          </section>
+
+          <ol className="collection-parts">
+            {parts.map((movie) => {
+              const wished = isInWishlist(movie.id, 'movie')
+              const watched = isWatched(movie.id)
+              return (
+                <li key={movie.id} className={`collection-part ${watched ? 'is-watched' : ''}`}>
+                  <Link
+                    to={`/movie/${movie.id}`}
+                    className="collection-part__image"
+                    tabIndex={-1}
+                    aria-hidden="true"
+                  >
+                    <TmdbImage
+                      path={movie.backdrop_path ?? movie.poster_path}
+                      kind={movie.backdrop_path ? 'backdrop' : 'poster'}
+                      alt=""
+                      sizes="(max-width: 720px) 100vw, 320px"
+                    />
+                  </Link>
+                  <div className="collection-part__body">
+                    <h2>
+                      <Link to={`/movie/${movie.id}`}>{movie.title}</Link>
+                    </h2>
+                    <p className="collection-part__date">
+                      {movie.release_date
+                        ? formatDate(movie.release_date)
+                        : t('detail.noReleaseDate')}
+                      {!isReleased(movie) && (
+                        <span className="collection-part__badge">{t('collection.upcoming')}</span>
+                      )}
+                    </p>
+                    <p className="collection-part__overview">
+                      {movie.overview?.trim() || t('detail.noOverview')}
+                    </p>
+                    <div className="collection-part__actions">
+                      {isReleased(movie) && (
+                        <button
+                          type="button"
+                          className={`pill-button ${watched ? 'is-active' : ''}`}
+                          aria-pressed={watched}
+                          onClick={() => toggleWatched(movie.id)}
+                        >
+                          {watched && '✓ '}
+                          {t('collection.watched')}
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        className={`pill-button ${wished ? 'is-active' : ''}`}
+                        onClick={() => toggleWishlist(toWishlistEntry(movie))}
+                      >
+                        {wished ? t('detail.removeFromWishlist') : t('detail.addToWishlist')}
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              )
+            })}
+          </ol>
+        </>
+      ) : null}
+    </div>
+  )
+}
+
+export default CollectionPage
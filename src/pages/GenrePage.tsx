@@ -0,0 +1,151 @@
+import { useCallback, useMemo } from 'react'
+import { Link, useParams, useSearchParams } from 'react-router-dom'
+import type { MediaType } from '../api/types'
+import MovieCard from '../components/MovieCard'
+import RetryNotice from '../components/RetryNotice'
+import { useGenres } from '../hooks/useGenres'
+import { useMovies, type Movie } from '../hooks/useMovies'
+import { useWishlist } from '../hooks/useWishlist'
+import { useI18n } from '../i18n/context'
+
+/**
+ * Browses one genre through Discover, most popular first, a page at a time. Movie and TV genres
+ * use different ids, so series genres are addressed as `/genre/:id?type=tv`.
+ */
+const GenrePage = () => {
+  const { id = '' } = useParams<{ id: string }>()
+  const [searchParams] = useSearchParams()
+  const mediaType: MediaType = searchParams.get('type') === 'tv' ? 'tv' : 'movie'
+  const { t, region, formatNumber } = useI18n()
+  const { genres, getGenreName } = useGenres(mediaType)
+  const { toggleWishlist, isInWishlist } = useWishlist()
+
+  const params = useMemo(
+    () => ({
+      with_genres: id,
+      sort_by: 'popularity.desc',
+      include_adult: false,
+      ...(mediaType === 'movie' ? { region } : {}),
+    }),
+    [id, mediaType, region],
+  )
+  const {
+    movies,
+    page,
+    hasMore,
+    hasFetched,
+    totalResults,
+    loading,
+    retry,
+    error,
+    goToPage,
+    refetch,
+  } = useMovies(`/discover/${mediaType}`, { params })
+
+  const genreName = getGenreName(Number(id))
+  const otherGenres = genres.filter((genre) => String(genre.id) !== id)
+  const typeQuery = mediaType === 'tv' ? '?type=tv' : ''
+
+  const handleToggleWishlist = useCallback(
+    (movie: Movie) => {
+      toggleWishlist({
+        id: movie.id,
+        title: movie.title,
+        poster_path: movie.poster_path ?? null,
+        media_type: movie.media_type,
+      })
+    },
+    [toggleWishlist],
+  )
+
+  const handlePaginate = (targetPage: number) => {
+    goToPage(targetPage)
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  const showEmptyState = hasFetched && !loading && !error && movies.length === 0
+
+  return (
+    <div className="page genre-page">
+      <section className="page-hero">
+        <p className="eyebrow">{mediaType === 'tv' ? t('genre.eyebrowTv') : t('genre.eyebrow')}</p>
+        <h1>{genreName ?? t('genre.unknown')}</h1>
+        <p>
+          {hasFetched
+            ? t('genre.resultCount', { count: formatNumber(totalResults) })
+            : t('genre.description')}
+        </p>
+      </section>
+
+      {otherGenres.length > 0 && (
+        <nav className="genre-page__others" aria-label={t('genre.others')}>
+          {otherGenres.map((genre) => (
+            <Link
+              key={genre.id}
+              to={`/genre/${genre.id}${typeQuery}`}
+              className="movie-detail__genre"
+            >
+              {genre.name}
+            </Link>
+          ))}
+        </nav>
+      )}
+
+      <div className="popular-movie-stage stage-table">
+        <div className="popular-movie-grid">
+          {movies.map((movie) => (
+            <MovieCard
+              key={movie.id}
+              movie={movie}
+              wished={isInWishlist(movie.id, movie.media_type)}
+              onToggleWishlist={handleToggleWishlist}
+            />
+          ))}
+        </div>
+
+        {loading && (
+          <div className="popular-overlay" aria-live="polite">
+            <span className="loading-spinner" aria-hidden="true" />
+            <span>{t('common.loadingData')}</span>
+            <RetryNotice retry={retry} />
+          </div>
+        )}
+
+        {showEmptyState && (
+          <p className="popular-feedback popular-feedback--empty">{t('genre.empty')}</p>
+        )}
+
+        {error && (
+          <div className="popular-feedback popular-feedback--error" role="alert">
+            {error}
+            <button type="button" onClick={refetch}>
+              {t('common.retry')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {(page > 1 || hasMore) && (
+        <nav className="popular-pagination" aria-label={t('genre.pagination')}>
+          <button
+            type="button"
+            onClick={() => handlePaginate(page - 1)}
+            disabled={page === 1 || loading}
+          >
+            {t('popular.previous')}
+          </button>
+          <span className="popular-pagination__page">{t('popular.page', { page })}</span>
+          <button
+            type="button"
+            onClick={() => handlePaginate(page + 1)}
+            disabled={!hasMore || loading}
+          >
+            {t('popular.next')}
+          </button>
+        </nav>
+      )}
+    </div>
+  )
+}
+
+export default GenrePage
@@ -1,8 +1,15 @@
+import { useMemo } from 'react'
+import type { MediaType } from '../api/types'
 import type { Movie } from '../hooks/useMovies'
 import MovieSection from '../components/MovieSection'
 import { useAuth } from '../context/AuthContext'
 import { useMovies } from '../hooks/useMovies'
+import { toSavedRunState, useSavedSearches, type SavedSearch } from '../hooks/useSavedSearches'
+import { useSearchPreview } from '../hooks/useSearchPreview'
+import { useTrendingMovement } from '../hooks/useTrendingMovement'
 import { useWishlist } from '../hooks/useWishlist'
+import { useI18n } from '../i18n/context'
+import { toResultKey } from '../utils/searchFilters'
 
 /**
  * The Home page dynamically fetches multiple movie categories from the movie API and renders them
@@ -11,42 +18,106 @@ import { useWishlist } from '../hooks/useWishlist'
  */
 
 const SECTION_CONFIG = [
+  {
+    id: 'trending',
+    titleKey: 'home.section.trending',
+    endpoint: '/trending/movie/day',
+    ranked: true,
+  },
   {
     id: 'popular',
-    title: '인기 영화',
-    endpoint: '/movie/popular?language=ko-KR&page=1',
+    titleKey: 'home.section.popular',
+    endpoint: '/movie/popular',
   },
   {
     id: 'now-playing',
-    title: '상영 중',
-    endpoint: '/movie/now_playing?language=ko-KR&page=1',
+    titleKey: 'home.section.nowPlaying',
+    endpoint: '/movie/now_playing',
+    regional: true,
   },
   {
     id: 'top-rated',
-    title: '최고 평점',
-    endpoint: '/movie/top_rated?language=ko-KR&page=1',
+    titleKey: 'home.section.topRated',
+    endpoint: '/movie/top_rated',
   },
   {
     id: 'upcoming',
-    title: '개봉 예정',
-    endpoint: '/movie/upcoming?language=ko-KR&page=1',
+    titleKey: 'home.section.upcoming',
+    endpoint: '/movie/upcoming',
+    regional: true,
+  },
+  {
+    id: 'tv-popular',
+    titleKey: 'home.section.tvPopular',
+    endpoint: '/tv/popular',
+  },
+  {
+    id: 'tv-top-rated',
+    titleKey: 'home.section.tvTopRated',
+    endpoint: '/tv/top_rated',
   },
 ] as const
 
+type SavedSearchRowProps = {
+  search: SavedSearch
+  onToggleWishlist: (movie: Movie) => void
+  isInWishlist: (id: number, mediaType?: MediaType) => boolean
+}
+
+/** A saved search pinned from the Search page, titled with what is new since its last run. */
+const SavedSearchRow = ({ search, onToggleWishlist, isInWishlist }: SavedSearchRowProps) => {
+  const { t } = useI18n()
+  const { movies, loading, retry, error } = useSearchPreview(search.query)
+  const newCount = search.lastRunAt
+    ? movies.filter((movie) => !search.lastResultKeys.includes(toResultKey(movie))).length
+    : 0
+
+  return (
+    <MovieSection
+      title={
+        newCount > 0
+          ? t('home.savedSearchTitle', { name: search.name, count: newCount })
+          : search.name
+      }
+      movies={movies}
+      loading={loading}
+      retry={retry}
+      error={error}
+      onToggleWishlist={onToggleWishlist}
+      isInWishlist={isInWishlist}
+      moreLink={{
+        to: `/search?${search.query}`,
+        label: t('home.savedSearchMore'),
+        state: toSavedRunState(search.id),
+      }}
+    />
+  )
+}
+
 const HomePage = () => {
   const { tmdbKey } = useAuth()
   const { wishlist, toggleWishlist, isInWishlist } = useWishlist()
+  const { saved } = useSavedSearches()
+  const { t, region, formatRegion } = useI18n()
+  const regionParams = useMemo(() => ({ region }), [region])
 
-  const popularState = useMovies(SECTION_CONFIG[0].endpoint, { tmdbKey })
-  const nowPlayingState = useMovies(SECTION_CONFIG[1].endpoint, { tmdbKey })
-  const topRatedState = useMovies(SECTION_CONFIG[2].endpoint, { tmdbKey })
-  const upcomingState = useMovies(SECTION_CONFIG[3].endpoint, { tmdbKey })
+  const trendingState = useMovies(SECTION_CONFIG[0].endpoint, { tmdbKey })
+  const popularState = useMovies(SECTION_CONFIG[1].endpoint, { tmdbKey })
+  const nowPlayingState = useMovies(SECTION_CONFIG[2].endpoint, { tmdbKey, params: regionParams })
+  const topRatedState = useMovies(SECTION_CONFIG[3].endpoint, { tmdbKey })
+  const upcomingState = useMovies(SECTION_CONFIG[4].endpoint, { tmdbKey, params: regionParams })
+  const tvPopularState = useMovies(SECTION_CONFIG[5].endpoint, { tmdbKey })
+  const tvTopRatedState = useMovies(SECTION_CONFIG[6].endpoint, { tmdbKey })
+  const { getMovement } = useTrendingMovement('day', trendingState.movies)
 
   const sections = [
-    { ...SECTION_CONFIG[0], ...popularState },
-    { ...SECTION_CONFIG[1], ...nowPlayingState },
-    { ...SECTION_CONFIG[2], ...topRatedState },
-    { ...SECTION_CONFIG[3], ...upcomingState },
+    { ...SECTION_CONFIG[0], ...trendingState },
+    { ...SECTION_CONFIG[1], ...popularState },
+    { ...SECTION_CONFIG[2], ...nowPlayingState },
+    { ...SECTION_CONFIG[3], ...topRatedState },
+    { ...SECTION_CONFIG[4], ...upcomingState },
+    { ...SECTION_CONFIG[5], ...tvPopularState },
+    { ...SECTION_CONFIG[6], ...tvTopRatedState },
   ]
 
   const handleToggleWishlist = (movie: Movie) => {
@@ -54,30 +125,31 @@ const HomePage = () => {
       id: movie.id,
       title: movie.title,
       poster_path: movie.poster_path ?? null,
+      media_type: movie.media_type,
     })
   }
 
   const tmdbStatus = tmdbKey
-    ? '저장된 TMDB 키를 사용 중입니다.'
-    : '데이터를 불러오려면 TMDB 키를 연동해주세요.'
+    ? t('home.keyInUse')
+    : t('home.keyMissing')
 
   return (
     <div className="page home-page">
       <section className="page-hero home-hero">
-        <p className="eyebrow">당신만을 위한 허브</p>
-        <h1>이 페이지에서 여러 영화 컬렉션을 한 번에 둘러보세요.</h1>
-        <p>각 캐러셀은 실시간 데이터를 불러오고 위시리스트와 자동으로 동기화됩니다.</p>
+        <p className="eyebrow">{t('home.eyebrow')}</p>
+        <h1>{t('home.title')}</h1>
+        <p>{t('home.description')}</p>
 
         <div className="home-status">
           <article>
-            <header>인증 상태</header>
-            <strong>{tmdbKey ? 'TMDB 키 연동됨' : 'TMDB 키 없음'}</strong>
+            <header>{t('home.authHeader')}</header>
+            <strong>{tmdbKey ? t('home.keyLinked') : t('home.keyNone')}</strong>
             <p>{tmdbStatus}</p>
           </article>
           <article>
-            <header>위시리스트</header>
-            <strong>{wishlist.length}개 저장됨</strong>
-            <p>어떤 카드에서든 ☆ 를 눌러 추가하거나 해제하세요.</p>
+            <header>{t('home.wishlistHeader')}</header>
+            <strong>{t('home.wishlistCount', { count: wishlist.length })}</strong>
+            <p>{t('home.wishlistHint')}</p>
           </article>
         </div>
       </section>
@@ -85,14 +157,43 @@ const HomePage = () => {
       {sections.map((section) => (
         <MovieSection
           key={section.id}
-          title={section.title}
+          title={
+            'regional' in section
+              ? t('home.section.regional', {
+                  title: t(section.titleKey),
+                  region: formatRegion(region),
+                })
+              : t(section.titleKey)
+          }
           movies={section.movies}
           loading={section.loading}
+          revalidating={section.revalidating}
+          retry={section.retry}
           error={section.error}
+          hasMore={section.hasMore}
+          loadingMore={section.loadingMore}
+          onLoadMore={section.loadMore}
           onToggleWishlist={handleToggleWishlist}
           isInWishlist={isInWishlist}
+          {...('ranked' in section && {
+            ranked: true,
+            getMovement,
+            moreLink: { to: '/trending', label: t('home.trendingMore') },
+          })}
         />
       ))}
+
+      {/* Pinned searches follow the built-in rows so trending stays at the top. */}
+      {saved
+        .filter((search) => search.pinned)
+        .map((search) => (
+          <SavedSearchRow
+            key={search.id}
+            search={search}
+            onToggleWishlist={handleToggleWishlist}
+            isInWishlist={isInWishlist}
+          />
+        ))}
     </div>
   )
 }
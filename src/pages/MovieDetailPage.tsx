@@ -1,78 +1,65 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
-import { useNavigate, useParams } from 'react-router-dom'
-import { useAuth } from '../context/AuthContext'
-import { getStoredTmdbKey } from '../utils/auth'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { TmdbNotFoundError, getTmdbErrorMessage } from '../api/errors'
+import type { RetryInfo } from '../api/scheduler'
+import { pickRegionalProviders, pickRegionalRelease } from '../api/tmdb'
+import type {
+  MovieAppend,
+  MovieCredits,
+  MovieDetail,
+  RegionalRelease,
+  RegionalWatchProviders,
+  WatchProvidersResponse,
+} from '../api/types'
+import CollectionBanner from '../components/CollectionBanner'
+import CreditsSection from '../components/CreditsSection'
+import MovieSection from '../components/MovieSection'
+import RetryNotice from '../components/RetryNotice'
+import ReviewsSection from '../components/ReviewsSection'
+import TmdbImage from '../components/TmdbImage'
+import VideoModal from '../components/VideoModal'
+import WatchProvidersSection from '../components/WatchProvidersSection'
+import type { Movie } from '../hooks/useMovies'
+import { useSubscriptions } from '../hooks/useSubscriptions'
+import { useTmdbClient } from '../hooks/useTmdbClient'
+import { useVideos } from '../hooks/useVideos'
 import { useWishlist } from '../hooks/useWishlist'
+import { useI18n } from '../i18n/context'
 
-type Genre = {
-  id: number
-  name: string
-}
-
-type MovieDetail = {
-  id: number
-  title: string
-  name?: string
-  overview?: string
-  poster_path: string | null
-  backdrop_path: string | null
-  release_date?: string
-  vote_average?: number
-  genres?: Genre[]
-  runtime?: number
-  status?: string
-  tagline?: string
-}
-
-const TMDB_BASE_URL = 'https://api.themoviedb.org/3'
-const TMDB_POSTER_BASE = 'https://image.tmdb.org/t/p/w500'
-const TMDB_BACKDROP_BASE = 'https://image.tmdb.org/t/p/original'
-const FALLBACK_POSTER = '/poster-fallback.svg'
-
-const formatReleaseDate = (value?: string) => {
-  if (!value) return '개봉일 정보 없음'
-  const date = new Date(value)
-  if (Number.isNaN(date.getTime())) return '개봉일 정보 없음'
-  return new Intl.DateTimeFormat('ko-KR', {
-    month: 'long',
-    day: 'numeric',
-    year: 'numeric',
-  }).format(date)
-}
-
-const formatRuntime = (value?: number) => {
-  if (!value || value <= 0) return null
-  const hours = Math.floor(value / 60)
-  const minutes = value % 60
-  if (hours > 0) {
-    return `${hours}시간 ${minutes}분`
-  }
-  return `${minutes}분`
-}
+/** Recommendation rows ride along with the detail request instead of costing two more calls. */
+const DETAIL_APPEND: MovieAppend[] = ['recommendations', 'similar']
 
 const MovieDetailPage = () => {
   const { id } = useParams<{ id: string }>()
   const navigate = useNavigate()
-  const { tmdbKey: contextKey } = useAuth()
-  const resolvedKey = useMemo(() => (contextKey || getStoredTmdbKey()).trim(), [contextKey])
+  const client = useTmdbClient()
   const { toggleWishlist, isInWishlist } = useWishlist()
+  const { isSubscribed } = useSubscriptions()
+  const { t, formatDate, formatRegion, formatRuntime, region } = useI18n()
 
   const [movie, setMovie] = useState<MovieDetail | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isWishlisted, setIsWishlisted] = useState(false)
+  const [retry, setRetry] = useState<RetryInfo | null>(null)
+  const [release, setRelease] = useState<RegionalRelease | null>(null)
+  const [credits, setCredits] = useState<MovieCredits | null>(null)
+  // `undefined` until loaded; `null` once TMDb says the movie isn't offered in the region.
+  const [providers, setProviders] = useState<RegionalWatchProviders | null | undefined>()
+  const [playerOpen, setPlayerOpen] = useState(false)
+  const { videos, trailer } = useVideos('movie', id)
   const abortRef = useRef<AbortController | null>(null)
 
   const fetchMovie = useCallback(async () => {
     if (!id) {
-      setError('URL에 영화 ID가 없습니다.')
+      setError(t('detail.missingId'))
       setMovie(null)
       setLoading(false)
       return
     }
 
-    if (!resolvedKey) {
-      setError('상세 정보를 불러오려면 로그인 페이지에서 TMDB API 키를 등록해주세요.')
+    if (!client.hasKey) {
+      setError(t('detail.missingKey'))
       setMovie(null)
       setLoading(false)
       return
@@ -82,56 +69,30 @@ const MovieDetailPage = () => {
     abortRef.current?.abort()
     abortRef.current = controller
 
+    let hasCached = false
     setLoading(true)
     setError(null)
 
     try {
-      const useBearer = resolvedKey.startsWith('eyJ')
-      const url = new URL(`${TMDB_BASE_URL}/movie/${id}`)
-      url.searchParams.set('language', 'ko-KR')
-
-      if (!useBearer) {
-        url.searchParams.set('api_key', resolvedKey)
-      }
-
-      const headers: HeadersInit = {
-        Accept: 'application/json',
-      }
-
-      if (useBearer) {
-        headers.Authorization = `Bearer ${resolvedKey}`
-      }
-
-      const response = await fetch(url.toString(), {
-        headers,
+      const normalized = await client.getMovieDetails(id, {
+        append: DETAIL_APPEND,
         signal: controller.signal,
+        onCached: (cached) => {
+          hasCached = true
+          setMovie(cached)
+          setLoading(false)
+        },
+        onRetry: setRetry,
       })
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new Error('TMDB에서 제공된 API 키를 거부했습니다. 키를 다시 확인한 뒤 시도해주세요.')
-        }
-        if (response.status === 404) {
-          throw new Error('해당 ID의 영화 정보를 찾을 수 없습니다.')
-        }
-        throw new Error('지금은 이 영화를 불러올 수 없습니다. 잠시 후 다시 시도해주세요.')
-      }
-
-      const payload = (await response.json()) as MovieDetail
-      const normalized: MovieDetail = {
-        ...payload,
-        title: payload.title || payload.name || '제목 미정',
-      }
-
       setMovie(normalized)
     } catch (fetchError) {
-      if (controller.signal.aborted) return
+      if (controller.signal.aborted || hasCached) return
 
       setMovie(null)
       setError(
-        fetchError instanceof Error
-          ? fetchError.message
-          : '이 작품을 불러오는 중 문제가 발생했습니다.',
+        fetchError instanceof TmdbNotFoundError
+          ? t('detail.notFound')
+          : getTmdbErrorMessage(fetchError, t('detail.failed')),
       )
     } finally {
       if (abortRef.current === controller) {
@@ -139,9 +100,10 @@ const MovieDetailPage = () => {
       }
       if (!controller.signal.aborted) {
         setLoading(false)
+        setRetry(null)
       }
     }
-  }, [id, resolvedKey])
+  }, [client, id, t])
 
   useEffect(() => {
     fetchMovie()
@@ -150,6 +112,64 @@ const MovieDetailPage = () => {
     }
   }, [fetchMovie])
 
+  // Regional dates and ratings are extras: failures just fall back to the global release date.
+  useEffect(() => {
+    setRelease(null)
+    if (!id || !client.hasKey) return
+
+    const controller = new AbortController()
+    client
+      .getReleaseDates(id, {
+        signal: controller.signal,
+        onCached: (cached) => setRelease(pickRegionalRelease(cached, region)),
+      })
+      .then((payload) => {
+        if (!controller.signal.aborted) setRelease(pickRegionalRelease(payload, region))
+      })
+      .catch(() => undefined)
+
+    return () => controller.abort()
+  }, [client, id, region])
+
+  // Same for cast and crew: without them the page simply has no credits section.
+  useEffect(() => {
+    setCredits(null)
+    if (!id || !client.hasKey) return
+
+    const controller = new AbortController()
+    client
+      .getMovieCredits(id, { signal: controller.signal, onCached: setCredits })
+      .then((payload) => {
+        if (!controller.signal.aborted) setCredits(payload)
+      })
+      .catch(() => undefined)
+
+    return () => controller.abort()
+  }, [client, id])
+
+  // Providers are per country, so they follow the region picker like the release dates above.
+  useEffect(() => {
+    setProviders(undefined)
+    if (!id || !client.hasKey) return
+
+    const controller = new AbortController()
+    const apply = (payload: WatchProvidersResponse) =>
+      setProviders(pickRegionalProviders(payload, region))
+    client
+      .getWatchProviders(id, { signal: controller.signal, onCached: apply })
+      .then((payload) => {
+        if (!controller.signal.aborted) apply(payload)
+      })
+      .catch(() => undefined)
+
+    return () => controller.abort()
+  }, [client, id, region])
+
+  // Picking a movie from the rows below swaps the id in place; start the new page at the top.
+  useEffect(() => {
+    window.scrollTo({ top: 0 })
+  }, [id])
+
   useEffect(() => {
     if (!movie) {
       setIsWishlisted(false)
@@ -158,17 +178,11 @@ const MovieDetailPage = () => {
     setIsWishlisted(isInWishlist(movie.id))
   }, [isInWishlist, movie])
 
-  const posterUrl = movie?.poster_path
-    ? `${TMDB_POSTER_BASE}${movie.poster_path}`
-    : FALLBACK_POSTER
-  const backdropStyle = movie?.backdrop_path
-    ? {
-        backgroundImage: `linear-gradient(120deg, rgba(10, 10, 10, 0.95), rgba(10, 10, 10, 0.7)), url(${TMDB_BACKDROP_BASE}${movie.backdrop_path})`,
-      }
-    : undefined
-  const formattedRelease = formatReleaseDate(movie?.release_date)
+  const releaseDate = release?.releaseDate ?? movie?.release_date
+  const formattedRelease = (releaseDate && formatDate(releaseDate)) || t('detail.noReleaseDate')
+  const regionName = formatRegion(region)
   const runtimeLabel = formatRuntime(movie?.runtime)
-  const overviewText = movie?.overview?.trim() || '설명이 준비되어 있지 않습니다.'
+  const overviewText = movie?.overview?.trim() || t('detail.noOverview')
   const ratingLabel =
     typeof movie?.vote_average === 'number' ? movie.vote_average.toFixed(1) : 'NR'
 
@@ -179,32 +193,71 @@ const MovieDetailPage = () => {
       id: movie.id,
       title: movie.title,
       poster_path: movie.poster_path ?? null,
+      media_type: 'movie',
     })
     setIsWishlisted((current) => !current)
   }
 
+  const { recommendations, similar } = useMemo(() => {
+    const recommended = (movie?.recommendations?.results ?? []).filter(
+      (item) => item.id !== movie?.id,
+    )
+    const recommendedIds = new Set(recommended.map((item) => item.id))
+    return {
+      recommendations: recommended,
+      // TMDb's two lists overlap a lot; a movie already recommended isn't repeated as "similar".
+      similar: (movie?.similar?.results ?? []).filter(
+        (item) => item.id !== movie?.id && !recommendedIds.has(item.id),
+      ),
+    }
+  }, [movie])
+
+  const handleToggleRelated = useCallback(
+    (item: Movie) => {
+      toggleWishlist({
+        id: item.id,
+        title: item.title,
+        poster_path: item.poster_path ?? null,
+        media_type: 'movie',
+      })
+    },
+    [toggleWishlist],
+  )
+
   const handleBack = () => {
     navigate(-1)
   }
 
   return (
     <div className="page movie-detail-page">
-      <div className="movie-detail" style={backdropStyle}>
+      <div className="movie-detail">
+        {movie?.backdrop_path && (
+          <TmdbImage
+            path={movie.backdrop_path}
+            kind="backdrop"
+            alt=""
+            sizes="(max-width: 1280px) 100vw, 1280px"
+            className="movie-detail__backdrop"
+            loading="eager"
+            fallback={null}
+          />
+        )}
         <div className="movie-detail__panel">
           <button type="button" className="detail-back-btn" onClick={handleBack}>
-            ← 뒤로가기
+            {t('common.back')}
           </button>
           {loading ? (
             <div className="movie-detail__status" role="status">
               <span className="loading-spinner" aria-hidden="true" />
-              <p>상세 정보를 불러오는 중...</p>
+              <p>{t('detail.loading')}</p>
+              <RetryNotice retry={retry} />
             </div>
           ) : error ? (
             <div className="movie-detail__status movie-detail__status--error" role="alert">
               <p>{error}</p>
               <div className="movie-detail__status-actions">
                 <button type="button" onClick={fetchMovie}>
-                  다시 시도
+                  {t('common.retry')}
                 </button>
               </div>
             </div>
@@ -212,40 +265,60 @@ const MovieDetailPage = () => {
             <div className="movie-detail__content" aria-live="polite">
               <div className="movie-detail__hero">
                 <div className="movie-detail__poster">
-                  <img src={posterUrl} alt={`${movie.title} 포스터`} />
+                  <TmdbImage
+                    path={movie.poster_path}
+                    kind="poster"
+                    alt={t('common.posterAlt', { title: movie.title })}
+                    sizes="320px"
+                    loading="eager"
+                  />
                 </div>
                 <div className="movie-detail__info">
-                  <p className="movie-detail__eyebrow">지금 감상 중</p>
+                  <p className="movie-detail__eyebrow">{t('detail.eyebrow')}</p>
                   <h1>{movie.title}</h1>
                   {movie.tagline && (
                     <p className="movie-detail__tagline">&ldquo;{movie.tagline}&rdquo;</p>
                   )}
                   <div className="movie-detail__meta">
                     <div>
-                      <span>평균 평점</span>
+                      <span>{t('detail.rating')}</span>
                       <strong>{ratingLabel}</strong>
                     </div>
                     <div>
-                      <span>개봉일</span>
+                      <span>
+                        {release?.releaseDate
+                          ? t('detail.regionalReleaseDate', { region: regionName })
+                          : t('detail.releaseDate')}
+                      </span>
                       <strong>{formattedRelease}</strong>
                     </div>
+                    {release?.certification && (
+                      <div>
+                        <span>{t('detail.certification', { region: regionName })}</span>
+                        <strong>{release.certification}</strong>
+                      </div>
+                    )}
                     {runtimeLabel && (
                       <div>
-                        <span>상영 시간</span>
+                        <span>{t('detail.runtime')}</span>
                         <strong>{runtimeLabel}</strong>
                       </div>
                     )}
                   </div>
-                  <div className="movie-detail__genres" aria-label="장르">
+                  <div className="movie-detail__genres" aria-label={t('detail.genres')}>
                     {(movie.genres ?? []).length > 0 ? (
                       (movie.genres ?? []).map((genre) => (
-                        <span key={genre.id} className="movie-detail__genre">
+                        <Link
+                          key={genre.id}
+                          to={`/genre/${genre.id}`}
+                          className="movie-detail__genre"
+                        >
                           {genre.name}
-                        </span>
+                        </Link>
                       ))
                     ) : (
                       <span className="movie-detail__genre movie-detail__genre--placeholder">
-                        등록된 장르가 없습니다
+                        {t('detail.noGenres')}
                       </span>
                     )}
                   </div>
@@ -256,11 +329,61 @@ const MovieDetailPage = () => {
                       className={`detail-wishlist ${isWishlisted ? 'is-active' : ''}`}
                       onClick={handleWishlistToggle}
                     >
-                      {isWishlisted ? '위시리스트에서 제거' : '위시리스트에 추가'}
+                      {isWishlisted ? t('detail.removeFromWishlist') : t('detail.addToWishlist')}
                     </button>
+                    {trailer && (
+                      <button
+                        type="button"
+                        className="detail-trailer"
+                        onClick={() => setPlayerOpen(true)}
+                        aria-haspopup="dialog"
+                      >
+                        ▶ {t('detail.watchTrailer')}
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
+              {movie.belongs_to_collection && (
+                <CollectionBanner collection={movie.belongs_to_collection} />
+              )}
+              {recommendations.length > 0 && (
+                <MovieSection
+                  title={t('detail.recommendations')}
+                  movies={recommendations}
+                  loading={false}
+                  error={null}
+                  onToggleWishlist={handleToggleRelated}
+                  isInWishlist={isInWishlist}
+                />
+              )}
+              {similar.length > 0 && (
+                <MovieSection
+                  title={t('detail.similar')}
+                  movies={similar}
+                  loading={false}
+                  error={null}
+                  onToggleWishlist={handleToggleRelated}
+                  isInWishlist={isInWishlist}
+                />
+              )}
+              {providers !== undefined && (
+                <WatchProvidersSection
+                  providers={providers}
+                  regionName={regionName}
+                  isSubscribed={isSubscribed}
+                />
+              )}
+              {credits && <CreditsSection credits={credits} />}
+              <ReviewsSection key={movie.id} movieId={movie.id} />
+              {playerOpen && (
+                <VideoModal
+                  videos={videos}
+                  initialVideo={trailer}
+                  title={movie.title}
+                  onClose={() => setPlayerOpen(false)}
+                />
+              )}
             </div>
           ) : null}
         </div>
@@ -0,0 +1,312 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import type { ChangeEvent } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { TmdbNotFoundError, getTmdbErrorMessage } from '../api/errors'
+import type { RetryInfo } from '../api/scheduler'
+import type { Movie, PersonDetail, PersonMovieCredits } from '../api/types'
+import MovieCard from '../components/MovieCard'
+import RetryNotice from '../components/RetryNotice'
+import TmdbImage from '../components/TmdbImage'
+import { useTmdbClient } from '../hooks/useTmdbClient'
+import { useWishlist } from '../hooks/useWishlist'
+import type { MessageKey } from '../i18n'
+import { useI18n } from '../i18n/context'
+
+type FilmographySort =
+  | 'popularity.desc'
+  | 'release_date.desc'
+  | 'release_date.asc'
+  | 'vote_average.desc'
+  | 'title.asc'
+
+type FilmographyEntry = {
+  movie: Movie
+  /** Characters played and jobs held on this movie, in credit order. */
+  roles: string[]
+}
+
+const SORT_OPTIONS: { labelKey: MessageKey; value: FilmographySort }[] = [
+  { labelKey: 'sort.popularityDesc', value: 'popularity.desc' },
+  { labelKey: 'sort.releaseDateDesc', value: 'release_date.desc' },
+  { labelKey: 'sort.releaseDateAsc', value: 'release_date.asc' },
+  { labelKey: 'sort.voteAverageDesc', value: 'vote_average.desc' },
+  { labelKey: 'sort.titleAsc', value: 'title.asc' },
+]
+
+const valueOrZero = (value?: number) => (typeof value === 'number' ? value : 0)
+const releaseDateValue = (value?: string) => {
+  if (!value) return 0
+  const timestamp = Date.parse(value)
+  return Number.isNaN(timestamp) ? 0 : timestamp
+}
+
+const comparators: Record<FilmographySort, (a: Movie, b: Movie) => number> = {
+  'popularity.desc': (a, b) => valueOrZero(b.popularity) - valueOrZero(a.popularity),
+  'release_date.desc': (a, b) => releaseDateValue(b.release_date) - releaseDateValue(a.release_date),
+  'release_date.asc': (a, b) => releaseDateValue(a.release_date) - releaseDateValue(b.release_date),
+  'vote_average.desc': (a, b) => valueOrZero(b.vote_average) - valueOrZero(a.vote_average),
+  'title.asc': (a, b) => a.title.localeCompare(b.title),
+}
+
+/** One entry per movie: an actor who also directed a film gets both roles on a single card. */
+const buildFilmography = (credits: PersonMovieCredits): FilmographyEntry[] => {
+  const entries = new Map<number, FilmographyEntry>()
+  const add = (movie: Movie, role: string | undefined) => {
+    const entry = entries.get(movie.id) ?? { movie, roles: [] }
+    if (role && !entry.roles.includes(role)) entry.roles.push(role)
+    entries.set(movie.id, entry)
+  }
+
+  credits.cast.forEach((credit) => add(credit, credit.character))
+  credits.crew.forEach((credit) => add(credit, credit.job))
+  return [...entries.values()]
+}
+
+/**
+ * The person page shows a cast or crew member's profile and every movie they worked on. The
+ * filmography reuses `MovieCard`, so it links to detail pages and toggles the wishlist like any
+ * other list.
+ */
+const PersonPage = () => {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const client = useTmdbClient()
+  const { toggleWishlist, isInWishlist } = useWishlist()
+  const { t, formatDate } = useI18n()
+
+  const [person, setPerson] = useState<PersonDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [retry, setRetry] = useState<RetryInfo | null>(null)
+  const [credits, setCredits] = useState<PersonMovieCredits | null>(null)
+  const [creditsError, setCreditsError] = useState<string | null>(null)
+  const [sort, setSort] = useState<FilmographySort>('popularity.desc')
+  const abortRef = useRef<AbortController | null>(null)
+
+  const fetchPerson = useCallback(async () => {
+    if (!id) {
+      setError(t('person.missingId'))
+      setPerson(null)
+      setLoading(false)
+      return
+    }
+
+    if (!client.hasKey) {
+      setError(t('person.missingKey'))
+      setPerson(null)
+      setLoading(false)
+      return
+    }
+
+    const controller = new AbortController()
+    abortRef.current?.abort()
+    abortRef.current = controller
+
+    let hasCached = false
+    setLoading(true)
+    setError(null)
+
+    try {
+      const payload = await client.getPerson(id, {
+        signal: controller.signal,
+        onCached: (cached) => {
+          hasCached = true
+          setPerson(cached)
+          setLoading(false)
+        },
+        onRetry: setRetry,
+      })
+      setPerson(payload)
+    } catch (fetchError) {
+      if (controller.signal.aborted || hasCached) return
+
+      setPerson(null)
+      setError(
+        fetchError instanceof TmdbNotFoundError
+          ? t('person.notFound')
+          : getTmdbErrorMessage(fetchError, t('person.failed')),
+      )
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null
+      }
+      if (!controller.signal.aborted) {
+        setLoading(false)
+        setRetry(null)
+      }
+    }
+  }, [client, id, t])
+
+  useEffect(() => {
+    fetchPerson()
+    return () => {
+      abortRef.current?.abort()
+    }
+  }, [fetchPerson])
+
+  useEffect(() => {
+    setCredits(null)
+    setCreditsError(null)
+    if (!id || !client.hasKey) return
+
+    const controller = new AbortController()
+    client
+      .getPersonMovieCredits(id, { signal: controller.signal, onCached: setCredits })
+      .then((payload) => {
+        if (!controller.signal.aborted) setCredits(payload)
+      })
+      .catch((fetchError) => {
+        if (controller.signal.aborted) return
+        setCreditsError(getTmdbErrorMessage(fetchError, t('person.creditsFailed')))
+      })
+
+    return () => controller.abort()
+  }, [client, id, t])
+
+  const filmography = useMemo(() => {
+    if (!credits) return []
+    const comparator = comparators[sort]
+    return buildFilmography(credits).sort((a, b) => comparator(a.movie, b.movie))
+  }, [credits, sort])
+
+  const handleToggleWishlist = useCallback(
+    (movie: Movie) => {
+      toggleWishlist({
+        id: movie.id,
+        title: movie.title,
+        poster_path: movie.poster_path ?? null,
+        media_type: 'movie',
+      })
+    },
+    [toggleWishlist],
+  )
+
+  const handleSortChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    setSort(event.target.value as FilmographySort)
+  }
+
+  const handleBack = () => {
+    navigate(-1)
+  }
+
+  const birthday = person?.birthday ? formatDate(person.birthday) : null
+  const deathday = person?.deathday ? formatDate(person.deathday) : null
+  const biography = person?.biography?.trim()
+
+  return (
+    <div className="page person-page">
+      <button type="button" className="detail-back-btn" onClick={handleBack}>
+        {t('common.back')}
+      </button>
+
+      {loading ? (
+        <div className="movie-detail__status" role="status">
+          <span className="loading-spinner" aria-hidden="true" />
+          <p>{t('person.loading')}</p>
+          <RetryNotice retry={retry} />
+        </div>
+      ) : error ? (
+        <div className="movie-detail__status movie-detail__status--error" role="alert">
+          <p>{error}</p>
+          <div className="movie-detail__status-actions">
+            <button type="button" onClick={fetchPerson}>
+              {t('common.retry')}
+            </button>
+          </div>
+        </div>
+      ) : person ? (
+        <>
+          <section className="person-profile" aria-live="polite">
+            <div className="person-profile__photo">
+              <TmdbImage
+                path={person.profile_path}
+                kind="profile"
+                alt={t('credits.profileAlt', { name: person.name })}
+                sizes="280px"
+                loading="eager"
+              />
+            </div>
+            <div className="person-profile__info">
+              {person.known_for_department && (
+                <p className="eyebrow">{person.known_for_department}</p>
+              )}
+              <h1>{person.name}</h1>
+              <dl className="person-profile__facts">
+                {birthday && (
+                  <div>
+                    <dt>{t('person.birthday')}</dt>
+                    <dd>{birthday}</dd>
+                  </div>
+                )}
+                {deathday && (
+                  <div>
+                    <dt>{t('person.deathday')}</dt>
+                    <dd>{deathday}</dd>
+                  </div>
+                )}
+                {person.place_of_birth && (
+                  <div>
+                    <dt>{t('person.placeOfBirth')}</dt>
+                    <dd>{person.place_of_birth}</dd>
+                  </div>
+                )}
+              </dl>
+              <p className="person-profile__bio">{biography || t('person.noBiography')}</p>
+            </div>
+          </section>
+
+          <section className="person-filmography" aria-labelledby="person-filmography-title">
+            <div className="person-filmography__header">
+              <h2 id="person-filmography-title">
+                {t('person.filmography')}
+                {credits && <span>{t('person.filmographyCount', { count: filmography.length })}</span>}
+              </h2>
+              <div className="filter-group">
+                <label htmlFor="filmography-sort">{t('search.sort')}</label>
+                <select id="filmography-sort" value={sort} onChange={handleSortChange}>
+                  {SORT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {t(option.labelKey)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {creditsError ? (
+              <div className="section-feedback section-feedback--error" role="alert">
+                {creditsError}
+              </div>
+            ) : !credits ? (
+              <div className="section-feedback section-feedback--loading" role="status">
+                <span className="loading-spinner" aria-hidden="true" />
+                {t('common.loadingData')}
+              </div>
+            ) : filmography.length === 0 ? (
+              <div className="section-feedback section-feedback--empty">
+                {t('person.noCredits')}
+              </div>
+            ) : (
+              <div className="search-grid">
+                {filmography.map(({ movie, roles }) => (
+                  <div key={movie.id} className="person-filmography__item">
+                    <MovieCard
+                      movie={movie}
+                      wished={isInWishlist(movie.id, 'movie')}
+                      onToggleWishlist={handleToggleWishlist}
+                    />
+                    {roles.length > 0 && (
+                      <p className="person-filmography__role">{roles.join(' · ')}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        </>
+      ) : null}
+    </div>
+  )
+}
+
+export default PersonPage
@@ -1,15 +1,38 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react'
+import { useLocation, useNavigationType, useSearchParams } from 'react-router-dom'
 import MovieCard from '../components/MovieCard'
-import type { Movie } from '../hooks/useMovies'
-import { useAuth } from '../context/AuthContext'
-import { getStoredTmdbKey } from '../utils/auth'
+import RetryNotice from '../components/RetryNotice'
+import { MAX_TMDB_PAGE, useMovies, type Movie } from '../hooks/useMovies'
 import { useWishlist } from '../hooks/useWishlist'
+import { useI18n } from '../i18n/context'
+import { readFeedSnapshot, writeFeedSnapshot } from '../utils/feedSnapshots'
 
 type ViewMode = 'table' | 'infinite'
 
-const TMDB_BASE_URL = 'https://api.themoviedb.org/3'
+const POPULAR_ENDPOINT = '/movie/popular'
 
-const isV4Token = (key: string) => key.trim().startsWith('eyJ')
+/** Snapshots are per history entry, so going back lands on exactly the feed that was left. */
+const toSnapshotKey = (locationKey: string) => `popular:${locationKey}`
+
+/**
+ * A freshly opened document is also a POP, with the key `'default'` whatever the entry, so such
+ * entries can't tell their own snapshot from another visit's and go without one.
+ */
+const hasOwnKey = (locationKey: string) => locationKey !== 'default'
+
+const readPage = (value: string | null) => {
+  const page = Number(value)
+  return Number.isInteger(page) && page > 1 ? Math.min(page, MAX_TMDB_PAGE) : 1
+}
+
+/**
+ * `?view=infinite` for the scrolling feed, `?page=3` for a table page. The infinite feed has no
+ * page in its URL; it is restored from the session store or starts over at the top.
+ */
+const toSearchParams = (viewMode: ViewMode, page: number) =>
+  new URLSearchParams(
+    viewMode === 'infinite' ? { view: 'infinite' } : page > 1 ? { page: String(page) } : {},
+  )
 
 /**
  * The Popular page supports both table-based pagination and infinite scrolling to demonstrate
@@ -17,23 +40,73 @@ const isV4Token = (key: string) => key.trim().startsWith('eyJ')
  * interactive and synchronized with a LocalStorage-based wishlist system.
  */
 const PopularPage = () => {
-  const { tmdbKey: contextKey } = useAuth()
-  const resolvedKey = useMemo(() => (contextKey || getStoredTmdbKey()).trim(), [contextKey])
   const { wishlist, toggleWishlist, isInWishlist } = useWishlist()
+  const { t } = useI18n()
+  const location = useLocation()
+  const navigationType = useNavigationType()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [viewMode, setViewMode] = useState<ViewMode>(() =>
+    searchParams.get('view') === 'infinite' ? 'infinite' : 'table',
+  )
+  // Back/forward (and a reload, which React Router also reports as POP) gets the feed it left.
+  const [restored] = useState(() =>
+    navigationType === 'POP' && hasOwnKey(location.key)
+      ? readFeedSnapshot(toSnapshotKey(location.key))
+      : null,
+  )
+  const [initialPage] = useState(() =>
+    viewMode === 'table' ? readPage(searchParams.get('page')) : 1,
+  )
+  const {
+    movies,
+    page,
+    totalPages,
+    totalResults,
+    hasMore,
+    hasFetched,
+    loading,
+    retry,
+    error,
+    loadMore,
+    goToPage,
+    refetch,
+  } = useMovies(POPULAR_ENDPOINT, { initialPage, snapshot: restored })
 
-  const [viewMode, setViewMode] = useState<ViewMode>('table')
-  const [movies, setMovies] = useState<Movie[]>([])
-  const [page, setPage] = useState(1)
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [hasMore, setHasMore] = useState(true)
   const [isSwitching, setIsSwitching] = useState(false)
   const [showTopButton, setShowTopButton] = useState(false)
-  const [hasLoadedOnce, setHasLoadedOnce] = useState(false)
 
-  const requestController = useRef<AbortController | null>(null)
   const scrollDebounceRef = useRef<number | null>(null)
-  const pendingPageRef = useRef<number | null>(null)
+  const latestFeedRef = useRef({ key: location.key, movies, page, totalPages, totalResults })
+
+  useEffect(() => {
+    latestFeedRef.current = { key: location.key, movies, page, totalPages, totalResults }
+  }, [location.key, movies, page, totalPages, totalResults])
+
+  useEffect(() => {
+    const next = toSearchParams(viewMode, page)
+    if (next.toString() !== searchParams.toString()) {
+      setSearchParams(next, { replace: true })
+    }
+  }, [page, searchParams, setSearchParams, viewMode])
+
+  // Runs before the next route's content replaces this one, while `scrollY` is still this page's.
+  useLayoutEffect(() => {
+    if (restored) {
+      window.scrollTo({ top: restored.scrollY, behavior: 'instant' })
+    }
+
+    const saveSnapshot = () => {
+      const { key, ...feed } = latestFeedRef.current
+      if (feed.movies.length === 0 || !hasOwnKey(key)) return
+      writeFeedSnapshot(toSnapshotKey(key), { ...feed, scrollY: window.scrollY })
+    }
+
+    window.addEventListener('pagehide', saveSnapshot)
+    return () => {
+      window.removeEventListener('pagehide', saveSnapshot)
+      saveSnapshot()
+    }
+  }, [restored])
 
   const handleToggleWishlist = useCallback(
     (movie: Movie) => {
@@ -41,134 +114,12 @@ const PopularPage = () => {
         id: movie.id,
         title: movie.title,
         poster_path: movie.poster_path ?? null,
+        media_type: movie.media_type,
       })
     },
     [toggleWishlist],
   )
 
-  const fetchMovies = useCallback(
-    async (targetPage: number, append: boolean) => {
-      if (!resolvedKey) {
-        setMovies([])
-        setHasMore(false)
-        setError('인기 작품을 불러오려면 로그인 페이지에서 TMDB API 키를 등록해주세요.')
-        setLoading(false)
-        return
-      }
-
-      pendingPageRef.current = targetPage
-
-      const controller = new AbortController()
-      requestController.current?.abort()
-      requestController.current = controller
-      setLoading(true)
-      setError(null)
-
-      try {
-        const useBearer = isV4Token(resolvedKey)
-        const url = new URL(`${TMDB_BASE_URL}/movie/popular`)
-        url.searchParams.set('page', String(targetPage))
-        url.searchParams.set('language', 'ko-KR')
-
-        if (!useBearer) {
-          url.searchParams.set('api_key', resolvedKey)
-        }
-
-        const headers: HeadersInit = {
-          Accept: 'application/json',
-        }
-
-        if (useBearer) {
-          headers.Authorization = `Bearer ${resolvedKey}`
-        }
-
-        const response = await fetch(url.toString(), {
-          headers,
-          signal: controller.signal,
-        })
-
-        if (!response.ok) {
-          if (response.status === 401) {
-            throw new Error('TMDB에서 제공된 API 키를 거부했습니다. 키를 다시 확인한 뒤 시도해주세요.')
-          }
-          throw new Error('인기 영화를 불러올 수 없습니다. 잠시 후 다시 시도해주세요.')
-        }
-
-        const payload = (await response.json()) as {
-          results?: Movie[]
-          page?: number
-          total_pages?: number
-        }
-
-        const normalized = (payload.results ?? []).map((movie) => ({
-          ...movie,
-          title: movie.title || movie.name || '제목 미정',
-        }))
-
-        setMovies((current) => {
-          if (!append) {
-            return normalized
-          }
-          const existingIds = new Set(current.map((item) => item.id))
-          const deduped = normalized.filter((item) => !existingIds.has(item.id))
-          return [...current, ...deduped]
-        })
-        setHasLoadedOnce(true)
-
-        const newPage = payload.page ?? targetPage
-        setPage(newPage)
-
-        const moreAvailable = payload.total_pages
-          ? newPage < payload.total_pages
-          : normalized.length > 0
-
-        setHasMore(moreAvailable)
-        pendingPageRef.current = null
-      } catch (fetchError) {
-        if (controller.signal.aborted) return
-
-        setError(
-          fetchError instanceof Error
-            ? fetchError.message
-            : '인기 영화를 불러오는 중 문제가 발생했습니다.',
-        )
-      } finally {
-        if (requestController.current === controller) {
-          requestController.current = null
-        }
-        setLoading(false)
-      }
-    },
-    [resolvedKey],
-  )
-
-  useEffect(() => {
-    return () => {
-      requestController.current?.abort()
-    }
-  }, [])
-
-  const resetAndLoadFirstPage = useCallback(() => {
-    setMovies([])
-    setPage(1)
-    setHasMore(true)
-    pendingPageRef.current = null
-    setLoading(true)
-    setHasLoadedOnce(false)
-
-    if (!resolvedKey) {
-      setError('인기 카탈로그를 이용하려면 로그인 페이지에서 TMDB 키를 연동해주세요.')
-      setLoading(false)
-      return
-    }
-
-    fetchMovies(1, false)
-  }, [fetchMovies, resolvedKey])
-
-  useEffect(() => {
-    resetAndLoadFirstPage()
-  }, [resetAndLoadFirstPage])
-
   useEffect(() => {
     if (typeof window === 'undefined') return undefined
 
@@ -198,9 +149,8 @@ const PopularPage = () => {
         const nearBottom =
           window.innerHeight + window.scrollY >= document.body.offsetHeight - 240
 
-        if (nearBottom && hasMore && !loading) {
-          const nextPage = page + 1
-          fetchMovies(nextPage, true)
+        if (nearBottom) {
+          loadMore()
         }
       }, 120)
     }
@@ -214,7 +164,7 @@ const PopularPage = () => {
         scrollDebounceRef.current = null
       }
     }
-  }, [fetchMovies, hasMore, loading, page, viewMode])
+  }, [loadMore, viewMode])
 
   useEffect(() => {
     if (!isSwitching || typeof window === 'undefined') return undefined
@@ -226,15 +176,14 @@ const PopularPage = () => {
     if (mode === viewMode) return
     setIsSwitching(true)
     setViewMode(mode)
-    resetAndLoadFirstPage()
+    goToPage(1)
   }
 
   const handlePaginate = (direction: 'previous' | 'next') => {
     if (direction === 'previous' && page === 1) return
     if (direction === 'next' && !hasMore) return
 
-    const targetPage = direction === 'previous' ? page - 1 : page + 1
-    fetchMovies(targetPage, false)
+    goToPage(direction === 'previous' ? page - 1 : page + 1)
   }
 
   const handleBackToTop = () => {
@@ -243,37 +192,39 @@ const PopularPage = () => {
   }
 
   const viewHint =
-    viewMode === 'table' ? '페이지 이동 버튼을 사용하세요.' : '스크롤로 더 많은 작품을 불러오세요.'
+    viewMode === 'table' ? t('popular.hintTable') : t('popular.hintInfinite')
 
   const wishlistStatus =
-    wishlist.length === 0 ? '위시리스트: 비어 있음' : `위시리스트: ${wishlist.length}개 저장됨`
+    wishlist.length === 0
+      ? t('common.wishlistEmpty')
+      : t('common.wishlistCount', { count: wishlist.length })
 
-  const showEmptyState = hasLoadedOnce && !loading && !error && movies.length === 0
+  const showEmptyState = hasFetched && !loading && !error && movies.length === 0
   const showStageOverlay = loading && (viewMode === 'table' || movies.length === 0)
 
   return (
     <div className="page popular-page">
       <section className="page-hero">
-        <p className="eyebrow">인기 컬렉션</p>
-        <h1>인기 피드를 페이지 매기기와 무한 스크롤로 탐색하세요.</h1>
-        <p>원하는 방식으로 모드를 전환하며 둘러볼 수 있습니다.</p>
+        <p className="eyebrow">{t('popular.eyebrow')}</p>
+        <h1>{t('popular.title')}</h1>
+        <p>{t('popular.description')}</p>
       </section>
 
       <section className="popular-toolbar">
-        <div className="popular-view-toggle" role="group" aria-label="보기 모드 선택">
+        <div className="popular-view-toggle" role="group" aria-label={t('popular.viewMode')}>
           <button
             type="button"
             className={viewMode === 'table' ? 'is-active' : ''}
             onClick={() => handleModeChange('table')}
           >
-            표 형태
+            {t('popular.viewTable')}
           </button>
           <button
             type="button"
             className={viewMode === 'infinite' ? 'is-active' : ''}
             onClick={() => handleModeChange('infinite')}
           >
-            무한 스크롤
+            {t('popular.viewInfinite')}
           </button>
         </div>
         <div className="popular-toolbar__status">
@@ -292,7 +243,7 @@ const PopularPage = () => {
             <MovieCard
               key={movie.id}
               movie={movie}
-              wished={isInWishlist(movie.id)}
+              wished={isInWishlist(movie.id, movie.media_type)}
               onToggleWishlist={handleToggleWishlist}
             />
           ))}
@@ -301,28 +252,22 @@ const PopularPage = () => {
         {showStageOverlay && (
           <div className="popular-overlay" aria-live="polite">
             <span className="loading-spinner" aria-hidden="true" />
-            <span>데이터를 불러오는 중...</span>
+            <span>{t('common.loadingData')}</span>
+            <RetryNotice retry={retry} />
           </div>
         )}
 
         {showEmptyState && (
           <p className="popular-feedback popular-feedback--empty">
-            아직 표시할 영화가 없습니다. TMDB 키가 연동되어 있는지 확인한 뒤 다시 시도하세요.
+            {t('popular.empty')}
           </p>
         )}
 
         {error && (
           <div className="popular-feedback popular-feedback--error" role="alert">
             {error}
-            <button
-              type="button"
-              onClick={() => {
-                const retryPage = pendingPageRef.current ?? Math.max(page, 1)
-                const append = viewMode === 'infinite' && (movies.length > 0 || retryPage > 1)
-                fetchMovies(retryPage, append)
-              }}
-            >
-              다시 시도
+            <button type="button" onClick={refetch}>
+              {t('common.retry')}
             </button>
           </div>
         )}
@@ -335,16 +280,17 @@ const PopularPage = () => {
             onClick={() => handlePaginate('previous')}
             disabled={page === 1 || loading}
           >
-            이전
+            {t('popular.previous')}
           </button>
-          <span className="popular-pagination__page">페이지 {page}</span>
+          <span className="popular-pagination__page">{t('popular.page', { page })}</span>
           <button type="button" onClick={() => handlePaginate('next')} disabled={!hasMore || loading}>
-            다음
+            {t('popular.next')}
           </button>
           {loading && (
             <span className="popular-pagination__loading">
               <span className="loading-spinner" aria-hidden="true" />
-              페이지 불러오는 중...
+              {t('popular.pageLoading')}
+              <RetryNotice retry={retry} />
             </span>
           )}
         </div>
@@ -355,11 +301,14 @@ const PopularPage = () => {
           {loading && (
             <>
               <span className="loading-spinner" aria-hidden="true" />
-              <span>더 많은 작품을 불러오는 중...</span>
+              <span>{t('popular.loadingMore')}</span>
+              <RetryNotice retry={retry} />
             </>
           )}
-          {!loading && hasMore && <span>더 많은 작품을 보려면 스크롤하세요 - 페이지 {page}</span>}
-          {!loading && !hasMore && movies.length > 0 && <span>이 피드의 끝까지 도달했습니다.</span>}
+          {!loading && hasMore && <span>{t('popular.scrollForMore', { page })}</span>}
+          {!loading && !hasMore && movies.length > 0 && (
+            <span>{t('popular.endOfFeed')}</span>
+          )}
         </div>
       )}
 
@@ -369,7 +318,7 @@ const PopularPage = () => {
         onClick={handleBackToTop}
         aria-hidden={!showTopButton}
       >
-        맨 위로 이동
+        {t('common.backToTop')}
       </button>
     </div>
   )
@@ -1,6 +1,15 @@
 import { useEffect, useMemo, useState } from 'react'
+import type { ChangeEvent } from 'react'
 import { useNavigate } from 'react-router-dom'
+import { CACHE_STORAGE_KEY, clearCache, getCacheStats } from '../api/cache'
+import type { WatchProvider } from '../api/types'
+import TmdbImage from '../components/TmdbImage'
 import { useAuth } from '../context/AuthContext'
+import { useSubscriptions, type SubscribedProvider } from '../hooks/useSubscriptions'
+import { useTmdbClient } from '../hooks/useTmdbClient'
+import { LOCALES, type Locale } from '../i18n'
+import { useI18n } from '../i18n/context'
+import { REGIONS, isRegion } from '../i18n/region'
 import { getStoredTmdbKey, readUsers } from '../utils/auth'
 import {
   THEME_STORAGE_KEY,
@@ -18,6 +27,9 @@ const STORAGE_KEYS = {
   tmdbKey: 'TMDb-Key',
 }
 
+/** The region's catalog runs to a few hundred services; the first ones are the big names. */
+const PROVIDER_PREVIEW_COUNT = 24
+
 const canUseStorage = () => typeof window !== 'undefined' && !!window.localStorage
 
 const readWishlistCount = () => {
@@ -43,6 +55,12 @@ const readLoginState = () => {
   return window.localStorage.getItem(STORAGE_KEYS.isLogin) === 'true'
 }
 
+const splitBytes = (bytes: number) => {
+  if (bytes < 1024) return { value: bytes, digits: 0, unit: 'B' }
+  if (bytes < 1024 * 1024) return { value: bytes / 1024, digits: 1, unit: 'KB' }
+  return { value: bytes / (1024 * 1024), digits: 2, unit: 'MB' }
+}
+
 const resolveUserEmail = () => {
   const remembered = readRememberedId()
   if (remembered) return remembered
@@ -65,8 +83,19 @@ const ProfilePage = () => {
   const [userEmail, setUserEmail] = useState(() => resolveUserEmail())
   const [rememberedEmail, setRememberedEmail] = useState(() => readRememberedId())
   const [loginState, setLoginState] = useState(() => readLoginState())
+  const [cacheStats, setCacheStats] = useState(() => getCacheStats())
+
+  const [showAllProviders, setShowAllProviders] = useState(false)
+  // Tagged with the region it was loaded for; `providers: null` means the request failed.
+  const [providerCatalog, setProviderCatalog] = useState<{
+    region: string
+    providers: WatchProvider[] | null
+  } | null>(null)
 
   const { logout } = useAuth()
+  const { locale, setLocale, region, setRegion, t, formatNumber, formatRegion } = useI18n()
+  const { subscriptions, isSubscribed, toggleSubscription } = useSubscriptions()
+  const client = useTmdbClient()
   const navigate = useNavigate()
 
   useEffect(() => {
@@ -99,6 +128,10 @@ const ProfilePage = () => {
       if (!event.key || event.key === THEME_STORAGE_KEY) {
         setTheme(getStoredTheme())
       }
+
+      if (!event.key || event.key === CACHE_STORAGE_KEY) {
+        setCacheStats(getCacheStats())
+      }
     }
 
     window.addEventListener('storage', handleStorage)
@@ -111,6 +144,36 @@ const ProfilePage = () => {
     }
   }, [loginState, navigate])
 
+  useEffect(() => {
+    if (!client.hasKey) return
+
+    const controller = new AbortController()
+    client
+      .getWatchProviderCatalog(region, { signal: controller.signal })
+      .then((providers) => {
+        if (!controller.signal.aborted) setProviderCatalog({ region, providers })
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setProviderCatalog({ region, providers: null })
+      })
+
+    return () => controller.abort()
+  }, [client, region])
+
+  const catalog = providerCatalog?.region === region ? providerCatalog.providers : undefined
+
+  // Subscriptions stay visible (and removable) even when collapsed or missing from this region.
+  const visibleProviders = useMemo<SubscribedProvider[]>(() => {
+    const available = catalog ?? []
+    const shown = showAllProviders
+      ? available
+      : available.filter(
+          (provider, index) => index < PROVIDER_PREVIEW_COUNT || isSubscribed(provider.provider_id),
+        )
+    const listed = new Set(available.map((provider) => provider.provider_id))
+    return [...shown, ...subscriptions.filter((provider) => !listed.has(provider.provider_id))]
+  }, [catalog, isSubscribed, showAllProviders, subscriptions])
+
   const avatarLetter = useMemo(() => {
     if (!userEmail) return '?'
     return userEmail.charAt(0).toUpperCase()
@@ -124,6 +187,21 @@ const ProfilePage = () => {
     setTheme(nextTheme)
   }
 
+  const handleLocaleChoice = (nextLocale: Locale) => {
+    setLocale(nextLocale)
+  }
+
+  const handleRegionChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    if (isRegion(event.target.value)) {
+      setRegion(event.target.value)
+    }
+  }
+
+  const handleClearCache = () => {
+    clearCache()
+    setCacheStats(getCacheStats())
+  }
+
   const handleLogout = () => {
     logout()
     setLoginState(false)
@@ -132,15 +210,20 @@ const ProfilePage = () => {
 
   const wishlistSummary =
     wishlistCount === 0
-      ? '아직 위시리스트가 비어 있습니다.'
-      : `위시리스트에 ${wishlistCount}개가 저장되어 있습니다.`
+      ? t('profile.wishlistSummaryEmpty')
+      : t('profile.wishlistSummaryCount', { count: wishlistCount })
+
+  const cacheSize = splitBytes(cacheStats.bytes)
+  const formattedCacheSize = `${formatNumber(cacheSize.value, {
+    maximumFractionDigits: cacheSize.digits,
+  })} ${cacheSize.unit}`
 
   return (
     <div className="page profile-page">
       <section className="page-hero profile-intro">
-        <p className="eyebrow">프로필 & 설정</p>
-        <h1>한눈에 계정과 기기 설정을 확인하세요.</h1>
-        <p>로그인 상태, 테마, 위시리스트 정보를 편하게 관리할 수 있습니다.</p>
+        <p className="eyebrow">{t('profile.eyebrow')}</p>
+        <h1>{t('profile.title')}</h1>
+        <p>{t('profile.description')}</p>
       </section>
 
       <section className="profile-overview">
@@ -149,38 +232,46 @@ const ProfilePage = () => {
             {avatarLetter}
           </div>
           <div className="profile-user-meta">
-            <p className="profile-label">로그인된 계정</p>
+            <p className="profile-label">{t('profile.signedInAccount')}</p>
             <h2 className="profile-email" aria-live="polite">
-              {userEmail || '이메일 정보를 찾을 수 없습니다'}
+              {userEmail || t('profile.noEmail')}
             </h2>
             <p className="profile-session">
               <span className={`status-dot ${loginState ? 'online' : 'offline'}`} aria-hidden="true" />
-              {loginState ? '세션 유지 중' : '세션 종료됨'}
+              {loginState ? t('profile.sessionActive') : t('profile.sessionEnded')}
             </p>
           </div>
         </article>
 
         <article className="profile-card profile-storage-card">
           <header>
-            <p className="profile-label">기기 정보</p>
-            <h3>저장 상태</h3>
+            <p className="profile-label">{t('profile.deviceLabel')}</p>
+            <h3>{t('profile.storageTitle')}</h3>
           </header>
           <ul>
             <li>
-              <span>로그인 유지</span>
+              <span>{t('profile.keepLogin')}</span>
               <strong>{loginState ? 'ON' : 'OFF'}</strong>
             </li>
             <li>
-              <span>저장된 이메일</span>
-              <strong>{rememberedEmail || '없음'}</strong>
+              <span>{t('profile.rememberedEmail')}</span>
+              <strong>{rememberedEmail || t('profile.none')}</strong>
             </li>
             <li>
-              <span>위시리스트</span>
+              <span>{t('profile.wishlist')}</span>
               <strong>{wishlistCount}</strong>
             </li>
             <li>
-              <span>현재 테마</span>
-              <strong>{theme === 'dark' ? '다크' : '라이트'}</strong>
+              <span>{t('profile.currentTheme')}</span>
+              <strong>{theme === 'dark' ? t('profile.themeDark') : t('profile.themeLight')}</strong>
+            </li>
+            <li>
+              <span>{t('profile.currentLanguage')}</span>
+              <strong>{LOCALES[locale].label}</strong>
+            </li>
+            <li>
+              <span>{t('profile.currentRegion')}</span>
+              <strong>{formatRegion(region)}</strong>
             </li>
           </ul>
         </article>
@@ -189,41 +280,41 @@ const ProfilePage = () => {
       <section className="profile-grid">
         <article className="profile-card stat-card">
           <header>
-            <p className="profile-label">위시리스트 요약</p>
-            <h3>저장된 영화</h3>
+            <p className="profile-label">{t('profile.wishlistSummaryLabel')}</p>
+            <h3>{t('profile.wishlistSummaryTitle')}</h3>
           </header>
           <div className="stat-value">{wishlistCount}</div>
           <p>{wishlistSummary}</p>
           <button type="button" className="pill-button" onClick={handleViewWishlist}>
-            위시리스트 보기
+            {t('profile.viewWishlist')}
           </button>
         </article>
 
         <article className="profile-card stat-card">
           <header>
-            <p className="profile-label">저장된 로그인 정보</p>
-            <h3>저장된 이메일</h3>
+            <p className="profile-label">{t('profile.savedLoginLabel')}</p>
+            <h3>{t('profile.savedLoginTitle')}</h3>
           </header>
-          <div className="stat-value">{rememberedEmail || '저장되지 않음'}</div>
-          <p>빠른 로그인을 위해 이 기기에 저장됩니다.</p>
+          <div className="stat-value">{rememberedEmail || t('profile.notSaved')}</div>
+          <p>{t('profile.savedLoginHint')}</p>
         </article>
       </section>
 
       <section className="profile-grid settings-grid">
         <article className="profile-card theme-card">
           <header>
-            <p className="profile-label">테마 설정</p>
-            <h3>다크 vs 라이트</h3>
+            <p className="profile-label">{t('profile.themeLabel')}</p>
+            <h3>{t('profile.themeTitle')}</h3>
           </header>
-          <p>선택한 모드는 이 기기에 저장돼요.</p>
-          <div className="theme-toggle" role="group" aria-label="테마 전환">
+          <p>{t('profile.themeHint')}</p>
+          <div className="theme-toggle" role="group" aria-label={t('profile.themeToggle')}>
             <button
               type="button"
               className={theme === 'dark' ? 'is-active' : ''}
               onClick={() => handleThemeChoice('dark')}
               aria-pressed={theme === 'dark'}
             >
-              다크
+              {t('profile.themeDark')}
             </button>
             <button
               type="button"
@@ -231,20 +322,155 @@ const ProfilePage = () => {
               onClick={() => handleThemeChoice('light')}
               aria-pressed={theme === 'light'}
             >
-              라이트
+              {t('profile.themeLight')}
             </button>
             <span className={`theme-toggle__thumb ${theme}`} aria-hidden="true" />
           </div>
         </article>
 
+        <article className="profile-card theme-card">
+          <header>
+            <p className="profile-label">{t('profile.languageLabel')}</p>
+            <h3>{t('profile.languageTitle')}</h3>
+          </header>
+          <p>{t('profile.languageHint')}</p>
+          <div className="theme-toggle" role="group" aria-label={t('profile.languageToggle')}>
+            {(Object.keys(LOCALES) as Locale[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                lang={option}
+                className={locale === option ? 'is-active' : ''}
+                onClick={() => handleLocaleChoice(option)}
+                aria-pressed={locale === option}
+              >
+                {LOCALES[option].label}
+              </button>
+            ))}
+            <span className={`theme-toggle__thumb ${locale}`} aria-hidden="true" />
+          </div>
+        </article>
+
+        <article className="profile-card region-card">
+          <header>
+            <p className="profile-label">{t('profile.regionLabel')}</p>
+            <h3>{t('profile.regionTitle')}</h3>
+          </header>
+          <p>{t('profile.regionHint')}</p>
+          <select
+            className="region-card__select"
+            value={region}
+            onChange={handleRegionChange}
+            aria-label={t('profile.regionLabel')}
+          >
+            {REGIONS.map((code) => (
+              <option key={code} value={code}>
+                {formatRegion(code)}
+              </option>
+            ))}
+          </select>
+        </article>
+
+        <article className="profile-card providers-card">
+          <header>
+            <p className="profile-label">{t('profile.providersLabel')}</p>
+            <h3>{t('profile.providersTitle')}</h3>
+          </header>
+          <p>{t('profile.providersHint', { region: formatRegion(region) })}</p>
+          {!client.hasKey ? (
+            <p className="providers-card__status">{t('profile.providersMissingKey')}</p>
+          ) : catalog === undefined ? (
+            <p className="providers-card__status" role="status">
+              {t('profile.providersLoading')}
+            </p>
+          ) : (
+            <>
+              {catalog === null && (
+                <p className="providers-card__status" role="alert">
+                  {t('profile.providersFailed')}
+                </p>
+              )}
+              <p className="providers-card__count" aria-live="polite">
+                {t('profile.providersSelected', { count: subscriptions.length })}
+              </p>
+              <ul className="providers-card__list" aria-label={t('profile.providersTitle')}>
+                {visibleProviders.map((provider) => {
+                  const active = isSubscribed(provider.provider_id)
+                  return (
+                    <li key={provider.provider_id}>
+                      <button
+                        type="button"
+                        className={`provider-toggle ${active ? 'is-active' : ''}`}
+                        aria-pressed={active}
+                        onClick={() => toggleSubscription(provider)}
+                      >
+                        <TmdbImage
+                          path={provider.logo_path}
+                          kind="logo"
+                          alt=""
+                          sizes="28px"
+                          fallback={null}
+                        />
+                        <span>{provider.provider_name}</span>
+                      </button>
+                    </li>
+                  )
+                })}
+              </ul>
+              {(catalog?.length ?? 0) > PROVIDER_PREVIEW_COUNT && (
+                <button
+                  type="button"
+                  className="pill-button"
+                  onClick={() => setShowAllProviders((current) => !current)}
+                  aria-expanded={showAllProviders}
+                >
+                  {showAllProviders
+                    ? t('profile.providersShowLess')
+                    : t('profile.providersShowAll', { count: catalog?.length ?? 0 })}
+                </button>
+              )}
+            </>
+          )}
+        </article>
+
+        <article className="profile-card cache-card">
+          <header>
+            <p className="profile-label">{t('profile.cacheLabel')}</p>
+            <h3>{t('profile.cacheTitle')}</h3>
+          </header>
+          <p>{t('profile.cacheHint')}</p>
+          <dl className="cache-card__stats">
+            <div>
+              <dt>{t('profile.cacheEntries')}</dt>
+              <dd>
+                <strong>{formatNumber(cacheStats.entries)}</strong>
+              </dd>
+            </div>
+            <div>
+              <dt>{t('profile.cacheSize')}</dt>
+              <dd>
+                <strong>{formattedCacheSize}</strong>
+              </dd>
+            </div>
+          </dl>
+          <button
+            type="button"
+            className="pill-button"
+            onClick={handleClearCache}
+            disabled={cacheStats.entries === 0}
+          >
+            {t('profile.clearCache')}
+          </button>
+        </article>
+
         <article className="profile-card logout-card">
           <header>
-            <p className="profile-label">로그아웃</p>
-            <h3>이 세션 종료</h3>
+            <p className="profile-label">{t('profile.logoutLabel')}</p>
+            <h3>{t('profile.logoutTitle')}</h3>
           </header>
-          <p>저장된 로그인 정보와 TMDB 키가 삭제됩니다.</p>
+          <p>{t('profile.logoutHint')}</p>
           <button type="button" className="logout-button" onClick={handleLogout}>
-            로그아웃
+            {t('profile.logout')}
           </button>
         </article>
       </section>
@@ -1,56 +1,75 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
-import type { ChangeEvent, FormEvent } from 'react'
+import type { ChangeEvent, FormEvent, MouseEvent } from 'react'
+import { useLocation, useNavigationType, useSearchParams } from 'react-router-dom'
+import { getTmdbErrorMessage } from '../api/errors'
+import type { RetryInfo } from '../api/scheduler'
+import type { MoviePage, MultiSearchPage } from '../api/tmdb'
+import type { Genre, PersonSummary } from '../api/types'
+import FilterEntityPicker from '../components/FilterEntityPicker'
 import MovieCard from '../components/MovieCard'
-import type { Movie } from '../hooks/useMovies'
-import { useAuth } from '../context/AuthContext'
-import { getStoredTmdbKey } from '../utils/auth'
+import MultiSearchResults from '../components/MultiSearchResults'
+import RetryNotice from '../components/RetryNotice'
+import SavedSearchesPanel from '../components/SavedSearchesPanel'
+import SearchCombobox from '../components/SearchCombobox'
+import { useCertifications } from '../hooks/useCertifications'
+import { MAX_TMDB_PAGE, type Movie } from '../hooks/useMovies'
+import { useGenres } from '../hooks/useGenres'
+import { readSavedRunId, useSavedSearches } from '../hooks/useSavedSearches'
+import { useSubscriptions } from '../hooks/useSubscriptions'
+import { useTmdbClient } from '../hooks/useTmdbClient'
 import { useWishlist } from '../hooks/useWishlist'
+import type { MessageKey } from '../i18n'
+import { useI18n } from '../i18n/context'
+import {
+  MIN_VOTE_OPTIONS,
+  applyFilterPipeline,
+  certificationFor,
+  createDefaultFilters,
+  filtersFromSearchParams,
+  filtersLocally,
+  filtersToSearchParams,
+  requestSearchPage,
+  toMinutes,
+  toResultKey,
+  type FilterEntity,
+  type Filters,
+  type GenreMode,
+  type SearchScope,
+  type SortOptionValue,
+} from '../utils/searchFilters'
 
-type SortOptionValue =
-  | 'popularity.desc'
-  | 'popularity.asc'
-  | 'vote_average.desc'
-  | 'release_date.desc'
-  | 'release_date.asc'
-
-type Filters = {
-  query: string
-  genre: string
-  rating: number
-  year: string
-  sort: SortOptionValue
+const SORT_OPTIONS: { labelKey: MessageKey; value: SortOptionValue }[] = [
+  { labelKey: 'sort.popularityDesc', value: 'popularity.desc' },
+  { labelKey: 'sort.popularityAsc', value: 'popularity.asc' },
+  { labelKey: 'sort.voteAverageDesc', value: 'vote_average.desc' },
+  { labelKey: 'sort.releaseDateDesc', value: 'release_date.desc' },
+  { labelKey: 'sort.releaseDateAsc', value: 'release_date.asc' },
+]
+
+/** Where paging stands for the current search; `nextPage` past `lastPage` means it is exhausted. */
+type SearchProgress = {
+  nextPage: number
+  lastPage: number
+  totalResults: number
 }
 
-const TMDB_BASE_URL = 'https://api.themoviedb.org/3'
+/** A page's worth of matches; client-side filtering keeps fetching until it has this many. */
+const MATCH_TARGET = 20
+/** Caps how many TMDb pages one load may walk through when filters discard most results. */
+const MAX_PAGES_PER_LOAD = 5
 
-const SORT_OPTIONS: { label: string; value: SortOptionValue }[] = [
-  { label: '인기도 (높은 순)', value: 'popularity.desc' },
-  { label: '인기도 (낮은 순)', value: 'popularity.asc' },
-  { label: '평점 (높은 순)', value: 'vote_average.desc' },
-  { label: '개봉일 (최신순)', value: 'release_date.desc' },
-  { label: '개봉일 (오래된순)', value: 'release_date.asc' },
+const GENRE_MODE_OPTIONS: { labelKey: MessageKey; value: GenreMode }[] = [
+  { labelKey: 'search.genreModeAnd', value: 'and' },
+  { labelKey: 'search.genreModeOr', value: 'or' },
 ]
 
-const GENRE_OPTIONS = [
-  { label: '전체 장르', value: '' },
-  { label: '액션', value: '28' },
-  { label: '어드벤처', value: '12' },
-  { label: '애니메이션', value: '16' },
-  { label: '코미디', value: '35' },
-  { label: '범죄', value: '80' },
-  { label: '다큐멘터리', value: '99' },
-  { label: '드라마', value: '18' },
-  { label: '가족', value: '10751' },
-  { label: '판타지', value: '14' },
-  { label: '역사', value: '36' },
-  { label: '공포', value: '27' },
-  { label: '음악', value: '10402' },
-  { label: '미스터리', value: '9648' },
-  { label: '로맨스', value: '10749' },
-  { label: 'SF', value: '878' },
-  { label: '스릴러', value: '53' },
-  { label: '전쟁', value: '10752' },
-  { label: '서부', value: '37' },
+/** Original languages offered in the filter, most common on TMDb first. */
+const LANGUAGE_OPTIONS = ['ko', 'en', 'ja', 'zh', 'fr', 'es', 'de', 'it', 'hi', 'th']
+
+const MEDIA_TYPE_OPTIONS: { labelKey: MessageKey; value: SearchScope }[] = [
+  { labelKey: 'search.mediaAll', value: 'all' },
+  { labelKey: 'search.mediaMovie', value: 'movie' },
+  { labelKey: 'search.mediaTv', value: 'tv' },
 ]
 
 const YEAR_OPTIONS = (() => {
@@ -62,90 +81,235 @@ const YEAR_OPTIONS = (() => {
   return years
 })()
 
-const createDefaultFilters = (): Filters => ({
-  query: '',
-  genre: '',
-  rating: 0,
-  year: '',
-  sort: 'popularity.desc',
-})
-
-const valueOrZero = (value?: number) => (typeof value === 'number' ? value : 0)
-const releaseDateValue = (value?: string) => {
-  if (!value) return 0
-  const timestamp = Date.parse(value)
-  return Number.isNaN(timestamp) ? 0 : timestamp
+/** Marks history entries written by the filter panel, as opposed to links and back/forward. */
+const FILTER_UPDATE_STATE = { searchFilters: true }
+
+const isFilterUpdate = (state: unknown) =>
+  typeof state === 'object' && state !== null && 'searchFilters' in state
+
+const mergeResults = (current: Movie[], incoming: Movie[]) => {
+  const known = new Set(current.map(toResultKey))
+  return [...current, ...incoming.filter((movie) => !known.has(toResultKey(movie)))]
 }
 
-const comparators: Record<SortOptionValue, (a: Movie, b: Movie) => number> = {
-  'popularity.desc': (a, b) => valueOrZero(b.popularity) - valueOrZero(a.popularity),
-  'popularity.asc': (a, b) => valueOrZero(a.popularity) - valueOrZero(b.popularity),
-  'vote_average.desc': (a, b) => valueOrZero(b.vote_average) - valueOrZero(a.vote_average),
-  'release_date.desc': (a, b) => releaseDateValue(b.release_date) - releaseDateValue(a.release_date),
-  'release_date.asc': (a, b) => releaseDateValue(a.release_date) - releaseDateValue(b.release_date),
+const mergePeople = (current: PersonSummary[], incoming: PersonSummary[]) => {
+  const known = new Set(current.map((person) => person.id))
+  return [...current, ...incoming.filter((person) => !known.has(person.id))]
 }
 
-const applyFilterPipeline = (source: Movie[], filters: Filters) => {
-  let filtered = source
-  if (filters.genre) {
-    const genreId = Number(filters.genre)
-    filtered = filtered.filter((movie) => (movie.genre_ids ?? []).includes(genreId))
-  }
-  if (filters.rating > 0) {
-    filtered = filtered.filter((movie) => (movie.vote_average ?? 0) >= filters.rating)
-  }
-  if (filters.year) {
-    filtered = filtered.filter((movie) => (movie.release_date ?? '').startsWith(filters.year))
-  }
-  const sorter = comparators[filters.sort]
-  return filtered.slice().sort(sorter)
+type GenreChipsProps = {
+  id: string
+  label: string
+  genres: Genre[]
+  selected: string[]
+  variant: 'include' | 'exclude'
+  onToggle: (id: string) => void
 }
 
-const isV4Token = (key: string) => key.trim().startsWith('eyJ')
+/** Toggle buttons for picking any number of genres; used for both the include and exclude lists. */
+const GenreChips = ({ id, label, genres, selected, variant, onToggle }: GenreChipsProps) => (
+  <>
+    <span id={id} className="filter-group__label">
+      {label}
+    </span>
+    <div className="filter-chips" role="group" aria-labelledby={id}>
+      {genres.map((genre) => {
+        const active = selected.includes(String(genre.id))
+        return (
+          <button
+            key={genre.id}
+            type="button"
+            className={`filter-chip filter-chip--${variant} ${active ? 'is-active' : ''}`}
+            aria-pressed={active}
+            onClick={() => onToggle(String(genre.id))}
+          >
+            {genre.name}
+          </button>
+        )
+      })}
+    </div>
+  </>
+)
 
 /**
- * The Search page allows users to filter and sort movie data dynamically using API parameters and
+ * The Search page allows users to filter and sort movies or series dynamically using API parameters and
  * client-side data processing. This demonstrates interactive data handling and state-driven UI
  * updates in a SPA.
  */
 const SearchPage = () => {
-  const { tmdbKey: contextKey } = useAuth()
-  const resolvedKey = useMemo(() => (contextKey || getStoredTmdbKey()).trim(), [contextKey])
+  const { t, region, formatRegion, formatLanguage, formatNumber } = useI18n()
+  const client = useTmdbClient()
   const { wishlist, toggleWishlist, isInWishlist } = useWishlist()
-  const [filters, setFilters] = useState<Filters>(() => createDefaultFilters())
+  const { subscriptions } = useSubscriptions()
+  const {
+    canStore,
+    saved,
+    recent,
+    addRecent,
+    clearRecent,
+    saveSearch,
+    renameSearch,
+    togglePinned,
+    markRun,
+    deleteSearch,
+  } = useSavedSearches()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const location = useLocation()
+  const navigationType = useNavigationType()
+  const [filters, setFilters] = useState<Filters>(() => filtersFromSearchParams(searchParams))
+  const [syncedLocationKey, setSyncedLocationKey] = useState(location.key)
+  // A submitted search keeps its history entry; the next change starts a new one.
+  const startNewEntryRef = useRef(searchParams.toString() !== '')
+  const isMulti = filters.mediaType === 'all'
+  // Multi search has no filters; the title types only matter for genres and suggestions there.
+  const titleMediaType = filters.mediaType === 'tv' ? 'tv' : 'movie'
+  const { genres } = useGenres(titleMediaType)
+  const { certifications } = useCertifications(region, { enabled: filters.mediaType === 'movie' })
   const [movies, setMovies] = useState<Movie[]>([])
+  const [people, setPeople] = useState<PersonSummary[]>([])
   const [loading, setLoading] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [progress, setProgress] = useState<SearchProgress | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [hasFetched, setHasFetched] = useState(false)
   const [filtersExpanded, setFiltersExpanded] = useState(true)
+  const [retry, setRetry] = useState<RetryInfo | null>(null)
   const requestController = useRef<AbortController | null>(null)
   const debounceRef = useRef<number | null>(null)
+  const scrollDebounceRef = useRef<number | null>(null)
   const firstLoadRef = useRef(true)
+  /** A saved search being rerun; its first page is recorded once it arrives. */
+  const pendingRunRef = useRef<{ id: string; query: string } | null>(null)
+
+  // Edits are already in state when the URL catches up; only back/forward and links from elsewhere
+  // (a header link, a shared URL) are read back from the query string.
+  if (location.key !== syncedLocationKey) {
+    setSyncedLocationKey(location.key)
+    if (navigationType === 'POP' || !isFilterUpdate(location.state)) {
+      setFilters(filtersFromSearchParams(searchParams))
+    }
+  }
+
+  /** Applies `next` and mirrors it into the query string, amending the current entry by default. */
+  const updateFilters = (next: Filters, { push = false } = {}) => {
+    if (JSON.stringify(next) === JSON.stringify(filters)) return
+    setFilters(next)
+    const params = filtersToSearchParams(next)
+    if (params.toString() === filtersToSearchParams(filters).toString()) return
+    setSearchParams(params, {
+      replace: !push && !startNewEntryRef.current,
+      state: FILTER_UPDATE_STATE,
+    })
+    startNewEntryRef.current = false
+  }
+
+  // `|` asks Discover for titles on any of the services rather than all of them.
+  const subscribedProviderIds = useMemo(
+    () => subscriptions.map((provider) => provider.provider_id).join('|'),
+    [subscriptions],
+  )
+  // Search endpoints take no availability filters, so the option only applies without a keyword.
+  const canFilterBySubscription = !filters.query.trim() && subscribedProviderIds !== ''
+  const canFilterByRuntime = !filters.query.trim()
+  const canFilterByCertification = filters.mediaType === 'movie' && !filters.query.trim()
+  const canFilterByPeople = filters.mediaType === 'movie' && !filters.query.trim()
+  const canFilterByKeywords = !filters.query.trim()
+  const certification = certificationFor(filters, region)
 
   const appliedFilterCount = useMemo(() => {
     let count = 0
     if (filters.query.trim()) count += 1
-    if (filters.genre) count += 1
+    if (filters.onlySubscribed && canFilterBySubscription) count += 1
+    if (filters.genres.length > 0) count += 1
+    if (filters.excludedGenres.length > 0) count += 1
     if (filters.rating > 0) count += 1
+    if (filters.minVotes > 0) count += 1
     if (filters.year) count += 1
+    if (filters.releaseFrom || filters.releaseTo) count += 1
+    if (filters.originalLanguage) count += 1
+    if (canFilterByRuntime && (toMinutes(filters.runtimeMin) || toMinutes(filters.runtimeMax))) {
+      count += 1
+    }
+    if (certification) count += 1
+    if (canFilterByPeople) count += filters.cast.length + filters.crew.length
+    if (canFilterByKeywords) count += filters.keywords.length
     if (filters.sort !== 'popularity.desc') count += 1
     return count
-  }, [filters])
+  }, [
+    canFilterByKeywords,
+    canFilterByPeople,
+    canFilterByRuntime,
+    canFilterBySubscription,
+    certification,
+    filters,
+  ])
 
   const yearOptions = useMemo(() => YEAR_OPTIONS, [])
 
   const handleQueryChange = (event: ChangeEvent<HTMLInputElement>) => {
     const { value } = event.target
-    setFilters((current) => ({ ...current, query: value }))
+    updateFilters({ ...filters, query: value })
   }
 
   const handleSelectChange = (event: ChangeEvent<HTMLSelectElement>) => {
-    const field = event.target.name as 'genre' | 'sort' | 'year'
-    setFilters((current) => ({ ...current, [field]: event.target.value }))
+    const field = event.target.name as 'sort' | 'year' | 'originalLanguage' | 'certification'
+    updateFilters({ ...filters, [field]: event.target.value })
+  }
+
+  const handleMinVotesChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    updateFilters({ ...filters, minVotes: Number(event.target.value) })
+  }
+
+  const handleRangeChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const field = event.target.name as 'releaseFrom' | 'releaseTo' | 'runtimeMin' | 'runtimeMax'
+    updateFilters({ ...filters, [field]: event.target.value })
+  }
+
+  /** A genre is either included or excluded; picking it on one side drops it from the other. */
+  const handleGenreToggle = (list: 'genres' | 'excludedGenres', id: string) => {
+    const other = list === 'genres' ? 'excludedGenres' : 'genres'
+    updateFilters({
+      ...filters,
+      [list]: filters[list].includes(id)
+        ? filters[list].filter((entry) => entry !== id)
+        : [...filters[list], id],
+      [other]: filters[other].filter((entry) => entry !== id),
+    })
+  }
+
+  const handleGenreModeChange = (genreMode: GenreMode) => {
+    updateFilters({ ...filters, genreMode })
+  }
+
+  const handleEntitiesChange = (field: 'cast' | 'crew' | 'keywords', selected: FilterEntity[]) => {
+    updateFilters({ ...filters, [field]: selected })
+  }
+
+  const handleMediaTypeChange = (mediaType: SearchScope) => {
+    // Genre ids differ between the movie and TV lists; certifications and people are movie-only.
+    if (filters.mediaType === mediaType) return
+    if (mediaType === 'all') {
+      updateFilters({ ...createDefaultFilters('all'), query: filters.query })
+      return
+    }
+    updateFilters({
+      ...filters,
+      mediaType,
+      genres: [],
+      excludedGenres: [],
+      certification: '',
+      cast: [],
+      crew: [],
+    })
+  }
+
+  const handleOnlySubscribedChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const { checked } = event.target
+    updateFilters({ ...filters, onlySubscribed: checked })
   }
 
   const handleRatingChange = (event: ChangeEvent<HTMLInputElement>) => {
-    setFilters((current) => ({ ...current, rating: Number(event.target.value) }))
+    updateFilters({ ...filters, rating: Number(event.target.value) })
   }
 
   const handleToggleWishlist = useCallback(
@@ -154,115 +318,177 @@ const SearchPage = () => {
         id: movie.id,
         title: movie.title,
         poster_path: movie.poster_path ?? null,
+        media_type: movie.media_type,
       })
     },
     [toggleWishlist],
   )
 
   const handleResetFilters = () => {
-    setFilters(createDefaultFilters())
+    updateFilters(createDefaultFilters(filters.mediaType), { push: true })
     setHasFetched(false)
+    setProgress(null)
   }
 
   const fetchMovies = useCallback(
-    async (targetFilters: Filters) => {
-      if (!resolvedKey) {
+    async (targetFilters: Filters, startPage = 1) => {
+      if (!client.hasKey) {
         setMovies([])
-        setError('검색 기능을 사용하려면 로그인 페이지에서 TMDB API 키를 등록해주세요.')
+        setProgress(null)
+        setError(t('search.missingKey'))
         setLoading(false)
         return
       }
 
+      const append = startPage > 1
       const controller = new AbortController()
       requestController.current?.abort()
       requestController.current = controller
+
+      // Multi search needs a query; until there is one the page asks for it instead.
+      if (targetFilters.mediaType === 'all' && !targetFilters.query.trim()) {
+        requestController.current = null
+        setMovies([])
+        setPeople([])
+        setProgress(null)
+        setError(null)
+        setHasFetched(false)
+        setLoading(false)
+        return
+      }
       setLoading(true)
+      setLoadingMore(append)
       setError(null)
 
       try {
-        const useSearchEndpoint = !!targetFilters.query.trim()
-        const endpoint = useSearchEndpoint ? '/search/movie' : '/discover/movie'
-        const useBearer = isV4Token(resolvedKey)
-        const url = new URL(`${TMDB_BASE_URL}${endpoint}`)
-
-        url.searchParams.set('language', 'ko-KR')
-        url.searchParams.set('include_adult', 'false')
-        url.searchParams.set('page', '1')
-
-        if (!useBearer) {
-          url.searchParams.set('api_key', resolvedKey)
-        }
-
-        if (useSearchEndpoint) {
-          url.searchParams.set('query', targetFilters.query.trim())
-          if (targetFilters.year) {
-            url.searchParams.set('primary_release_year', targetFilters.year)
-          }
-        } else {
-          url.searchParams.set('sort_by', targetFilters.sort)
-          if (targetFilters.genre) {
-            url.searchParams.set('with_genres', targetFilters.genre)
-          }
-          if (targetFilters.year) {
-            url.searchParams.set('primary_release_year', targetFilters.year)
-          }
-          if (targetFilters.rating > 0) {
-            url.searchParams.set('vote_average.gte', String(targetFilters.rating))
-            url.searchParams.set('vote_count.gte', '50')
+        const requestPage = (page: number) => {
+          const callOptions = {
+            signal: controller.signal,
+            // Only a fresh search paints from the cache; appended pages wait for the full batch.
+            onCached:
+              page === 1
+                ? (cached: MoviePage | MultiSearchPage) => {
+                    setMovies(applyFilterPipeline(cached.results, targetFilters))
+                    setPeople('people' in cached ? cached.people : [])
+                    setHasFetched(true)
+                  }
+                : undefined,
+            onRetry: setRetry,
           }
+          return requestSearchPage(
+            client,
+            targetFilters,
+            page,
+            { region, providerIds: subscribedProviderIds },
+            callOptions,
+          )
         }
 
-        const headers: HeadersInit = {
-          Accept: 'application/json',
-        }
-
-        if (useBearer) {
-          headers.Authorization = `Bearer ${resolvedKey}`
-        }
+        const keepFetching = filtersLocally(targetFilters)
+        const matches: Movie[] = []
+        const matchingPeople: PersonSummary[] = []
+        let page = startPage
+        let lastPage = startPage
+        let totalResults = 0
+        let fetchedPages = 0
+        let firstPageKeys: string[] = []
+        do {
+          const payload = await requestPage(page)
+          lastPage = Math.min(payload.total_pages, MAX_TMDB_PAGE)
+          totalResults = payload.total_results
+          const pageMatches = applyFilterPipeline(payload.results, targetFilters)
+          if (fetchedPages === 0) firstPageKeys = pageMatches.map(toResultKey)
+          matches.push(...pageMatches)
+          if ('people' in payload) matchingPeople.push(...payload.people)
+          page += 1
+          fetchedPages += 1
+        } while (
+          keepFetching &&
+          matches.length < MATCH_TARGET &&
+          page <= lastPage &&
+          fetchedPages < MAX_PAGES_PER_LOAD
+        )
 
-        const response = await fetch(url.toString(), {
-          headers,
-          signal: controller.signal,
-        })
+        // Each page is sorted as it arrives; later pages go below what is already on screen.
+        setMovies((current) => (append ? mergeResults(current, matches) : matches))
+        setPeople((current) => (append ? mergePeople(current, matchingPeople) : matchingPeople))
+        setProgress({ nextPage: page, lastPage, totalResults })
+        setHasFetched(true)
 
-        if (!response.ok) {
-          if (response.status === 401) {
-            throw new Error('TMDB에서 제공된 API 키를 거부했습니다. 키를 다시 확인한 뒤 시도해주세요.')
-          }
-          throw new Error('지금은 검색 결과를 불러올 수 없습니다. 잠시 후 다시 시도해주세요.')
+        const pendingRun = pendingRunRef.current
+        if (!append && pendingRun?.query === filtersToSearchParams(targetFilters).toString()) {
+          pendingRunRef.current = null
+          markRun(pendingRun.id, firstPageKeys)
         }
-
-        const payload = (await response.json()) as { results?: Movie[] }
-        const normalized = (payload.results ?? []).map((movie) => ({
-          ...movie,
-          title: movie.title || movie.name || '제목 미정',
-        }))
-        const filtered = applyFilterPipeline(normalized, targetFilters)
-        setMovies(filtered)
-        setHasFetched(true)
       } catch (fetchError) {
         if (controller.signal.aborted) return
 
-        setMovies([])
-        setError(
-          fetchError instanceof Error
-            ? fetchError.message
-            : '영화를 검색하는 중 문제가 발생했습니다.',
-        )
+        // A failed "load more" keeps what is already on screen.
+        if (!append) {
+          setMovies([])
+          setPeople([])
+          setProgress(null)
+        }
+        setError(getTmdbErrorMessage(fetchError, t('search.failed')))
       } finally {
         if (requestController.current === controller) {
           requestController.current = null
           setLoading(false)
+          setLoadingMore(false)
+          setRetry(null)
         }
       }
     },
-    [resolvedKey],
+    [client, markRun, region, subscribedProviderIds, t],
   )
 
+  const hasMore = !!progress && progress.nextPage <= progress.lastPage
+
+  const loadMore = useCallback(() => {
+    if (loading || !progress || !hasMore) return
+    fetchMovies(filters, progress.nextPage)
+  }, [fetchMovies, filters, hasMore, loading, progress])
+
+  useEffect(() => {
+    if (!hasMore || typeof window === 'undefined') return undefined
+
+    const handleScroll = () => {
+      if (scrollDebounceRef.current) return
+
+      scrollDebounceRef.current = window.setTimeout(() => {
+        scrollDebounceRef.current = null
+
+        const nearBottom =
+          window.innerHeight + window.scrollY >= document.body.offsetHeight - 240
+
+        if (nearBottom) {
+          loadMore()
+        }
+      }, 120)
+    }
+
+    window.addEventListener('scroll', handleScroll, { passive: true })
+
+    return () => {
+      window.removeEventListener('scroll', handleScroll)
+      if (scrollDebounceRef.current) {
+        window.clearTimeout(scrollDebounceRef.current)
+        scrollDebounceRef.current = null
+      }
+    }
+  }, [hasMore, loadMore])
+
+  // A saved search's "more" link on Home reruns it; coming back to that entry later does not.
+  useEffect(() => {
+    const savedId = navigationType === 'POP' ? null : readSavedRunId(location.state)
+    if (savedId) pendingRunRef.current = { id: savedId, query: location.search.slice(1) }
+  }, [location.search, location.state, navigationType])
+
   useEffect(() => {
-    if (!resolvedKey) {
+    if (!client.hasKey) {
       setMovies([])
-      setError('검색 기능을 사용하려면 로그인 페이지에서 TMDB 키를 연동해주세요.')
+      setProgress(null)
+      setError(t('search.missingKey'))
       setLoading(false)
       firstLoadRef.current = true
       return
@@ -289,7 +515,7 @@ const SearchPage = () => {
         debounceRef.current = null
       }
     }
-  }, [fetchMovies, filters, resolvedKey])
+  }, [client, fetchMovies, filters, t])
 
   useEffect(() => () => requestController.current?.abort(), [])
 
@@ -299,88 +525,225 @@ const SearchPage = () => {
       window.clearTimeout(debounceRef.current)
       debounceRef.current = null
     }
+    startNewEntryRef.current = true
+    const query = filtersToSearchParams(filters).toString()
+    if (query) addRecent(query)
     fetchMovies(filters)
   }
 
+  const handleRunSearch = (query: string, savedId?: string) => {
+    const next = filtersFromSearchParams(new URLSearchParams(query))
+    pendingRunRef.current = savedId ? { id: savedId, query } : null
+    addRecent(query)
+    if (JSON.stringify(next) === JSON.stringify(filters)) {
+      fetchMovies(next)
+    } else {
+      updateFilters(next, { push: true })
+    }
+    startNewEntryRef.current = true
+  }
+
+  /** Opening a result counts as having used the search, so it goes into the recent list. */
+  const handleResultClick = (event: MouseEvent<HTMLDivElement>) => {
+    const query = filtersToSearchParams(filters).toString()
+    if (query && (event.target as Element).closest('a, [role="link"]')) {
+      addRecent(query)
+    }
+  }
+
   const handleToggleFilters = () => {
     setFiltersExpanded((current) => !current)
   }
 
   const wishlistStatus =
-    wishlist.length === 0 ? '위시리스트: 비어 있음' : `위시리스트: ${wishlist.length}개`
+    wishlist.length === 0
+      ? t('common.wishlistEmpty')
+      : t('common.wishlistCount', { count: wishlist.length })
 
-  const showEmptyState = hasFetched && !loading && !error && movies.length === 0
+  const resultCount = movies.length + people.length
+  const showEmptyState = hasFetched && !loading && !error && resultCount === 0
+  const showMultiPrompt = isMulti && !filters.query.trim()
 
   return (
     <div className="page search-page">
       <section className="page-hero">
-        <p className="eyebrow">콘텐츠 검색</p>
-        <h1>브라우저에서 바로 작품을 검색하고 정렬해 보세요.</h1>
-        <p>키워드를 입력하거나 필터를 사용해 실시간으로 결과를 좁혀보세요.</p>
+        <p className="eyebrow">{t('search.eyebrow')}</p>
+        <h1>{t('search.title')}</h1>
+        <p>{t('search.description')}</p>
       </section>
 
       <form className="search-panel" onSubmit={handleSubmit}>
+        <div
+          className="popular-view-toggle search-media-toggle"
+          role="group"
+          aria-label={t('search.mediaType')}
+        >
+          {MEDIA_TYPE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              className={filters.mediaType === option.value ? 'is-active' : ''}
+              aria-pressed={filters.mediaType === option.value}
+              onClick={() => handleMediaTypeChange(option.value)}
+            >
+              {t(option.labelKey)}
+            </button>
+          ))}
+        </div>
+
         <div className="search-panel__query">
-          <label htmlFor="search-query">키워드</label>
+          <label htmlFor="search-query">{t('search.keyword')}</label>
           <div className="search-panel__query-input">
-            <input
+            <SearchCombobox
               id="search-query"
               name="query"
-              type="search"
-              placeholder='예: "스파이더맨", "오펜하이머"...'
+              mediaType={titleMediaType}
+              placeholder={t('search.placeholder')}
               value={filters.query}
               onChange={handleQueryChange}
-              autoComplete="off"
             />
-            <button type="submit">검색</button>
+            <button type="submit">{t('search.submit')}</button>
           </div>
         </div>
 
-        <div className="search-panel__toggle-row">
-          <span className="search-panel__hint">필터는 자동으로 적용됩니다.</span>
+        {isMulti && <p className="search-panel__hint">{t('search.multiNoFilters')}</p>}
+
+        <div className="search-panel__toggle-row" hidden={isMulti}>
+          <span className="search-panel__hint">{t('search.autoApply')}</span>
           <button type="button" className="search-panel__toggle" onClick={handleToggleFilters}>
-            {filtersExpanded ? '필터 숨기기' : '필터 보기'}
+            {filtersExpanded ? t('search.hideFilters') : t('search.showFilters')}
           </button>
         </div>
 
         <div
           className={`search-panel__filters ${filtersExpanded ? 'is-open' : 'is-collapsed'}`}
           aria-hidden={!filtersExpanded}
+          hidden={isMulti}
         >
-          <div className="filter-group">
-            <label htmlFor="genre-filter">장르</label>
-            <select
-              id="genre-filter"
-              name="genre"
-              value={filters.genre}
-              onChange={handleSelectChange}
+          <div className="filter-group filter-group--wide">
+            <GenreChips
+              id="genre-include-label"
+              label={t('search.genreInclude')}
+              genres={genres}
+              selected={filters.genres}
+              variant="include"
+              onToggle={(id) => handleGenreToggle('genres', id)}
+            />
+            <div
+              className="popular-view-toggle filter-group__mode"
+              role="group"
+              aria-label={t('search.genreMode')}
             >
-              {GENRE_OPTIONS.map((option) => (
-                <option key={option.value || 'all'} value={option.value}>
-                  {option.label}
-                </option>
+              {GENRE_MODE_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  className={filters.genreMode === option.value ? 'is-active' : ''}
+                  aria-pressed={filters.genreMode === option.value}
+                  onClick={() => handleGenreModeChange(option.value)}
+                  disabled={filters.genres.length < 2}
+                >
+                  {t(option.labelKey)}
+                </button>
               ))}
-            </select>
+            </div>
+          </div>
+
+          <div className="filter-group filter-group--wide">
+            <GenreChips
+              id="genre-exclude-label"
+              label={t('search.genreExclude')}
+              genres={genres}
+              selected={filters.excludedGenres}
+              variant="exclude"
+              onToggle={(id) => handleGenreToggle('excludedGenres', id)}
+            />
+          </div>
+
+          <div className="filter-group">
+            <FilterEntityPicker
+              id="cast-filter"
+              label={t('search.cast')}
+              placeholder={t('search.castPlaceholder')}
+              source="person"
+              preferDepartment="Acting"
+              selected={filters.cast}
+              disabled={!canFilterByPeople}
+              hintId="cast-filter-hint"
+              onChange={(selected) => handleEntitiesChange('cast', selected)}
+            />
+            <p id="cast-filter-hint" className="filter-group__hint">
+              {filters.mediaType === 'tv'
+                ? t('search.peopleMoviesOnly')
+                : filters.query.trim()
+                  ? t('search.discoverOnlyNoKeyword')
+                  : t('search.castHint')}
+            </p>
+          </div>
+
+          <div className="filter-group">
+            <FilterEntityPicker
+              id="crew-filter"
+              label={t('search.crew')}
+              placeholder={t('search.crewPlaceholder')}
+              source="person"
+              preferDepartment="Directing"
+              selected={filters.crew}
+              disabled={!canFilterByPeople}
+              hintId="crew-filter-hint"
+              onChange={(selected) => handleEntitiesChange('crew', selected)}
+            />
+            <p id="crew-filter-hint" className="filter-group__hint">
+              {filters.mediaType === 'tv'
+                ? t('search.peopleMoviesOnly')
+                : filters.query.trim()
+                  ? t('search.discoverOnlyNoKeyword')
+                  : t('search.crewHint')}
+            </p>
+          </div>
+
+          <div className="filter-group">
+            <FilterEntityPicker
+              id="keyword-tag-filter"
+              label={t('search.keywordTags')}
+              placeholder={t('search.keywordTagsPlaceholder')}
+              source="keyword"
+              selected={filters.keywords}
+              disabled={!canFilterByKeywords}
+              hintId="keyword-tag-filter-hint"
+              onChange={(selected) => handleEntitiesChange('keywords', selected)}
+            />
+            <p id="keyword-tag-filter-hint" className="filter-group__hint">
+              {canFilterByKeywords
+                ? t('search.keywordTagsHint')
+                : t('search.discoverOnlyNoKeyword')}
+            </p>
           </div>
 
           <div className="filter-group">
-            <label htmlFor="sort-filter">정렬</label>
+            <label htmlFor="sort-filter">{t('search.sort')}</label>
             <select
               id="sort-filter"
               name="sort"
               value={filters.sort}
               onChange={handleSelectChange}
+              aria-describedby={filters.query.trim() ? 'sort-filter-hint' : undefined}
             >
               {SORT_OPTIONS.map((option) => (
                 <option key={option.value} value={option.value}>
-                  {option.label}
+                  {t(option.labelKey)}
                 </option>
               ))}
             </select>
+            {filters.query.trim() && (
+              <p id="sort-filter-hint" className="filter-group__hint">
+                {t('search.sortPerBatch')}
+              </p>
+            )}
           </div>
 
           <div className="filter-group filter-group--slider">
-            <label htmlFor="rating-filter">최소 평점</label>
+            <label htmlFor="rating-filter">{t('search.minRating')}</label>
             <div className="filter-group__slider">
               <input
                 id="rating-filter"
@@ -392,20 +755,22 @@ const SearchPage = () => {
                 onChange={handleRatingChange}
               />
               <span className="filter-group__value">
-                {filters.rating > 0 ? `${filters.rating.toFixed(1)}+` : '모든 평점'}
+                {filters.rating > 0 ? `${filters.rating.toFixed(1)}+` : t('search.allRatings')}
               </span>
             </div>
           </div>
 
           <div className="filter-group">
-            <label htmlFor="year-filter">개봉 연도</label>
+            <label htmlFor="year-filter">
+              {filters.mediaType === 'tv' ? t('search.firstAirYear') : t('search.year')}
+            </label>
             <select
               id="year-filter"
               name="year"
               value={filters.year}
               onChange={handleSelectChange}
             >
-              <option value="">전체 연도</option>
+              <option value="">{t('search.allYears')}</option>
               {yearOptions.map((year) => (
                 <option key={year} value={year}>
                   {year}
@@ -414,58 +779,269 @@ const SearchPage = () => {
             </select>
           </div>
 
+          <div className="filter-group">
+            <label htmlFor="votes-filter">{t('search.minVotes')}</label>
+            <select
+              id="votes-filter"
+              name="minVotes"
+              value={filters.minVotes}
+              onChange={handleMinVotesChange}
+            >
+              <option value={0}>{t('search.anyVotes')}</option>
+              {MIN_VOTE_OPTIONS.map((count) => (
+                <option key={count} value={count}>
+                  {t('search.votesOption', { count: formatNumber(count) })}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="filter-group">
+            <span id="release-range-label" className="filter-group__label">
+              {filters.mediaType === 'tv' ? t('search.firstAirRange') : t('search.releaseRange')}
+            </span>
+            <div className="filter-group__range" role="group" aria-labelledby="release-range-label">
+              <input
+                type="date"
+                name="releaseFrom"
+                aria-label={t('search.rangeFrom')}
+                value={filters.releaseFrom}
+                max={filters.releaseTo || undefined}
+                onChange={handleRangeChange}
+              />
+              <span aria-hidden="true">–</span>
+              <input
+                type="date"
+                name="releaseTo"
+                aria-label={t('search.rangeTo')}
+                value={filters.releaseTo}
+                min={filters.releaseFrom || undefined}
+                onChange={handleRangeChange}
+              />
+            </div>
+          </div>
+
+          <div className="filter-group">
+            <label htmlFor="language-filter">{t('search.originalLanguage')}</label>
+            <select
+              id="language-filter"
+              name="originalLanguage"
+              value={filters.originalLanguage}
+              onChange={handleSelectChange}
+            >
+              <option value="">{t('search.allLanguages')}</option>
+              {LANGUAGE_OPTIONS.map((code) => (
+                <option key={code} value={code}>
+                  {formatLanguage(code)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="filter-group">
+            <span id="runtime-range-label" className="filter-group__label">
+              {t('search.runtime')}
+            </span>
+            <div className="filter-group__range" role="group" aria-labelledby="runtime-range-label">
+              <input
+                type="number"
+                name="runtimeMin"
+                inputMode="numeric"
+                min="0"
+                step="10"
+                placeholder={t('search.runtimeMin')}
+                aria-label={t('search.runtimeMin')}
+                value={filters.runtimeMin}
+                onChange={handleRangeChange}
+                disabled={!canFilterByRuntime}
+                aria-describedby={canFilterByRuntime ? undefined : 'runtime-filter-hint'}
+              />
+              <span aria-hidden="true">–</span>
+              <input
+                type="number"
+                name="runtimeMax"
+                inputMode="numeric"
+                min="0"
+                step="10"
+                placeholder={t('search.runtimeMax')}
+                aria-label={t('search.runtimeMax')}
+                value={filters.runtimeMax}
+                onChange={handleRangeChange}
+                disabled={!canFilterByRuntime}
+                aria-describedby={canFilterByRuntime ? undefined : 'runtime-filter-hint'}
+              />
+            </div>
+            {!canFilterByRuntime && (
+              <p id="runtime-filter-hint" className="filter-group__hint">
+                {t('search.discoverOnlyNoKeyword')}
+              </p>
+            )}
+          </div>
+
+          <div className="filter-group">
+            <label htmlFor="certification-filter">{t('search.certification')}</label>
+            <select
+              id="certification-filter"
+              name="certification"
+              value={certification ? filters.certification : ''}
+              onChange={handleSelectChange}
+              disabled={!canFilterByCertification}
+              aria-describedby="certification-filter-hint"
+            >
+              <option value="">{t('search.allCertifications')}</option>
+              {certifications.map((entry) => (
+                <option key={entry.certification} value={`${region}:${entry.certification}`}>
+                  {entry.certification}
+                </option>
+              ))}
+            </select>
+            <p id="certification-filter-hint" className="filter-group__hint">
+              {filters.mediaType === 'tv'
+                ? t('search.certificationMoviesOnly')
+                : filters.query.trim()
+                  ? t('search.discoverOnlyNoKeyword')
+                  : t('search.certificationHint', { region: formatRegion(region) })}
+            </p>
+          </div>
+
+          <div className="filter-group filter-group--check">
+            <label className="filter-group__check" htmlFor="subscribed-filter">
+              <input
+                id="subscribed-filter"
+                type="checkbox"
+                checked={filters.onlySubscribed && canFilterBySubscription}
+                onChange={handleOnlySubscribedChange}
+                disabled={!canFilterBySubscription}
+                aria-describedby="subscribed-filter-hint"
+              />
+              {t('search.onlySubscribed')}
+            </label>
+            <p id="subscribed-filter-hint" className="filter-group__hint">
+              {subscribedProviderIds === ''
+                ? t('search.onlySubscribedNoServices')
+                : filters.query.trim()
+                  ? t('search.onlySubscribedNoKeyword')
+                  : t('search.onlySubscribedHint', {
+                      count: subscriptions.length,
+                      region: formatRegion(region),
+                    })}
+            </p>
+          </div>
+
           <div className="search-panel__actions">
             <button type="button" className="ghost-btn" onClick={handleResetFilters}>
-              필터 초기화
+              {t('search.resetFilters')}
             </button>
             <button type="button" className="search-panel__refresh" onClick={() => fetchMovies(filters)}>
-              결과 새로고침
+              {t('search.refresh')}
             </button>
           </div>
         </div>
       </form>
 
+      <SavedSearchesPanel
+        currentQuery={filtersToSearchParams(filters).toString()}
+        canStore={canStore}
+        saved={saved}
+        recent={recent}
+        onRun={handleRunSearch}
+        onSave={(name) => saveSearch(name, filtersToSearchParams(filters).toString())}
+        onRename={renameSearch}
+        onTogglePinned={togglePinned}
+        onDelete={deleteSearch}
+        onClearRecent={clearRecent}
+      />
+
       <section className="search-status" aria-live="polite">
         <span className={`status-pill ${appliedFilterCount > 0 ? 'is-active' : ''}`}>
-          필터: {appliedFilterCount}
+          {t('search.filterCount', { count: appliedFilterCount })}
         </span>
         <span className="status-pill">
-          {loading ? '불러오는 중...' : `결과: ${movies.length}건`}
+          {loading && !loadingMore
+            ? t('common.loading')
+            : progress
+              ? t('search.resultCountTotal', {
+                  count: formatNumber(resultCount),
+                  total: formatNumber(progress.totalResults),
+                })
+              : t('search.resultCount', { count: resultCount })}
         </span>
+        {filtersLocally(filters) && (
+          <span className="status-pill">{t('search.localFilterNote')}</span>
+        )}
+        {(filters.mediaType === 'movie' || (filters.onlySubscribed && canFilterBySubscription)) && (
+          <span className="status-pill">
+            {t('search.regionStatus', { region: formatRegion(region) })}
+          </span>
+        )}
         <span className="status-pill">{wishlistStatus}</span>
       </section>
 
-      <div className="search-results" aria-live="polite">
-        <div className="search-grid">
-          {movies.map((movie) => (
-            <MovieCard
-              key={movie.id}
-              movie={movie}
-              wished={isInWishlist(movie.id)}
-              onToggleWishlist={handleToggleWishlist}
-            />
-          ))}
-        </div>
+      <div className="search-results" aria-live="polite" onClickCapture={handleResultClick}>
+        {isMulti ? (
+          <MultiSearchResults
+            key={filters.query.trim()}
+            titles={movies}
+            people={people}
+            isInWishlist={isInWishlist}
+            onToggleWishlist={handleToggleWishlist}
+          />
+        ) : (
+          <div className="search-grid">
+            {movies.map((movie) => (
+              <MovieCard
+                key={`${movie.media_type}-${movie.id}`}
+                movie={movie}
+                wished={isInWishlist(movie.id, movie.media_type)}
+                onToggleWishlist={handleToggleWishlist}
+              />
+            ))}
+          </div>
+        )}
 
-        {loading && (
-          <div className="search-results__overlay" aria-label="검색 결과 불러오는 중">
+        {loading && !loadingMore && (
+          <div className="search-results__overlay" aria-label={t('search.loadingResults')}>
             <span className="loading-spinner" aria-hidden="true" />
-            <span>데이터를 불러오는 중...</span>
+            <span>{t('common.loadingData')}</span>
+            <RetryNotice retry={retry} />
           </div>
         )}
       </div>
 
+      {resultCount > 0 && (hasMore || loadingMore) && (
+        <div className="movie-section__more">
+          <button type="button" className="ghost-btn" onClick={loadMore} disabled={loading}>
+            {loadingMore ? (
+              <>
+                <span className="loading-spinner" aria-hidden="true" /> {t('common.loading')}
+              </>
+            ) : (
+              t('search.loadMore')
+            )}
+          </button>
+          {loadingMore && <RetryNotice retry={retry} />}
+        </div>
+      )}
+
+      {hasFetched && !hasMore && !loading && resultCount > 0 && (
+        <p className="search-feedback search-feedback--end">{t('search.endOfResults')}</p>
+      )}
+
       {error && (
         <div className="search-feedback search-feedback--error" role="alert">
           {error}
-          <button type="button" onClick={() => fetchMovies(filters)}>
-            다시 시도
+          <button type="button" onClick={() => (progress ? loadMore() : fetchMovies(filters))}>
+            {t('common.retry')}
           </button>
         </div>
       )}
 
       {showEmptyState && (
-        <p className="search-feedback search-feedback--empty">조건에 맞는 영화가 없습니다.</p>
+        <p className="search-feedback search-feedback--empty">{t('search.empty')}</p>
+      )}
+
+      {showMultiPrompt && (
+        <p className="search-feedback search-feedback--empty">{t('search.multiPrompt')}</p>
       )}
     </div>
   )
@@ -2,6 +2,7 @@ import { useEffect, useRef, useState } from 'react'
 import type { FormEvent } from 'react'
 import { useLocation, useNavigate } from 'react-router-dom'
 import { useAuth } from '../context/AuthContext'
+import { useI18n } from '../i18n/context'
 import {
   authenticateUser,
   getRememberedId,
@@ -42,6 +43,7 @@ const SignInPage = () => {
   const navigate = useNavigate()
   const location = useLocation()
   const { loginWithKey } = useAuth()
+  const { t } = useI18n()
   const redirectPath =
     (location.state as { from?: { pathname?: string } } | undefined)?.from?.pathname ||
     '/'
@@ -66,20 +68,20 @@ const SignInPage = () => {
     const password = loginForm.password.trim()
 
     if (!validateEmail(email)) {
-      showStatus('error', '올바른 이메일 주소를 입력해주세요.')
+      showStatus('error', t('signin.invalidEmail'))
       setIsSubmitting(false)
       return
     }
 
     if (password.length === 0) {
-      showStatus('error', '로그인하려면 TMDB API 키가 필요합니다.')
+      showStatus('error', t('signin.keyRequired'))
       setIsSubmitting(false)
       return
     }
 
     const result = authenticateUser(email, password)
     if (!result.success) {
-      showStatus('error', '해당 이메일과 TMDB 키로 등록된 사용자를 찾을 수 없습니다.')
+      showStatus('error', t('signin.userNotFound'))
       setIsSubmitting(false)
       return
     }
@@ -90,8 +92,8 @@ const SignInPage = () => {
       storeRememberedId(undefined)
     }
 
-    loginWithKey(password)
-    showStatus('success', '로그인에 성공했습니다! 곧 이동합니다...')
+    loginWithKey(password, email)
+    showStatus('success', t('signin.success'))
     setTimeout(() => navigate(redirectPath, { replace: true }), 600)
     setIsSubmitting(false)
   }
@@ -106,37 +108,37 @@ const SignInPage = () => {
     const confirm = signupForm.confirm.trim()
 
     if (!validateEmail(email)) {
-      showStatus('error', '회원가입 전에 올바른 이메일을 입력해주세요.')
+      showStatus('error', t('signin.signupInvalidEmail'))
       setIsSubmitting(false)
       return
     }
 
     if (password.length === 0) {
-      showStatus('error', 'TMDB API 키를 입력해주세요.')
+      showStatus('error', t('signin.signupKeyRequired'))
       setIsSubmitting(false)
       return
     }
 
     if (password !== confirm) {
-      showStatus('error', 'TMDB API 키 확인 값이 일치하지 않습니다.')
+      showStatus('error', t('signin.signupKeyMismatch'))
       setIsSubmitting(false)
       return
     }
 
     if (!signupForm.agree) {
-      showStatus('error', '서비스 약관에 동의해야 합니다.')
+      showStatus('error', t('signin.signupTermsRequired'))
       setIsSubmitting(false)
       return
     }
 
     const result = registerUser(email, password)
     if (!result.success) {
-      showStatus('error', result.message ?? '회원가입을 완료할 수 없습니다.')
+      showStatus('error', result.message ?? t('signin.signupFailed'))
       setIsSubmitting(false)
       return
     }
 
-    showStatus('success', '계정이 생성되었습니다! TMDB 키로 로그인해주세요.')
+    showStatus('success', t('signin.signupSuccess'))
     setSignupForm({
       email: '',
       password: '',
@@ -169,13 +171,11 @@ const SignInPage = () => {
       <div className={`auth-card ${mode === 'signup' ? 'show-signup' : ''}`}>
         <div className="auth-body">
           <section className="auth-copy">
-            <p className="eyebrow">NaDaflix에 오신 것을 환영합니다</p>
-            <h1>최신 인기작부터 숨은 명작까지 한곳에서 만나보세요.</h1>
-            <p className="supporting">
-              등록한 TMDB 키는 이 기기에 안전하게 보관되며 언제든지 변경하거나 삭제할 수 있습니다.
-            </p>
+            <p className="eyebrow">{t('signin.eyebrow')}</p>
+            <h1>{t('signin.title')}</h1>
+            <p className="supporting">{t('signin.supporting')}</p>
             <button className="mode-toggle" type="button" onClick={handleModeToggle}>
-              {mode === 'signin' ? '계정이 없나요? 가입하기' : '이미 계정이 있나요? 로그인하기'}
+              {mode === 'signin' ? t('signin.toSignup') : t('signin.toSignin')}
             </button>
           </section>
 
@@ -186,8 +186,8 @@ const SignInPage = () => {
               onSubmit={handleSignIn}
               aria-hidden={mode !== 'signin'}
             >
-              <h2>로그인</h2>
-              <label htmlFor="signin-email">이메일</label>
+              <h2>{t('signin.heading')}</h2>
+              <label htmlFor="signin-email">{t('signin.email')}</label>
               <input
                 id="signin-email"
                 name="email"
@@ -199,12 +199,12 @@ const SignInPage = () => {
                   setLoginForm((prev) => ({ ...prev, email: event.target.value }))
                 }
               />
-              <label htmlFor="signin-password">TMDB API 키</label>
+              <label htmlFor="signin-password">{t('signin.apiKey')}</label>
               <input
                 id="signin-password"
                 name="password"
                 type="password"
-                placeholder="TMDB 키를 붙여넣으세요"
+                placeholder={t('signin.apiKeyPlaceholder')}
                 value={loginForm.password}
                 onChange={(event) =>
                   setLoginForm((prev) => ({ ...prev, password: event.target.value }))
@@ -219,11 +219,11 @@ const SignInPage = () => {
                       setLoginForm((prev) => ({ ...prev, remember: event.target.checked }))
                     }
                   />
-                  이메일 기억하기
+                  {t('signin.rememberEmail')}
                 </label>
               </div>
               <button type="submit" disabled={isSubmitting}>
-                {isSubmitting && mode === 'signin' ? '확인 중...' : '앱으로 이동'}
+                {isSubmitting && mode === 'signin' ? t('signin.checking') : t('signin.submit')}
               </button>
             </form>
 
@@ -233,8 +233,8 @@ const SignInPage = () => {
               onSubmit={handleSignUp}
               aria-hidden={mode !== 'signup'}
             >
-              <h2>계정 만들기</h2>
-              <label htmlFor="signup-email">이메일</label>
+              <h2>{t('signin.signupHeading')}</h2>
+              <label htmlFor="signup-email">{t('signin.email')}</label>
               <input
                 id="signup-email"
                 type="email"
@@ -244,21 +244,21 @@ const SignInPage = () => {
                   setSignupForm((prev) => ({ ...prev, email: event.target.value }))
                 }
               />
-              <label htmlFor="signup-password">TMDB API 키</label>
+              <label htmlFor="signup-password">{t('signin.apiKey')}</label>
               <input
                 id="signup-password"
                 type="password"
-                placeholder="TMDB API 키"
+                placeholder={t('signin.signupKeyPlaceholder')}
                 value={signupForm.password}
                 onChange={(event) =>
                   setSignupForm((prev) => ({ ...prev, password: event.target.value }))
                 }
               />
-              <label htmlFor="signup-confirm">TMDB 키 확인</label>
+              <label htmlFor="signup-confirm">{t('signin.confirmKey')}</label>
               <input
                 id="signup-confirm"
                 type="password"
-                placeholder="TMDB 키를 다시 입력하세요"
+                placeholder={t('signin.confirmKeyPlaceholder')}
                 value={signupForm.confirm}
                 onChange={(event) =>
                   setSignupForm((prev) => ({ ...prev, confirm: event.target.value }))
@@ -274,13 +274,12 @@ const SignInPage = () => {
                   }
                 />
                 <span>
-                  <strong>약관 동의</strong> — 이 기기에 입력한 TMDB 키가 저장되며 나중에 언제든 삭제할 수
-                  있다는 사실을 확인했습니다.
+                  <strong>{t('signin.termsTitle')}</strong> — {t('signin.termsBody')}
                 </span>
               </label>
 
               <button type="submit" disabled={isSubmitting || !signupForm.agree}>
-                {isSubmitting && mode === 'signup' ? '생성 중...' : '회원가입'}
+                {isSubmitting && mode === 'signup' ? t('signin.creating') : t('signin.signupSubmit')}
               </button>
             </form>
           </section>
@@ -0,0 +1,146 @@
+import { useCallback } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import type { TrendingWindow } from '../api/types'
+import MovieCard from '../components/MovieCard'
+import RetryNotice from '../components/RetryNotice'
+import { useMovies, type Movie } from '../hooks/useMovies'
+import { useTrendingMovement } from '../hooks/useTrendingMovement'
+import { useWishlist } from '../hooks/useWishlist'
+import type { MessageKey } from '../i18n'
+import { useI18n } from '../i18n/context'
+
+const WINDOW_OPTIONS: { labelKey: MessageKey; value: TrendingWindow }[] = [
+  { labelKey: 'trending.day', value: 'day' },
+  { labelKey: 'trending.week', value: 'week' },
+]
+
+type TrendingChartProps = {
+  timeWindow: TrendingWindow
+}
+
+/** One window's chart; keyed by window so its pages and rank baseline never mix with the other. */
+const TrendingChart = ({ timeWindow }: TrendingChartProps) => {
+  const { t } = useI18n()
+  const { toggleWishlist, isInWishlist } = useWishlist()
+  const { movies, hasMore, hasFetched, loading, loadingMore, retry, error, loadMore, refetch } =
+    useMovies(`/trending/movie/${timeWindow}`)
+  const { getMovement, hasBaseline } = useTrendingMovement(timeWindow, movies)
+
+  const handleToggleWishlist = useCallback(
+    (movie: Movie) => {
+      toggleWishlist({
+        id: movie.id,
+        title: movie.title,
+        poster_path: movie.poster_path ?? null,
+        media_type: movie.media_type,
+      })
+    },
+    [toggleWishlist],
+  )
+
+  const showInitialLoading = loading && !loadingMore
+  const showEmptyState = hasFetched && !loading && !error && movies.length === 0
+
+  return (
+    <>
+      {!hasBaseline && <p className="trending-page__notice">{t('trending.firstVisit')}</p>}
+
+      <div className="popular-movie-stage stage-infinite">
+        <ol className="popular-movie-grid trending-grid">
+          {movies.map((movie, index) => (
+            <li key={movie.id}>
+              <MovieCard
+                movie={movie}
+                wished={isInWishlist(movie.id, movie.media_type)}
+                onToggleWishlist={handleToggleWishlist}
+                rank={index + 1}
+                movement={getMovement(movie.id, index + 1)}
+              />
+            </li>
+          ))}
+        </ol>
+
+        {showInitialLoading && (
+          <div className="popular-overlay" aria-live="polite">
+            <span className="loading-spinner" aria-hidden="true" />
+            <span>{t('common.loadingData')}</span>
+            <RetryNotice retry={retry} />
+          </div>
+        )}
+
+        {showEmptyState && (
+          <p className="popular-feedback popular-feedback--empty">{t('trending.empty')}</p>
+        )}
+
+        {error && (
+          <div className="popular-feedback popular-feedback--error" role="alert">
+            {error}
+            <button type="button" onClick={refetch}>
+              {t('common.retry')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {movies.length > 0 && hasMore && (
+        <div className="movie-section__more">
+          <button type="button" className="ghost-btn" onClick={loadMore} disabled={loadingMore}>
+            {loadingMore ? (
+              <>
+                <span className="loading-spinner" aria-hidden="true" /> {t('common.loading')}
+              </>
+            ) : (
+              t('trending.loadMore')
+            )}
+          </button>
+          {loadingMore && <RetryNotice retry={retry} />}
+        </div>
+      )}
+    </>
+  )
+}
+
+/**
+ * TMDb's trending chart for today or this week, numbered in feed order. Each card shows how far it
+ * moved since the user's previous visit; the window lives in `?window=` so it survives reloads.
+ */
+const TrendingPage = () => {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const timeWindow: TrendingWindow = searchParams.get('window') === 'week' ? 'week' : 'day'
+  const { t } = useI18n()
+
+  const handleWindowChange = (value: TrendingWindow) => {
+    if (value === timeWindow) return
+    setSearchParams(value === 'day' ? {} : { window: value }, { replace: true })
+  }
+
+  return (
+    <div className="page trending-page">
+      <section className="page-hero">
+        <p className="eyebrow">{t('trending.eyebrow')}</p>
+        <h1>{t('trending.title')}</h1>
+        <p>{t('trending.description')}</p>
+      </section>
+
+      <section className="popular-toolbar">
+        <div className="popular-view-toggle" role="group" aria-label={t('trending.window')}>
+          {WINDOW_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              className={timeWindow === option.value ? 'is-active' : ''}
+              aria-pressed={timeWindow === option.value}
+              onClick={() => handleWindowChange(option.value)}
+            >
+              {t(option.labelKey)}
+            </button>
+          ))}
+        </div>
+      </section>
+
+      <TrendingChart key={timeWindow} timeWindow={timeWindow} />
+    </div>
+  )
+}
+
+export default TrendingPage
@@ -0,0 +1,357 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { TmdbNotFoundError, getTmdbErrorMessage } from '../api/errors'
+import type { RetryInfo } from '../api/scheduler'
+import type { Season, SeasonDetail, TvDetail } from '../api/types'
+import RetryNotice from '../components/RetryNotice'
+import TmdbImage from '../components/TmdbImage'
+import { useTmdbClient } from '../hooks/useTmdbClient'
+import { useWishlist } from '../hooks/useWishlist'
+import { useI18n } from '../i18n/context'
+
+/** Regular seasons first; TMDb's season 0 ("Specials") goes to the end. */
+const orderSeasons = (seasons: Season[] = []) =>
+  seasons
+    .slice()
+    .sort((a, b) => (a.season_number || Infinity) - (b.season_number || Infinity))
+
+/**
+ * The TV detail page mirrors the movie detail layout for a series and adds a season picker whose
+ * episodes are fetched on demand from `/tv/{id}/season/{n}`.
+ */
+const TvDetailPage = () => {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const client = useTmdbClient()
+  const { toggleWishlist, isInWishlist } = useWishlist()
+  const { t, formatDate, formatNumber, formatRuntime } = useI18n()
+
+  const [show, setShow] = useState<TvDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [retry, setRetry] = useState<RetryInfo | null>(null)
+  // Keyed by show so that navigating to another series starts from its first season again.
+  const [selectedSeason, setSelectedSeason] = useState<{ showId: string; number: number } | null>(
+    null,
+  )
+  const [season, setSeason] = useState<SeasonDetail | null>(null)
+  const [seasonLoading, setSeasonLoading] = useState(false)
+  const [seasonError, setSeasonError] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const fetchShow = useCallback(async () => {
+    if (!id) {
+      setError(t('tv.missingId'))
+      setShow(null)
+      setLoading(false)
+      return
+    }
+
+    if (!client.hasKey) {
+      setError(t('detail.missingKey'))
+      setShow(null)
+      setLoading(false)
+      return
+    }
+
+    const controller = new AbortController()
+    abortRef.current?.abort()
+    abortRef.current = controller
+
+    let hasCached = false
+    setLoading(true)
+    setError(null)
+
+    try {
+      const normalized = await client.getTvDetails(id, {
+        signal: controller.signal,
+        onCached: (cached) => {
+          hasCached = true
+          setShow(cached)
+          setLoading(false)
+        },
+        onRetry: setRetry,
+      })
+      setShow(normalized)
+    } catch (fetchError) {
+      if (controller.signal.aborted || hasCached) return
+
+      setShow(null)
+      setError(
+        fetchError instanceof TmdbNotFoundError
+          ? t('tv.notFound')
+          : getTmdbErrorMessage(fetchError, t('tv.failed')),
+      )
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null
+      }
+      if (!controller.signal.aborted) {
+        setLoading(false)
+        setRetry(null)
+      }
+    }
+  }, [client, id, t])
+
+  useEffect(() => {
+    fetchShow()
+    return () => {
+      abortRef.current?.abort()
+    }
+  }, [fetchShow])
+
+  const seasons = orderSeasons(show?.seasons)
+  const activeSeason =
+    selectedSeason && selectedSeason.showId === id
+      ? selectedSeason.number
+      : (seasons[0]?.season_number ?? null)
+
+  useEffect(() => {
+    setSeason(null)
+    setSeasonError(null)
+    if (!id || activeSeason === null || !client.hasKey) return
+
+    const controller = new AbortController()
+    setSeasonLoading(true)
+
+    client
+      .getTvSeason(id, activeSeason, {
+        signal: controller.signal,
+        onCached: (cached) => {
+          setSeason(cached)
+          setSeasonLoading(false)
+        },
+      })
+      .then((payload) => {
+        if (!controller.signal.aborted) setSeason(payload)
+      })
+      .catch((fetchError) => {
+        if (controller.signal.aborted) return
+        setSeasonError(getTmdbErrorMessage(fetchError, t('tv.seasonFailed')))
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setSeasonLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [activeSeason, client, id, t])
+
+  const isWishlisted = show ? isInWishlist(show.id, 'tv') : false
+  const firstAirDate =
+    (show?.first_air_date && formatDate(show.first_air_date)) || t('detail.noReleaseDate')
+  const episodeRuntime = formatRuntime(show?.episode_run_time?.[0])
+  const overviewText = show?.overview?.trim() || t('detail.noOverview')
+  const ratingLabel = typeof show?.vote_average === 'number' ? show.vote_average.toFixed(1) : 'NR'
+
+  const handleWishlistToggle = () => {
+    if (!show) return
+
+    toggleWishlist({
+      id: show.id,
+      title: show.title,
+      poster_path: show.poster_path ?? null,
+      media_type: 'tv',
+    })
+  }
+
+  const handleBack = () => {
+    navigate(-1)
+  }
+
+  return (
+    <div className="page movie-detail-page tv-detail-page">
+      <div className="movie-detail">
+        {show?.backdrop_path && (
+          <TmdbImage
+            path={show.backdrop_path}
+            kind="backdrop"
+            alt=""
+            sizes="(max-width: 1280px) 100vw, 1280px"
+            className="movie-detail__backdrop"
+            loading="eager"
+            fallback={null}
+          />
+        )}
+        <div className="movie-detail__panel">
+          <button type="button" className="detail-back-btn" onClick={handleBack}>
+            {t('common.back')}
+          </button>
+          {loading ? (
+            <div className="movie-detail__status" role="status">
+              <span className="loading-spinner" aria-hidden="true" />
+              <p>{t('detail.loading')}</p>
+              <RetryNotice retry={retry} />
+            </div>
+          ) : error ? (
+            <div className="movie-detail__status movie-detail__status--error" role="alert">
+              <p>{error}</p>
+              <div className="movie-detail__status-actions">
+                <button type="button" onClick={fetchShow}>
+                  {t('common.retry')}
+                </button>
+              </div>
+            </div>
+          ) : show ? (
+            <div className="movie-detail__content" aria-live="polite">
+              <div className="movie-detail__hero">
+                <div className="movie-detail__poster">
+                  <TmdbImage
+                    path={show.poster_path}
+                    kind="poster"
+                    alt={t('common.posterAlt', { title: show.title })}
+                    sizes="320px"
+                    loading="eager"
+                  />
+                </div>
+                <div className="movie-detail__info">
+                  <p className="movie-detail__eyebrow">{t('tv.eyebrow')}</p>
+                  <h1>{show.title}</h1>
+                  {show.tagline && (
+                    <p className="movie-detail__tagline">&ldquo;{show.tagline}&rdquo;</p>
+                  )}
+                  <div className="movie-detail__meta">
+                    <div>
+                      <span>{t('detail.rating')}</span>
+                      <strong>{ratingLabel}</strong>
+                    </div>
+                    <div>
+                      <span>{t('tv.firstAirDate')}</span>
+                      <strong>{firstAirDate}</strong>
+                    </div>
+                    {typeof show.number_of_seasons === 'number' && (
+                      <div>
+                        <span>{t('tv.seasons')}</span>
+                        <strong>{formatNumber(show.number_of_seasons)}</strong>
+                      </div>
+                    )}
+                    {typeof show.number_of_episodes === 'number' && (
+                      <div>
+                        <span>{t('tv.episodes')}</span>
+                        <strong>{formatNumber(show.number_of_episodes)}</strong>
+                      </div>
+                    )}
+                    {episodeRuntime && (
+                      <div>
+                        <span>{t('tv.episodeRuntime')}</span>
+                        <strong>{episodeRuntime}</strong>
+                      </div>
+                    )}
+                  </div>
+                  <div className="movie-detail__genres" aria-label={t('detail.genres')}>
+                    {(show.genres ?? []).length > 0 ? (
+                      (show.genres ?? []).map((genre) => (
+                        <Link
+                          key={genre.id}
+                          to={`/genre/${genre.id}?type=tv`}
+                          className="movie-detail__genre"
+                        >
+                          {genre.name}
+                        </Link>
+                      ))
+                    ) : (
+                      <span className="movie-detail__genre movie-detail__genre--placeholder">
+                        {t('detail.noGenres')}
+                      </span>
+                    )}
+                  </div>
+                  <p className="movie-detail__overview">{overviewText}</p>
+                  <div className="movie-detail__actions">
+                    <button
+                      type="button"
+                      className={`detail-wishlist ${isWishlisted ? 'is-active' : ''}`}
+                      onClick={handleWishlistToggle}
+                    >
+                      {isWishlisted ? t('detail.removeFromWishlist') : t('detail.addToWishlist')}
+                    </button>
+                  </div>
+                </div>
+              </div>
+
+              <section className="tv-seasons">
+                <h2>{t('tv.seasonsTitle')}</h2>
+                {seasons.length === 0 ? (
+                  <p className="tv-seasons__empty">{t('tv.noSeasons')}</p>
+                ) : (
+                  <>
+                    <div className="tv-seasons__tabs" role="tablist" aria-label={t('tv.seasonTabs')}>
+                      {seasons.map((item) => (
+                        <button
+                          key={item.id}
+                          type="button"
+                          role="tab"
+                          aria-selected={item.season_number === activeSeason}
+                          className={item.season_number === activeSeason ? 'is-active' : ''}
+                          onClick={() =>
+                            id && setSelectedSeason({ showId: id, number: item.season_number })
+                          }
+                        >
+                          {item.name}
+                          {typeof item.episode_count === 'number' && (
+                            <span>{t('tv.episodeCount', { count: item.episode_count })}</span>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+
+                    <div className="tv-seasons__panel" role="tabpanel">
+                      {seasonLoading && !season ? (
+                        <div className="section-feedback section-feedback--loading" role="status">
+                          <span className="loading-spinner" aria-hidden="true" />
+                          {t('tv.seasonLoading')}
+                        </div>
+                      ) : seasonError ? (
+                        <div className="section-feedback section-feedback--error" role="alert">
+                          {seasonError}
+                        </div>
+                      ) : season && season.episodes.length > 0 ? (
+                        <ol className="tv-episodes">
+                          {season.episodes.map((episode) => {
+                            const airDate = episode.air_date ? formatDate(episode.air_date) : null
+                            const runtime = formatRuntime(episode.runtime)
+                            return (
+                              <li key={episode.id} className="tv-episode">
+                                <div className="tv-episode__still">
+                                  <TmdbImage
+                                    path={episode.still_path}
+                                    kind="still"
+                                    alt=""
+                                    sizes="200px"
+                                    fallback={null}
+                                  />
+                                </div>
+                                <div className="tv-episode__body">
+                                  <p className="tv-episode__number">
+                                    {t('tv.episodeLabel', { number: episode.episode_number })}
+                                  </p>
+                                  <h3>{episode.name}</h3>
+                                  <p className="tv-episode__meta">
+                                    {[airDate ?? t('tv.noAirDate'), runtime]
+                                      .filter(Boolean)
+                                      .join(' · ')}
+                                  </p>
+                                  {episode.overview?.trim() && <p>{episode.overview.trim()}</p>}
+                                </div>
+                              </li>
+                            )
+                          })}
+                        </ol>
+                      ) : (
+                        season && (
+                          <div className="section-feedback section-feedback--empty">
+                            {t('tv.noEpisodes')}
+                          </div>
+                        )
+                      )}
+                    </div>
+                  </>
+                )}
+              </section>
+            </div>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default TvDetailPage
@@ -1,14 +1,12 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { Link } from 'react-router-dom'
+import type { RetryInfo } from '../api/scheduler'
 import MovieCard from '../components/MovieCard'
+import RetryNotice from '../components/RetryNotice'
 import type { Movie } from '../hooks/useMovies'
+import { useTmdbClient } from '../hooks/useTmdbClient'
 import { useWishlist } from '../hooks/useWishlist'
-import { useAuth } from '../context/AuthContext'
-import { getStoredTmdbKey } from '../utils/auth'
-
-const TMDB_BASE_URL = 'https://api.themoviedb.org/3'
-
-const isV4Token = (key: string) => key.trim().startsWith('eyJ')
+import { useI18n } from '../i18n/context'
 
 /**
  * The Wishlist page retrieves all movie data exclusively from LocalStorage and does not perform any
@@ -16,11 +14,12 @@ const isV4Token = (key: string) => key.trim().startsWith('eyJ')
  */
 const WishlistPage = () => {
   const { wishlist, toggleWishlist } = useWishlist()
-  const { tmdbKey: contextKey } = useAuth()
-  const resolvedKey = useMemo(() => (contextKey || getStoredTmdbKey()).trim(), [contextKey])
+  const client = useTmdbClient()
+  const { t } = useI18n()
   const [movies, setMovies] = useState<Movie[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [retry, setRetry] = useState<RetryInfo | null>(null)
   const requestRef = useRef<AbortController | null>(null)
 
   const handleRemove = useCallback(
@@ -29,6 +28,7 @@ const WishlistPage = () => {
         id: movie.id,
         title: movie.title,
         poster_path: movie.poster_path ?? null,
+        media_type: movie.media_type,
       })
     },
     [toggleWishlist],
@@ -47,10 +47,10 @@ const WishlistPage = () => {
       return
     }
 
-    if (!resolvedKey) {
+    if (!client.hasKey) {
       setMovies([])
       setLoading(false)
-      setError('위시리스트를 불러오려면 로그인 페이지에서 TMDB 키를 등록해주세요.')
+      setError(t('wishlist.missingKey'))
       return
     }
 
@@ -59,45 +59,25 @@ const WishlistPage = () => {
     setLoading(true)
     setError(null)
 
-    const useBearer = isV4Token(resolvedKey)
-    const headers: HeadersInit = useBearer
-      ? {
-          Accept: 'application/json',
-          Authorization: `Bearer ${resolvedKey}`,
-        }
-      : {
-          Accept: 'application/json',
-        }
-
     const fetchWishlistDetails = async () => {
       try {
         const detailed = await Promise.all(
           wishlist.map(async (entry) => {
+            const mediaType = entry.media_type ?? 'movie'
             try {
-              const url = new URL(`${TMDB_BASE_URL}/movie/${entry.id}`)
-              url.searchParams.set('language', 'ko-KR')
-              if (!useBearer) {
-                url.searchParams.set('api_key', resolvedKey)
-              }
-
-              const response = await fetch(url.toString(), {
-                headers,
-                signal: controller.signal,
-              })
-
-              if (!response.ok) {
-                throw new Error('failed')
-              }
-
-              const payload = (await response.json()) as (Partial<Movie> & { id: number }) | null
-              if (!payload) {
-                throw new Error('missing payload')
-              }
+              const callOptions = { signal: controller.signal, onRetry: setRetry }
+              const payload =
+                mediaType === 'tv'
+                  ? await client
+                      .getTvDetails(entry.id, callOptions)
+                      .then((show) => ({ ...show, release_date: show.first_air_date }))
+                  : await client.getMovieDetails(entry.id, callOptions)
 
               const normalized: Movie = {
                 id: payload.id,
-                title: payload.title || payload.name || entry.title,
-                overview: payload.overview?.trim() || '설명이 준비되어 있지 않습니다.',
+                media_type: mediaType,
+                title: payload.title || entry.title,
+                overview: payload.overview?.trim() || t('detail.noOverview'),
                 poster_path: payload.poster_path ?? entry.poster_path ?? null,
                 backdrop_path: payload.backdrop_path ?? null,
                 release_date: payload.release_date,
@@ -107,13 +87,14 @@ const WishlistPage = () => {
               }
 
               return normalized
-            } catch (itemError) {
+            } catch {
               if (controller.signal.aborted) return null
 
               return {
                 id: entry.id,
+                media_type: mediaType,
                 title: entry.title,
-                overview: '이 작품 정보를 불러오지 못했습니다.',
+                overview: t('wishlist.itemFailed'),
                 poster_path: entry.poster_path ?? null,
               } as Movie
             }
@@ -123,21 +104,23 @@ const WishlistPage = () => {
         if (!controller.signal.aborted) {
           setMovies(detailed.filter(Boolean) as Movie[])
         }
-      } catch (listError) {
+      } catch {
         if (controller.signal.aborted) return
 
-        setError('위시리스트를 불러오는 중 문제가 발생했습니다.')
+        setError(t('wishlist.failed'))
         setMovies(
           wishlist.map((entry) => ({
             id: entry.id,
+            media_type: entry.media_type,
             title: entry.title,
-            overview: '이 작품 정보를 불러오지 못했습니다.',
+            overview: t('wishlist.itemFailed'),
             poster_path: entry.poster_path ?? null,
           })),
         )
       } finally {
         if (!controller.signal.aborted) {
           setLoading(false)
+          setRetry(null)
         }
       }
     }
@@ -145,39 +128,39 @@ const WishlistPage = () => {
     fetchWishlistDetails()
 
     return () => controller.abort()
-  }, [isEmpty, resolvedKey, wishlist])
+  }, [client, isEmpty, t, wishlist])
 
   return (
     <div className="page wishlist-page">
       <section className="page-hero">
-        <p className="eyebrow">위시리스트</p>
-        <h1>저장해 둔 작품을 한곳에서 확인하세요.</h1>
-        <p>마음에 든 타이틀을 모아두고 언제든 다시 이어서 감상하세요.</p>
+        <p className="eyebrow">{t('wishlist.eyebrow')}</p>
+        <h1>{t('wishlist.title')}</h1>
+        <p>{t('wishlist.description')}</p>
       </section>
 
       <section className="wishlist-summary">
         <article>
-          <header>저장된 작품</header>
+          <header>{t('wishlist.savedHeader')}</header>
           <strong>{wishlistCount}</strong>
-          <p>{isEmpty ? '아직 저장된 항목이 없습니다.' : '별 표시를 눌러 언제든 제거하세요.'}</p>
+          <p>{isEmpty ? t('wishlist.noneSaved') : t('wishlist.removeHint')}</p>
         </article>
         <article>
-          <header>보관 방식</header>
-          <strong>이 기기</strong>
-          <p>이 기기에 저장되어 언제든 확인할 수 있어요.</p>
+          <header>{t('wishlist.storageHeader')}</header>
+          <strong>{t('wishlist.storageValue')}</strong>
+          <p>{t('wishlist.storageHint')}</p>
         </article>
       </section>
 
       {isEmpty ? (
         <div className="wishlist-empty">
-          <p>아직 저장된 영화가 없습니다.</p>
-          <p>카드에서 바로 즐겨찾기를 추가하거나 아래 버튼으로 이동하세요.</p>
+          <p>{t('wishlist.emptyTitle')}</p>
+          <p>{t('wishlist.emptyHint')}</p>
           <div className="wishlist-empty__actions">
             <Link className="wishlist-action" to="/">
-              홈 둘러보기
+              {t('wishlist.goHome')}
             </Link>
             <Link className="wishlist-action ghost" to="/popular">
-              인기작 보기
+              {t('wishlist.goPopular')}
             </Link>
           </div>
         </div>
@@ -192,20 +175,26 @@ const WishlistPage = () => {
           {loading && (
             <div className="section-feedback section-feedback--loading" role="status">
               <span className="loading-spinner" aria-hidden="true" />
-              <span>위시리스트를 불러오는 중...</span>
+              <span>{t('wishlist.loading')}</span>
+              <RetryNotice retry={retry} />
             </div>
           )}
 
           {!loading && movies.length === 0 && !error && (
             <div className="section-feedback section-feedback--empty" role="status">
-              표시할 영화 정보를 찾을 수 없습니다.
+              {t('wishlist.nothingToShow')}
             </div>
           )}
 
           {movies.length > 0 && (
             <div className="wishlist-grid" aria-live="polite">
               {movies.map((movie) => (
-                <MovieCard key={movie.id} movie={movie} wished onToggleWishlist={handleRemove} />
+                <MovieCard
+                  key={`${movie.media_type ?? 'movie'}-${movie.id}`}
+                  movie={movie}
+                  wished
+                  onToggleWishlist={handleRemove}
+                />
               ))}
             </div>
           )}
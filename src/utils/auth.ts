@@ -1,3 +1,5 @@
+import { t } from '../i18n'
+
 export type StoredUser = {
   id: string
   password: string
@@ -7,6 +9,7 @@ const USERS_KEY = 'users'
 const TMDB_KEY = 'TMDb-Key'
 const IS_LOGIN_KEY = 'isLogin'
 const REMEMBER_ID_KEY = 'rememberId'
+const CURRENT_USER_KEY = 'currentUser'
 
 const EMAIL_REGEX =
   /^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/
@@ -49,7 +52,7 @@ export const saveUsers = (users: StoredUser[]) => {
 export const registerUser = (email: string, password: string) => {
   const users = readUsers()
   if (users.some((user) => user.id === email)) {
-    return { success: false, message: '이미 등록된 이메일입니다.' }
+    return { success: false, message: t('auth.emailTaken') }
   }
 
   const updated = [...users, { id: email, password }]
@@ -63,19 +66,21 @@ export const authenticateUser = (email: string, password: string) => {
   const match = users.find((user) => user.id === email && user.password === password)
 
   if (!match) {
-    return { success: false, message: '입력하신 정보가 올바르지 않습니다.' }
+    return { success: false, message: t('auth.invalidCredentials') }
   }
 
   return { success: true, tmdbKey: match.password }
 }
 
-export const persistLoginState = (tmdbKey: string) => {
+export const persistLoginState = (tmdbKey: string, userId: string) => {
   writeToStorage(TMDB_KEY, tmdbKey)
+  writeToStorage(CURRENT_USER_KEY, userId)
   writeToStorage(IS_LOGIN_KEY, 'true')
 }
 
 export const clearLoginState = () => {
   removeFromStorage(TMDB_KEY)
+  removeFromStorage(CURRENT_USER_KEY)
   writeToStorage(IS_LOGIN_KEY, 'false')
 }
 
@@ -83,6 +88,13 @@ export const isLoggedIn = () => readFromStorage(IS_LOGIN_KEY) === 'true'
 
 export const getStoredTmdbKey = () => readFromStorage(TMDB_KEY) ?? ''
 
+/**
+ * The signed-in account's email, stored at sign-in. Sessions from before it was stored get `''`
+ * (no per-user data) until the next sign-in; several accounts can share a key, so it is not
+ * guessed from that.
+ */
+export const getCurrentUserId = () => readFromStorage(CURRENT_USER_KEY) ?? ''
+
 export const storeRememberedId = (email?: string) => {
   if (!email) {
     removeFromStorage(REMEMBER_ID_KEY)
@@ -0,0 +1,56 @@
+import type { MoviesSnapshot } from '../hooks/useMovies'
+
+export type FeedSnapshot = MoviesSnapshot & {
+  scrollY: number
+  savedAt: number
+}
+
+export const FEED_SNAPSHOT_STORAGE_KEY = 'feedSnapshots'
+
+/** Only the last few history entries are worth restoring; older ones are dropped first. */
+const MAX_SNAPSHOTS = 4
+
+const canUseStorage = () => typeof window !== 'undefined' && !!window.sessionStorage
+
+const readSnapshots = (): Record<string, FeedSnapshot> => {
+  if (!canUseStorage()) return {}
+  const raw = window.sessionStorage.getItem(FEED_SNAPSHOT_STORAGE_KEY)
+  if (!raw) return {}
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, FeedSnapshot>
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+/** The feed as it was when `key` (a feed name plus history entry key) was left. */
+export const readFeedSnapshot = (key: string): FeedSnapshot | null => {
+  const snapshot = readSnapshots()[key]
+  return snapshot && Array.isArray(snapshot.movies) && typeof snapshot.page === 'number'
+    ? snapshot
+    : null
+}
+
+/**
+ * Stores a loaded feed for the current tab. SessionStorage keeps it across a reload of the same
+ * history entry but not into other tabs, where the entry keys mean nothing.
+ */
+export const writeFeedSnapshot = (key: string, snapshot: Omit<FeedSnapshot, 'savedAt'>) => {
+  if (!canUseStorage()) return
+  const snapshots = { ...readSnapshots(), [key]: { ...snapshot, savedAt: Date.now() } }
+  const kept = Object.entries(snapshots)
+    .sort(([, a], [, b]) => b.savedAt - a.savedAt)
+    .slice(0, MAX_SNAPSHOTS)
+
+  try {
+    window.sessionStorage.setItem(
+      FEED_SNAPSHOT_STORAGE_KEY,
+      JSON.stringify(Object.fromEntries(kept)),
+    )
+  } catch {
+    // A feed too large for the quota is simply not restored; the page loads it again instead.
+    window.sessionStorage.removeItem(FEED_SNAPSHOT_STORAGE_KEY)
+  }
+}
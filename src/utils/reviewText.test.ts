@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { parseInline, parseReviewBlocks, previewReview } from './reviewText'
+
+const paragraphs = (...texts: string[]) =>
+  texts.map((text) => ({ type: 'paragraph' as const, text }))
+
+describe('parseReviewBlocks', () => {
+  it('splits paragraphs and recognizes quotes and headings', () => {
+    expect(parseReviewBlocks('# Verdict\n\n> quoted\n> twice\n\nPlain text.')).toEqual([
+      { type: 'heading', text: 'Verdict' },
+      { type: 'quote', text: 'quoted\ntwice' },
+      { type: 'paragraph', text: 'Plain text.' },
+    ])
+  })
+
+  it('maps the HTML TMDb passes through onto Markdown and decodes entities', () => {
+    const html = '<p>One <b>bold</b> &amp; <i>slanted</i></p><p>Two<br>lines</p>'
+    expect(parseReviewBlocks(html)).toEqual(paragraphs('One **bold** & _slanted_', 'Two\nlines'))
+  })
+})
+
+describe('parseInline', () => {
+  it('reads bold, italics and http links', () => {
+    expect(parseInline('a **b** _c_ [d](https://example.com/x)')).toEqual([
+      { type: 'text', text: 'a ' },
+      { type: 'strong', children: [{ type: 'text', text: 'b' }] },
+      { type: 'text', text: ' ' },
+      { type: 'em', children: [{ type: 'text', text: 'c' }] },
+      { type: 'text', text: ' ' },
+      { type: 'link', href: 'https://example.com/x', children: [{ type: 'text', text: 'd' }] },
+    ])
+  })
+
+  it('leaves snake_case words and non-http links as text', () => {
+    expect(parseInline('snake_case_name')).toEqual([{ type: 'text', text: 'snake_case_name' }])
+    expect(parseInline('[x](javascript:alert(1))')).toEqual([
+      { type: 'text', text: '[x](javascript:alert(1))' },
+    ])
+  })
+})
+
+describe('previewReview', () => {
+  it('keeps short reviews whole', () => {
+    const blocks = paragraphs('Short.', 'Also short.')
+    expect(previewReview(blocks, 500)).toEqual({
+      blocks,
+      truncated: false,
+      stoppedAtSpoiler: false,
+    })
+  })
+
+  it('cuts a long review at a sentence end', () => {
+    const long = `${'First sentence runs on. '.repeat(10)}Tail`
+    const preview = previewReview(paragraphs(long), 100)
+    expect(preview.truncated).toBe(true)
+    expect(preview.blocks[0].text.endsWith('on.…')).toBe(true)
+  })
+
+  it('stops before a spoiler warning', () => {
+    for (const warning of ['SPOILERS AHEAD', 'Spoiler alert!', '스포일러 주의', '스포 주의']) {
+      expect(previewReview(paragraphs('Setup.', warning, 'The twist.'), 500)).toEqual({
+        blocks: paragraphs('Setup.'),
+        truncated: true,
+        stoppedAtSpoiler: true,
+      })
+    }
+  })
+
+  it('does not treat a promise of no spoilers as a warning', () => {
+    const promises = [
+      'A spoiler-free review.',
+      'Spoiler free, I promise.',
+      'No spoilers here.',
+      'Non-spoiler thoughts.',
+      'Written without spoilers.',
+      '스포일러 없음',
+      '스포일러가 없는 리뷰입니다.',
+    ]
+    for (const promise of promises) {
+      const blocks = paragraphs(promise, 'The rest.')
+      expect(previewReview(blocks, 500)).toMatchObject({ blocks, stoppedAtSpoiler: false })
+    }
+  })
+
+  it('still stops at a real warning after a promise of none', () => {
+    const blocks = paragraphs('No spoilers up top.', 'Past this point: spoilers.', 'The twist.')
+    expect(previewReview(blocks, 500)).toMatchObject({
+      blocks: paragraphs('No spoilers up top.'),
+      stoppedAtSpoiler: true,
+    })
+  })
+})
@@ -0,0 +1,122 @@
+export type ReviewBlock = {
+  type: 'paragraph' | 'quote' | 'heading'
+  text: string
+}
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] }
+
+export type ReviewPreview = {
+  blocks: ReviewBlock[]
+  /** Something was left out, so the card needs a "read more" toggle. */
+  truncated: boolean
+  /** The cut was made before a spoiler warning rather than for length. */
+  stoppedAtSpoiler: boolean
+}
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' ',
+}
+
+/**
+ * Reviewers flag spoilers in prose ("SPOILERS AHEAD", "스포일러 주의"); the preview stops there.
+ * Promises of the opposite ("spoiler-free", "no spoilers", "스포일러 없음") are not warnings.
+ */
+const SPOILER_PATTERN =
+  /(?<!\b(?:no|non|zero|without)[\s-]*)spoilers?(?![\s-]*free)|스포일러(?!\s*[가는]?\s*없)|스포\s*주의/i
+
+/** TMDb passes through a handful of HTML tags; map them onto the Markdown we render and drop the rest. */
+const normalizeHtml = (content: string) =>
+  content
+    .replace(/\r\n?/g, '\n')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(em|i)>/gi, '_')
+    .replace(/<\/?(strong|b)>/gi, '**')
+    .replace(/<\/p>\s*<p>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (entity) => ENTITIES[entity] ?? entity)
+
+export const parseReviewBlocks = (content: string): ReviewBlock[] =>
+  normalizeHtml(content)
+    .split(/\n{2,}/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .map((block): ReviewBlock => {
+      const lines = block.split('\n')
+      if (lines.every((line) => line.trimStart().startsWith('>'))) {
+        return { type: 'quote', text: lines.map((line) => line.replace(/^\s*>\s?/, '')).join('\n') }
+      }
+      if (lines.length === 1 && /^#{1,6}\s/.test(block)) {
+        return { type: 'heading', text: block.replace(/^#{1,6}\s+/, '') }
+      }
+      return { type: 'paragraph', text: block }
+    })
+
+// Bold, then italics (`_` only at word edges so snake_case survives), then http(s) links.
+const INLINE_PATTERN =
+  /(\*\*|__)(?=\S)([\s\S]+?)(?<=\S)\1|(?<![\w*])([*_])(?=\S)([\s\S]+?)(?<=\S)\3(?![\w*])|\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = []
+  let rest = text
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest)
+    if (!match) {
+      nodes.push({ type: 'text', text: rest })
+      break
+    }
+    if (match.index > 0) nodes.push({ type: 'text', text: rest.slice(0, match.index) })
+
+    const [whole, , strong, , em, label, href] = match
+    if (strong !== undefined) nodes.push({ type: 'strong', children: parseInline(strong) })
+    else if (em !== undefined) nodes.push({ type: 'em', children: parseInline(em) })
+    else nodes.push({ type: 'link', href, children: parseInline(label) })
+
+    rest = rest.slice(match.index + whole.length)
+  }
+  return nodes
+}
+
+/** Cuts an over-long paragraph at the last sentence end (or word break) that fits. */
+const cutBlock = (block: ReviewBlock, maxChars: number): ReviewBlock => {
+  const head = block.text.slice(0, maxChars)
+  const sentenceEnd = Math.max(
+    ...['. ', '! ', '? ', '\n'].map((mark) => {
+      const index = head.lastIndexOf(mark)
+      return index < 0 ? -1 : index + mark.trimEnd().length
+    }),
+  )
+  const cut = sentenceEnd > maxChars / 2 ? sentenceEnd : head.lastIndexOf(' ')
+  return { ...block, text: `${head.slice(0, cut > 0 ? cut : maxChars).trimEnd()}…` }
+}
+
+/**
+ * The collapsed view of a review: whole blocks up to `maxChars`, ending early before any block
+ * that warns about spoilers so nothing past the warning shows until the reader expands it.
+ */
+export const previewReview = (blocks: ReviewBlock[], maxChars: number): ReviewPreview => {
+  const preview: ReviewBlock[] = []
+  let length = 0
+
+  for (const block of blocks) {
+    if (SPOILER_PATTERN.test(block.text)) {
+      return { blocks: preview, truncated: true, stoppedAtSpoiler: true }
+    }
+    if (length + block.text.length > maxChars) {
+      const remaining = maxChars - length
+      if (preview.length === 0 || remaining > 120) preview.push(cutBlock(block, remaining))
+      return { blocks: preview, truncated: true, stoppedAtSpoiler: false }
+    }
+    preview.push(block)
+    length += block.text.length
+  }
+  return { blocks: preview, truncated: false, stoppedAtSpoiler: false }
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+import type { Movie } from '../api/types'
+import {
+  applyFilterPipeline,
+  createDefaultFilters,
+  filtersFromSearchParams,
+  filtersToSearchParams,
+  type Filters,
+} from './searchFilters'
+
+const read = (query: string) => filtersFromSearchParams(new URLSearchParams(query))
+
+const movie = (id: number, fields: Partial<Movie> = {}): Movie => ({
+  id,
+  title: `Movie ${id}`,
+  overview: '',
+  poster_path: null,
+  backdrop_path: null,
+  media_type: 'movie',
+  ...fields,
+})
+
+describe('filtersFromSearchParams', () => {
+  it('returns the defaults for an empty query string', () => {
+    expect(read('')).toEqual(createDefaultFilters())
+  })
+
+  it('reads every filter from a shared link', () => {
+    const filters = read(
+      'q=heat&genres=28,80&genreMode=or&without=16&rating=7.5&votes=500&from=1990-01-01' +
+        '&to=1999-12-31&lang=en&runtimeMin=90&cert=US:R&cast=1158:Al%20Pacino' +
+        '&keyword=9748:heist&sort=vote_average.desc&subscribed=1',
+    )
+    expect(filters).toMatchObject({
+      mediaType: 'movie',
+      query: 'heat',
+      genres: ['28', '80'],
+      genreMode: 'or',
+      excludedGenres: ['16'],
+      rating: 7.5,
+      minVotes: 500,
+      releaseFrom: '1990-01-01',
+      releaseTo: '1999-12-31',
+      originalLanguage: 'en',
+      runtimeMin: '90',
+      certification: 'US:R',
+      cast: [{ id: 1158, name: 'Al Pacino' }],
+      keywords: [{ id: 9748, name: 'heist' }],
+      sort: 'vote_average.desc',
+      onlySubscribed: true,
+    })
+  })
+
+  it('drops malformed or out-of-range values one by one', () => {
+    const filters = read(
+      'q=ok&genres=28,abc,28&rating=11&votes=7&year=99&from=2020-13-01&lang=english' +
+        '&runtimeMin=-5&cert=R&cast=Pacino&sort=random',
+    )
+    expect(filters).toEqual({ ...createDefaultFilters(), query: 'ok', genres: ['28'] })
+  })
+
+  it('keeps the start of an inverted date range and drops its end', () => {
+    expect(read('from=2020-01-01&to=2019-01-01')).toMatchObject({
+      releaseFrom: '2020-01-01',
+      releaseTo: '',
+    })
+  })
+
+  it('never excludes a genre that is also included', () => {
+    expect(read('genres=28&without=28,16').excludedGenres).toEqual(['16'])
+  })
+
+  it('keeps movie-only filters off series searches', () => {
+    const filters = read('type=tv&cert=US:R&cast=1158:Al%20Pacino&crew=1:Someone')
+    expect(filters).toMatchObject({ mediaType: 'tv', certification: '', cast: [], crew: [] })
+  })
+
+  it('keeps only the query in the all-media mode', () => {
+    expect(read('type=all&q=nolan&genres=28&rating=8')).toEqual({
+      ...createDefaultFilters('all'),
+      query: 'nolan',
+    })
+  })
+})
+
+describe('filtersToSearchParams', () => {
+  it('leaves defaults out of the query string', () => {
+    expect(filtersToSearchParams(createDefaultFilters()).toString()).toBe('')
+    expect(filtersToSearchParams({ ...createDefaultFilters('tv'), query: 'x' }).toString()).toBe(
+      'type=tv&q=x',
+    )
+  })
+
+  it('round-trips through filtersFromSearchParams', () => {
+    const filters: Filters = {
+      ...createDefaultFilters(),
+      query: 'alien',
+      genres: ['878', '27'],
+      excludedGenres: ['35'],
+      rating: 6.5,
+      releaseFrom: '1979-01-01',
+      crew: [{ id: 578, name: 'Ridley Scott' }],
+      keywords: [{ id: 1, name: 'space: the final frontier' }],
+      sort: 'release_date.asc',
+    }
+    expect(read(filtersToSearchParams(filters).toString())).toEqual(filters)
+  })
+})
+
+describe('applyFilterPipeline', () => {
+  const movies = [
+    movie(1, { genre_ids: [28], vote_average: 8, popularity: 10, release_date: '2001-05-01' }),
+    movie(2, { genre_ids: [28, 80], vote_average: 6, popularity: 30, release_date: '1999-05-01' }),
+    movie(3, { genre_ids: [80], vote_average: 9, popularity: 20, release_date: '2010-05-01' }),
+  ]
+
+  it('combines selected genres with and/or and removes excluded ones', () => {
+    const base = createDefaultFilters()
+    const ids = (filters: Filters) => applyFilterPipeline(movies, filters).map(({ id }) => id)
+
+    expect(ids({ ...base, genres: ['28', '80'] })).toEqual([2])
+    expect(ids({ ...base, genres: ['28', '80'], genreMode: 'or' })).toEqual([2, 3, 1])
+    expect(ids({ ...base, excludedGenres: ['80'] })).toEqual([1])
+  })
+
+  it('keeps the relevance order of multi search results', () => {
+    const filters = { ...createDefaultFilters('all'), query: 'heat' }
+    expect(applyFilterPipeline(movies, filters).map(({ id }) => id)).toEqual([1, 2, 3])
+  })
+
+  it('applies the rating floor and date range, then sorts', () => {
+    const filters: Filters = {
+      ...createDefaultFilters(),
+      rating: 7,
+      releaseFrom: '2000-01-01',
+      sort: 'release_date.desc',
+    }
+    expect(applyFilterPipeline(movies, filters).map(({ id }) => id)).toEqual([3, 1])
+  })
+})
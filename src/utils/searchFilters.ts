@@ -0,0 +1,365 @@
+import type { CallOptions, MoviePage, MultiSearchPage, TmdbClient } from '../api/tmdb'
+import type { MediaType, Movie } from '../api/types'
+
+export type SortOptionValue =
+  | 'popularity.desc'
+  | 'popularity.asc'
+  | 'vote_average.desc'
+  | 'release_date.desc'
+  | 'release_date.asc'
+
+/**
+ * `all` searches movies, series and people at once through `/search/multi`, which takes no
+ * filters, so it only keeps the query.
+ */
+export type SearchScope = MediaType | 'all'
+
+/** `and` keeps titles tagged with every selected genre, `or` with at least one of them. */
+export type GenreMode = 'and' | 'or'
+
+/** A person or keyword picked in a filter, kept with its name so chips and links need no lookup. */
+export type FilterEntity = {
+  id: number
+  name: string
+}
+
+export type Filters = {
+  mediaType: SearchScope
+  query: string
+  /** Genre ids to include, combined according to `genreMode`. */
+  genres: string[]
+  genreMode: GenreMode
+  /** Genre ids a title must not carry. */
+  excludedGenres: string[]
+  rating: number
+  minVotes: number
+  year: string
+  /** Release (or first air) date bounds as `YYYY-MM-DD`; either side may be left open. */
+  releaseFrom: string
+  releaseTo: string
+  /** ISO 639-1 code of the original language. */
+  originalLanguage: string
+  /** Discover only: runtime bounds in minutes, kept as typed. */
+  runtimeMin: string
+  runtimeMax: string
+  /** Movie Discover only: `REGION:rating`, so a rating picked for another region is ignored. */
+  certification: string
+  /** Movie Discover only: titles featuring every one of these actors. */
+  cast: FilterEntity[]
+  /** Movie Discover only: titles any of these people worked on, directors in the picker. */
+  crew: FilterEntity[]
+  /** Discover only: titles tagged with every one of these keywords. */
+  keywords: FilterEntity[]
+  sort: SortOptionValue
+  /** Discover only: keep titles streaming on a service the user subscribes to. */
+  onlySubscribed: boolean
+}
+
+const SORT_VALUES: SortOptionValue[] = [
+  'popularity.desc',
+  'popularity.asc',
+  'vote_average.desc',
+  'release_date.desc',
+  'release_date.asc',
+]
+
+export const MIN_VOTE_OPTIONS = [50, 100, 500, 1000, 5000]
+
+/** Longer keywords are cut rather than rejected; TMDb ignores most of such a query anyway. */
+const MAX_QUERY_LENGTH = 200
+const MAX_NAME_LENGTH = 100
+
+export const createDefaultFilters = (mediaType: SearchScope = 'movie'): Filters => ({
+  mediaType,
+  query: '',
+  genres: [],
+  genreMode: 'and',
+  excludedGenres: [],
+  rating: 0,
+  minVotes: 0,
+  year: '',
+  releaseFrom: '',
+  releaseTo: '',
+  originalLanguage: '',
+  runtimeMin: '',
+  runtimeMax: '',
+  certification: '',
+  cast: [],
+  crew: [],
+  keywords: [],
+  sort: 'popularity.desc',
+  onlySubscribed: false,
+})
+
+const readDate = (value: string | null) =>
+  value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)) ? value : ''
+
+const readIds = (value: string | null) =>
+  [...new Set((value ?? '').split(',').filter((id) => /^\d+$/.test(id)))]
+
+/** Ratings run from 0 to 10 in half steps, like the slider. */
+const readRating = (value: string | null) => {
+  const rating = Math.round(Number(value) * 2) / 2
+  return Number.isFinite(rating) && rating > 0 && rating <= 10 ? rating : 0
+}
+
+const readMatching = (value: string | null, pattern: RegExp) =>
+  value && pattern.test(value) ? value : ''
+
+/** Repeated `id:name` parameters; the first entry wins when an id repeats. */
+const readEntities = (values: string[]) =>
+  values.reduce<FilterEntity[]>((entities, value) => {
+    const match = /^(\d+):(.+)$/.exec(value)
+    const id = Number(match?.[1])
+    if (match && !entities.some((entity) => entity.id === id)) {
+      entities.push({ id, name: match[2].slice(0, MAX_NAME_LENGTH) })
+    }
+    return entities
+  }, [])
+
+const writeEntities = (name: string, entities: FilterEntity[]): [string, string][] =>
+  entities.map((entity) => [name, `${entity.id}:${entity.name}`])
+
+/**
+ * Reads filters from the `/search` query string. Anything malformed or out of range falls back to
+ * its default on its own, so one bad parameter never discards the rest of a shared link.
+ */
+export const filtersFromSearchParams = (params: URLSearchParams): Filters => {
+  const type = params.get('type')
+  const defaults = createDefaultFilters(type === 'tv' || type === 'all' ? type : 'movie')
+  const query = (params.get('q') ?? '').slice(0, MAX_QUERY_LENGTH)
+  if (defaults.mediaType === 'all') return { ...defaults, query }
+
+  const genres = readIds(params.get('genres'))
+  const minVotes = Number(params.get('votes'))
+  const sort = params.get('sort') as SortOptionValue | null
+  const releaseFrom = readDate(params.get('from'))
+  const releaseTo = readDate(params.get('to'))
+  const isMovie = defaults.mediaType === 'movie'
+
+  return {
+    ...defaults,
+    query,
+    genres,
+    genreMode: params.get('genreMode') === 'or' ? 'or' : 'and',
+    excludedGenres: readIds(params.get('without')).filter((id) => !genres.includes(id)),
+    rating: readRating(params.get('rating')),
+    minVotes: MIN_VOTE_OPTIONS.includes(minVotes) ? minVotes : 0,
+    year: readMatching(params.get('year'), /^\d{4}$/),
+    releaseFrom,
+    // An inverted range could never match; keep the start and drop the end.
+    releaseTo: releaseFrom && releaseTo < releaseFrom ? '' : releaseTo,
+    originalLanguage: readMatching(params.get('lang'), /^[a-z]{2}$/),
+    runtimeMin: readMatching(params.get('runtimeMin'), /^\d{1,3}$/),
+    runtimeMax: readMatching(params.get('runtimeMax'), /^\d{1,3}$/),
+    certification: isMovie ? readMatching(params.get('cert'), /^[A-Z]{2}:[^:]{1,8}$/) : '',
+    cast: isMovie ? readEntities(params.getAll('cast')) : [],
+    crew: isMovie ? readEntities(params.getAll('crew')) : [],
+    keywords: readEntities(params.getAll('keyword')),
+    sort: sort && SORT_VALUES.includes(sort) ? sort : defaults.sort,
+    onlySubscribed: params.get('subscribed') === '1',
+  }
+}
+
+/** The query string for `filters`; defaults are left out so plain searches keep short links. */
+export const filtersToSearchParams = (filters: Filters) => {
+  const defaults = createDefaultFilters(filters.mediaType)
+  const entries: [string, string][] = [
+    ['type', filters.mediaType === 'movie' ? '' : filters.mediaType],
+    ['q', filters.query],
+    ['genres', filters.genres.join(',')],
+    ['genreMode', filters.genreMode === 'or' ? 'or' : ''],
+    ['without', filters.excludedGenres.join(',')],
+    ['rating', filters.rating > 0 ? String(filters.rating) : ''],
+    ['votes', filters.minVotes > 0 ? String(filters.minVotes) : ''],
+    ['year', filters.year],
+    ['from', filters.releaseFrom],
+    ['to', filters.releaseTo],
+    ['lang', filters.originalLanguage],
+    ['runtimeMin', filters.runtimeMin.trim()],
+    ['runtimeMax', filters.runtimeMax.trim()],
+    ['cert', filters.certification],
+    ...writeEntities('cast', filters.cast),
+    ...writeEntities('crew', filters.crew),
+    ...writeEntities('keyword', filters.keywords),
+    ['sort', filters.sort === defaults.sort ? '' : filters.sort],
+    ['subscribed', filters.onlySubscribed ? '1' : ''],
+  ]
+  return new URLSearchParams(entries.filter(([, value]) => value !== ''))
+}
+
+/** Identifies a result across pages and media types, e.g. `tv-1396`. */
+export const toResultKey = (movie: Movie) => `${movie.media_type ?? 'movie'}-${movie.id}`
+
+/** Series sort on `first_air_date`; movie sort keys are kept in the filters and mapped here. */
+const toTvSort = (sort: SortOptionValue) => sort.replace(/^release_date\./, 'first_air_date.')
+
+const valueOrZero = (value?: number) => (typeof value === 'number' ? value : 0)
+const releaseDateValue = (value?: string) => {
+  if (!value) return 0
+  const timestamp = Date.parse(value)
+  return Number.isNaN(timestamp) ? 0 : timestamp
+}
+
+const comparators: Record<SortOptionValue, (a: Movie, b: Movie) => number> = {
+  'popularity.desc': (a, b) => valueOrZero(b.popularity) - valueOrZero(a.popularity),
+  'popularity.asc': (a, b) => valueOrZero(a.popularity) - valueOrZero(b.popularity),
+  'vote_average.desc': (a, b) => valueOrZero(b.vote_average) - valueOrZero(a.vote_average),
+  'release_date.desc': (a, b) => releaseDateValue(b.release_date) - releaseDateValue(a.release_date),
+  'release_date.asc': (a, b) => releaseDateValue(a.release_date) - releaseDateValue(b.release_date),
+}
+
+/** Minutes from a runtime input; blank or invalid input leaves that side of the range open. */
+export const toMinutes = (value: string) => {
+  const minutes = Math.round(Number(value))
+  return value.trim() && Number.isFinite(minutes) && minutes > 0 ? minutes : undefined
+}
+
+/** The rating to send for `region`, when one was picked for it and the search goes to Discover. */
+export const certificationFor = (filters: Filters, region: string) => {
+  if (filters.mediaType !== 'movie' || filters.query.trim()) return ''
+  const [country, rating = ''] = filters.certification.split(':')
+  return country === region ? rating : ''
+}
+
+/**
+ * Keyword search takes no genre, rating, language or date-range parameters, so those filters run
+ * on the fetched pages. Runtime, certification, people and keyword tags are not in list results and
+ * only apply to Discover.
+ */
+export const filtersLocally = (filters: Filters) =>
+  !!filters.query.trim() &&
+  (filters.genres.length > 0 ||
+    filters.excludedGenres.length > 0 ||
+    filters.rating > 0 ||
+    filters.minVotes > 0 ||
+    !!filters.releaseFrom ||
+    !!filters.releaseTo ||
+    !!filters.originalLanguage)
+
+const matchesGenres = (movie: Movie, filters: Filters) => {
+  const genreIds = movie.genre_ids ?? []
+  if (filters.excludedGenres.some((id) => genreIds.includes(Number(id)))) return false
+  if (filters.genres.length === 0) return true
+  return filters.genreMode === 'and'
+    ? filters.genres.every((id) => genreIds.includes(Number(id)))
+    : filters.genres.some((id) => genreIds.includes(Number(id)))
+}
+
+export const applyFilterPipeline = (source: Movie[], filters: Filters) => {
+  let filtered = source.filter((movie) => matchesGenres(movie, filters))
+  if (filters.rating > 0) {
+    filtered = filtered.filter((movie) => (movie.vote_average ?? 0) >= filters.rating)
+  }
+  if (filters.minVotes > 0) {
+    filtered = filtered.filter((movie) => (movie.vote_count ?? 0) >= filters.minVotes)
+  }
+  if (filters.year) {
+    filtered = filtered.filter((movie) => (movie.release_date ?? '').startsWith(filters.year))
+  }
+  if (filters.releaseFrom || filters.releaseTo) {
+    // ISO dates compare correctly as strings; titles without a date fall outside any range.
+    filtered = filtered.filter((movie) => {
+      const date = movie.release_date?.slice(0, 10)
+      return (
+        !!date &&
+        (!filters.releaseFrom || date >= filters.releaseFrom) &&
+        (!filters.releaseTo || date <= filters.releaseTo)
+      )
+    })
+  }
+  if (filters.originalLanguage) {
+    filtered = filtered.filter((movie) => movie.original_language === filters.originalLanguage)
+  }
+  // Multi search has no sort option; TMDb's relevance order keeps exact matches on top.
+  if (filters.mediaType === 'all') return filtered
+  const sorter = comparators[filters.sort]
+  return filtered.slice().sort(sorter)
+}
+
+const joinIds = (entities: FilterEntity[], separator: ',' | '|') =>
+  entities.map((entity) => entity.id).join(separator) || undefined
+
+/** What a search needs besides its filters: the app's region and the user's services. */
+export type SearchContext = {
+  region: string
+  /** Subscribed provider ids joined with `|`, which asks Discover for any of them. */
+  providerIds: string
+}
+
+/**
+ * Requests one page for `filters`: keyword search when there is a query, Discover otherwise, and
+ * multi search for `all`. Keyword results still need `applyFilterPipeline` for the filters search
+ * endpoints do not take.
+ */
+export const requestSearchPage = (
+  client: TmdbClient,
+  filters: Filters,
+  page: number,
+  { region, providerIds }: SearchContext,
+  options: CallOptions<MoviePage> = {},
+): Promise<MoviePage | MultiSearchPage> => {
+  const query = filters.query.trim()
+  const year = filters.year || undefined
+  // A rating floor needs some votes behind it, so it implies at least 50 unless more are asked.
+  const minVotes = Math.max(filters.minVotes, filters.rating > 0 ? 50 : 0)
+  const sharedParams = {
+    with_genres: filters.genres.join(filters.genreMode === 'and' ? ',' : '|') || undefined,
+    without_genres: filters.excludedGenres.join(',') || undefined,
+    'vote_average.gte': filters.rating || undefined,
+    'vote_count.gte': minVotes || undefined,
+    'with_runtime.gte': toMinutes(filters.runtimeMin),
+    'with_runtime.lte': toMinutes(filters.runtimeMax),
+    with_original_language: filters.originalLanguage || undefined,
+    with_keywords: joinIds(filters.keywords, ','),
+  }
+  const rating = certificationFor(filters, region)
+  const certificationParams = rating ? { certification_country: region, certification: rating } : {}
+  const providerParams =
+    filters.onlySubscribed && providerIds
+      ? {
+          with_watch_providers: providerIds,
+          watch_region: region,
+          with_watch_monetization_types: 'flatrate',
+        }
+      : {}
+
+  if (filters.mediaType === 'all') {
+    return client.searchMulti({ query, page }, options)
+  }
+  if (filters.mediaType === 'tv') {
+    return query
+      ? client.searchTv({ query, page, first_air_date_year: year }, options)
+      : client.discoverTv(
+          {
+            page,
+            sort_by: toTvSort(filters.sort),
+            first_air_date_year: year,
+            'first_air_date.gte': filters.releaseFrom || undefined,
+            'first_air_date.lte': filters.releaseTo || undefined,
+            ...sharedParams,
+            ...providerParams,
+          },
+          options,
+        )
+  }
+  return query
+    ? client.searchMovies({ query, page, primary_release_year: year }, options)
+    : client.discoverMovies(
+        {
+          page,
+          sort_by: filters.sort,
+          region,
+          primary_release_year: year,
+          'primary_release_date.gte': filters.releaseFrom || undefined,
+          'primary_release_date.lte': filters.releaseTo || undefined,
+          ...sharedParams,
+          ...certificationParams,
+          with_cast: joinIds(filters.cast, ','),
+          // Directors rarely share a film, so several mean any of them; TMDb matches any crew job.
+          with_crew: joinIds(filters.crew, '|'),
+          ...providerParams,
+        },
+        options,
+      )
+}